@@ -0,0 +1,228 @@
+import { ConfigError } from './errors.js';
+import { DEFAULTS } from './constants.js';
+import type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitPermit,
+  CircuitState,
+} from './types.js';
+
+/**
+ * Creates a circuit breaker for Satim API calls.
+ *
+ * The circuit opens after `failureThreshold` consecutive transport failures,
+ * or when at least `minimumRequests` requests in the last `windowMs` failed at
+ * `errorRateThreshold` or more. While open, calls fail fast with
+ * CircuitOpenError. After `resetTimeoutMs` the circuit is half-open: trial
+ * requests close it again on success or reopen it on failure.
+ *
+ * Pass the breaker to several clients through `http.circuitBreaker` to share
+ * its state, e.g. to hide the card payment button during outages.
+ *
+ * @param config - Thresholds, timings and state change hook
+ * @returns Circuit breaker
+ * @throws ConfigError if a threshold is out of range
+ *
+ * @example
+ * const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 15000 });
+ * const client = createSatimClient({ ...config, http: { circuitBreaker: breaker } });
+ *
+ * const showCardPayment = breaker.getState() !== 'open';
+ */
+export function createCircuitBreaker(config: CircuitBreakerConfig = {}): CircuitBreaker {
+  const failureThreshold = config.failureThreshold ?? DEFAULTS.CIRCUIT_FAILURE_THRESHOLD;
+  const errorRateThreshold =
+    config.errorRateThreshold ?? DEFAULTS.CIRCUIT_ERROR_RATE_THRESHOLD;
+  const minimumRequests = config.minimumRequests ?? DEFAULTS.CIRCUIT_MINIMUM_REQUESTS;
+  const windowMs = config.windowMs ?? DEFAULTS.CIRCUIT_WINDOW_MS;
+  const resetTimeoutMs = config.resetTimeoutMs ?? DEFAULTS.CIRCUIT_RESET_TIMEOUT_MS;
+  const halfOpenMaxRequests =
+    config.halfOpenMaxRequests ?? DEFAULTS.CIRCUIT_HALF_OPEN_MAX_REQUESTS;
+
+  if (!(failureThreshold >= 1)) {
+    throw new ConfigError('circuitBreaker.failureThreshold must be at least 1');
+  }
+  if (!(errorRateThreshold > 0 && errorRateThreshold <= 1)) {
+    throw new ConfigError('circuitBreaker.errorRateThreshold must be between 0 and 1');
+  }
+  if (!(windowMs > 0)) {
+    throw new ConfigError('circuitBreaker.windowMs must be positive');
+  }
+  if (!(halfOpenMaxRequests >= 1)) {
+    throw new ConfigError('circuitBreaker.halfOpenMaxRequests must be at least 1');
+  }
+
+  let state: CircuitState = 'closed';
+  let openedAt = 0;
+  let consecutiveFailures = 0;
+  let trialsInFlight = 0;
+  const outcomes = createOutcomeWindow(windowMs);
+
+  const transition = (to: CircuitState) => {
+    if (state === to) {
+      return;
+    }
+    const from = state;
+    state = to;
+    consecutiveFailures = 0;
+    trialsInFlight = 0;
+    outcomes.clear();
+    if (to === 'open') {
+      openedAt = Date.now();
+    }
+    config.onStateChange?.({ from, to });
+  };
+
+  const currentState = (): CircuitState => {
+    if (state === 'open' && Date.now() - openedAt >= resetTimeoutMs) {
+      transition('half-open');
+    }
+    return state;
+  };
+
+  const errorRateExceeded = (now: number): boolean => {
+    const { total, failed } = outcomes.counts(now);
+    return total >= minimumRequests && failed / total >= errorRateThreshold;
+  };
+
+  const record = (failed: boolean, trial: boolean) => {
+    // Outcomes of requests admitted before the last state change are stale
+    if (state !== (trial ? 'half-open' : 'closed')) {
+      return;
+    }
+    if (trial) {
+      transition(failed ? 'open' : 'closed');
+      return;
+    }
+    const now = Date.now();
+    consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+    outcomes.record(failed, now);
+    if (consecutiveFailures >= failureThreshold || (failed && errorRateExceeded(now))) {
+      transition('open');
+    }
+  };
+
+  return {
+    getState: currentState,
+
+    getRetryAfterMs() {
+      return currentState() === 'open'
+        ? Math.max(0, openedAt + resetTimeoutMs - Date.now())
+        : 0;
+    },
+
+    tryAcquire() {
+      const admittedIn = currentState();
+      if (admittedIn === 'open') {
+        return null;
+      }
+      const trial = admittedIn === 'half-open';
+      if (trial) {
+        if (trialsInFlight >= halfOpenMaxRequests) {
+          return null;
+        }
+        trialsInFlight++;
+      }
+
+      let settled = false;
+      const settle = (failed?: boolean) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        if (trial && state === 'half-open') {
+          trialsInFlight--;
+        }
+        if (failed !== undefined) {
+          record(failed, trial);
+        }
+      };
+      const permit: CircuitPermit = {
+        success: () => settle(false),
+        failure: () => settle(true),
+        release: () => settle(),
+      };
+      return permit;
+    },
+
+    reset() {
+      transition('closed');
+      consecutiveFailures = 0;
+      outcomes.clear();
+    },
+  };
+}
+
+/**
+ * Request outcomes over a sliding window
+ */
+interface OutcomeWindow {
+  record(failed: boolean, now: number): void;
+  counts(now: number): { total: number; failed: number };
+  clear(): void;
+}
+
+/**
+ * Creates an error rate window split into fixed buckets, so that memory does
+ * not grow with traffic. Outcomes expire one bucket (windowMs / bucketCount)
+ * at a time.
+ *
+ * @param windowMs - Window length in milliseconds
+ * @param bucketCount - Number of buckets
+ * @returns Outcome window
+ */
+function createOutcomeWindow(
+  windowMs: number,
+  bucketCount: number = DEFAULTS.CIRCUIT_WINDOW_BUCKETS
+): OutcomeWindow {
+  const bucketMs = windowMs / bucketCount;
+  const buckets = Array.from({ length: bucketCount }, () => ({ index: -1, total: 0, failed: 0 }));
+  const indexAt = (now: number) => Math.floor(now / bucketMs);
+
+  return {
+    record(failed, now) {
+      const index = indexAt(now);
+      const bucket = buckets[index % bucketCount]!;
+      // The slot still holds a bucket from an earlier pass of the window
+      if (bucket.index !== index) {
+        bucket.index = index;
+        bucket.total = 0;
+        bucket.failed = 0;
+      }
+      bucket.total++;
+      if (failed) {
+        bucket.failed++;
+      }
+    },
+
+    counts(now) {
+      const oldest = indexAt(now) - bucketCount;
+      let total = 0;
+      let failed = 0;
+      for (const bucket of buckets) {
+        if (bucket.index > oldest) {
+          total += bucket.total;
+          failed += bucket.failed;
+        }
+      }
+      return { total, failed };
+    },
+
+    clear() {
+      for (const bucket of buckets) {
+        bucket.index = -1;
+        bucket.total = 0;
+        bucket.failed = 0;
+      }
+    },
+  };
+}
+
+/**
+ * Checks whether a circuitBreaker option is a breaker rather than a configuration
+ */
+export function isCircuitBreaker(
+  value: CircuitBreakerConfig | CircuitBreaker
+): value is CircuitBreaker {
+  return typeof (value as CircuitBreaker).tryAcquire === 'function';
+}
@@ -2,7 +2,6 @@ import type {
   SatimConfig,
   SatimLogger,
   SatimLanguage,
-  LogLevel,
   RegisterOrderParams,
   RegisterOrderRawResponse,
   RegisterOrderResponse,
@@ -10,12 +9,62 @@ import type {
   ConfirmOrderResponse,
   RefundOrderRawResponse,
   RefundOrderResponse,
+  DepositOrderRawResponse,
+  DepositOrderResponse,
+  ReverseOrderRawResponse,
+  ReverseOrderResponse,
+  GetOrderStatusParams,
+  GetOrderStatusRawResponse,
+  GetOrderStatusResponse,
   RegisterJsonParams,
+  RetryRule,
+  VerifyPaymentParams,
+  VerifyPaymentResult,
+  PaymentMismatch,
+  DeclineReasonCode,
+  HandleReturnOptions,
+  ReturnResult,
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitState,
+  CallOptions,
+  HttpConfig,
+  SatimMiddleware,
+  SatimTracer,
+  Redactor,
 } from './types.js';
-import { DEFAULTS, ENDPOINTS, VALIDATION } from './constants.js';
-import { ValidationError, SatimApiError, mapSatimErrorCode } from './errors.js';
+import { OrderStatus } from './types.js';
+import {
+  DEFAULTS,
+  DEFAULT_RETRY_RULES,
+  ENDPOINTS,
+  VALIDATION,
+} from './constants.js';
+import {
+  SatimError,
+  ConfigError,
+  ValidationError,
+  SatimApiError,
+  TimeoutError,
+  mapSatimErrorCode,
+} from './errors.js';
+import type { SatimOperation } from './errors.js';
 import { toMinorUnits } from './amount.js';
+import { classifyDecline, isRetryableDecline } from './decline.js';
+import { describe } from './describe.js';
+import { getGenericMessage } from './messages.js';
 import { makeRequest } from './http.js';
+import type { HttpRequestOptions, RetryPolicy } from './http.js';
+import { createOperationLimiters } from './rate-limit.js';
+import { createCircuitBreaker, isCircuitBreaker } from './circuit-breaker.js';
+import type { RateLimiter } from './rate-limit.js';
+import { createConnectTimeoutFetch } from './transport.js';
+import type { FetchFn } from './transport.js';
+import { orderAttributes, traceOperation } from './tracing.js';
+import type { OperationTrace } from './tracing.js';
+import { mergeContext } from './context.js';
+import { createLogger, withRedaction } from './logger.js';
+import { createRedactor, runWithRedactor } from './redact.js';
 
 /**
  * Satim client for interacting with the SATIM-IPAY payment gateway
@@ -25,35 +74,148 @@ export interface SatimClient {
    * Registers a new order for payment
    *
    * @param params - Order registration parameters
+   * @param options - Call options (signal, timeoutMs, language, context)
    * @returns Registration response with orderId and formUrl
    */
-  register(params: RegisterOrderParams): Promise<RegisterOrderResponse>;
+  register(
+    params: RegisterOrderParams,
+    options?: CallOptions
+  ): Promise<RegisterOrderResponse>;
 
   /**
    * Confirms/acknowledges a transaction after payment redirect
    *
    * @param mdOrder - Order ID returned from register
-   * @param languageOverride - Optional language override
+   * @param options - Language override, or call options (signal, timeoutMs, context)
    * @returns Confirmation response with order status
    */
   confirm(
     mdOrder: string,
-    languageOverride?: SatimLanguage
+    options?: SatimLanguage | CallOptions
   ): Promise<ConfirmOrderResponse>;
 
+  /**
+   * Confirms a transaction and checks it against what was registered.
+   *
+   * Use this instead of `confirm().isPaid()` before delivering goods: an order
+   * is only reported as paid when the confirmed amount (compared in minor
+   * units), order number and currency all match the expected values.
+   *
+   * @param mdOrder - Order ID returned from register
+   * @param expected - Registered amount, order number and currency
+   * @param options - Language override, or call options (signal, timeoutMs, context)
+   * @returns Verdict: paid, mismatch, unpaid or declined
+   */
+  verifyPayment(
+    mdOrder: string,
+    expected: VerifyPaymentParams,
+    options?: SatimLanguage | CallOptions
+  ): Promise<VerifyPaymentResult>;
+
+  /**
+   * Handles the customer's redirect back from the SATIM payment page.
+   *
+   * Reads `orderId` from the return URL, confirms the order once and maps the
+   * outcome to a result with a localized message. Never throws for gateway or
+   * validation errors; they are returned with status `error`.
+   *
+   * @param request - Incoming request (Fetch API) or the full return URL
+   * @param options - Language of the confirmation and message, and call options
+   * @returns paid, declined, cancelled, pending or error result
+   */
+  handleReturn(
+    request: Request | URL,
+    options?: HandleReturnOptions
+  ): Promise<ReturnResult>;
+
   /**
    * Refunds a completed transaction
    *
    * @param orderId - Order ID to refund
    * @param amountDzd - Amount to refund in DZD (required). Accepts number, string, or bigint.
-   * @param languageOverride - Optional language override
+   * @param options - Language override, or call options (signal, timeoutMs, context)
    * @returns Refund response
    */
   refund(
     orderId: string,
     amountDzd: number | string | bigint,
-    languageOverride?: SatimLanguage
+    options?: SatimLanguage | CallOptions
   ): Promise<RefundOrderResponse>;
+
+  /**
+   * Retrieves the current status of an order without acknowledging it.
+   * Safe to call repeatedly (e.g. for support tooling or reconciliation).
+   *
+   * @param params - Either `{ orderId }` or `{ orderNumber }`
+   * @param options - Language override, or call options (signal, timeoutMs, context)
+   * @returns Extended order status
+   */
+  getOrderStatus(
+    params: GetOrderStatusParams,
+    options?: SatimLanguage | CallOptions
+  ): Promise<GetOrderStatusResponse>;
+
+  /**
+   * Registers a new order with pre-authorization (two-phase payment).
+   * Funds are held on the card once paid (order status 1) and must later be
+   * captured with `deposit()` or released with `reverse()`.
+   *
+   * @param params - Order registration parameters (same rules as `register`)
+   * @param options - Call options (signal, timeoutMs, language, context)
+   * @returns Registration response with orderId and formUrl
+   */
+  registerPreAuth(
+    params: RegisterOrderParams,
+    options?: CallOptions
+  ): Promise<RegisterOrderResponse>;
+
+  /**
+   * Captures funds held by a pre-authorized order.
+   *
+   * A deposit can be made only once per order. The amount must not exceed the
+   * authorized amount; depositing less performs a partial capture and the
+   * remainder of the authorization is released by the issuer.
+   *
+   * @param orderId - Order ID returned from registerPreAuth
+   * @param amountDzd - Amount to capture in DZD (required). Accepts number, string, or bigint.
+   * @param options - Language override, or call options (signal, timeoutMs, context)
+   * @returns Deposit response
+   */
+  deposit(
+    orderId: string,
+    amountDzd: number | string | bigint,
+    options?: SatimLanguage | CallOptions
+  ): Promise<DepositOrderResponse>;
+
+  /**
+   * Reverses (cancels) a pre-authorized or same-day order, releasing held funds
+   *
+   * @param orderId - Order ID to reverse
+   * @param options - Language override, or call options (signal, timeoutMs, context)
+   * @returns Reverse response
+   */
+  reverse(
+    orderId: string,
+    options?: SatimLanguage | CallOptions
+  ): Promise<ReverseOrderResponse>;
+
+  /**
+   * Returns the state of the circuit breaker ('closed' when none is configured).
+   * Use it to hide card payment while SATIM is unreachable.
+   *
+   * @returns closed, open or half-open
+   */
+  getCircuitState(): CircuitState;
+
+  /**
+   * Adds a middleware around every Satim API call made by this client.
+   * Middleware run in the order they were added.
+   *
+   * @param middleware - Middleware receiving the request and next()
+   * @returns The client, for chaining
+   * @throws ConfigError if middleware is not a function
+   */
+  use(middleware: SatimMiddleware): SatimClient;
 }
 
 /**
@@ -66,14 +228,31 @@ interface ResolvedConfig {
   apiBaseUrl: string;
   language: SatimLanguage;
   currency: string;
+  paymentPageUrl?: string;
   httpMethod: 'POST' | 'GET';
   timeoutMs: number;
+  connectTimeoutMs: number;
+  headersTimeoutMs?: number;
+  bodyTimeoutMs?: number;
   logger: SatimLogger | null;
-  customFetch?: (url: string, init: RequestInit) => Promise<Response>;
-  onRequest?: (endpoint: string, params: Record<string, string>) => void;
-  onResponse?: (endpoint: string, response: unknown) => void;
+  fetch?: FetchFn;
+  onRequest?: HttpRequestOptions['onRequest'];
+  onResponse?: HttpRequestOptions['onResponse'];
+  retry: RetryPolicy;
+  retryRules: Record<SatimOperation, RetryRule>;
+  rateLimiter: (operation: SatimOperation) => RateLimiter | undefined;
+  circuitBreaker?: CircuitBreaker;
+  middleware: SatimMiddleware[];
+  tracer?: SatimTracer;
+  redactor: Redactor;
+  redactHookResponses: boolean;
 }
 
+/**
+ * Decides whether a failed attempt may be retried
+ */
+type RetryGuard = (error: SatimError, attempt: number) => boolean | Promise<boolean>;
+
 /**
  * Creates a Satim client instance
  *
@@ -83,12 +262,92 @@ interface ResolvedConfig {
 export function createSatimClient(config: SatimConfig): SatimClient {
   const resolved = resolveConfig(config);
 
-  return {
-    register: (params) => registerOrder(resolved, params),
-    confirm: (mdOrder, lang) => confirmOrder(resolved, mdOrder, lang),
-    refund: (orderId, amountDzd, lang) =>
-      refundOrder(resolved, orderId, amountDzd, lang),
+  const client: SatimClient = {
+    register: (params, options) =>
+      traced(resolved, 'register', params, options, (call) =>
+        registerOrder(resolved, params, call)
+      ),
+    confirm: (mdOrder, options) =>
+      traced(resolved, 'confirm', { orderId: mdOrder }, options, (call) =>
+        confirmOrder(resolved, mdOrder, call)
+      ),
+    verifyPayment: (mdOrder, expected, options) =>
+      traced(resolved, 'verifyPayment', { orderId: mdOrder }, options, (call) =>
+        verifyPayment(resolved, mdOrder, expected, call)
+      ),
+    handleReturn: (request, options) =>
+      traced(resolved, 'handleReturn', {}, options, (call) =>
+        handleReturn(resolved, request, call)
+      ),
+    refund: (orderId, amountDzd, options) =>
+      traced(resolved, 'refund', { orderId }, options, (call) =>
+        refundOrder(resolved, orderId, amountDzd, call)
+      ),
+    getOrderStatus: (params, options) =>
+      traced(resolved, 'getOrderStatus', params, options, (call) =>
+        getOrderStatus(resolved, params, call)
+      ),
+    registerPreAuth: (params, options) =>
+      traced(resolved, 'registerPreAuth', params, options, (call) =>
+        registerOrder(resolved, params, call, 'registerPreAuth')
+      ),
+    deposit: (orderId, amountDzd, options) =>
+      traced(resolved, 'deposit', { orderId }, options, (call) =>
+        depositOrder(resolved, orderId, amountDzd, call)
+      ),
+    reverse: (orderId, options) =>
+      traced(resolved, 'reverse', { orderId }, options, (call) =>
+        reverseOrder(resolved, orderId, call)
+      ),
+    getCircuitState: () => resolved.circuitBreaker?.getState() ?? 'closed',
+    use: (middleware) => {
+      if (typeof middleware !== 'function') {
+        throw new ConfigError('middleware must be a function');
+      }
+      resolved.middleware.push(middleware);
+      return client;
+    },
   };
+  return client;
+}
+
+/**
+ * Normalizes the language-or-options argument of client methods and adds the
+ * request context of the current runWithContext() scope
+ */
+function toCallOptions(options?: SatimLanguage | CallOptions): CallOptions {
+  const call = typeof options === 'string' ? { language: options } : (options ?? {});
+  const context = mergeContext(call.context);
+  return context ? { ...call, context } : call;
+}
+
+/**
+ * Call options carrying the span of the client call to its HTTP requests
+ */
+interface TracedCallOptions extends CallOptions {
+  trace?: OperationTrace;
+}
+
+/**
+ * Runs a client method inside an operation span when a tracer is configured,
+ * with the client's redactor applied to the details of the errors it builds
+ */
+function traced<T>(
+  config: ResolvedConfig,
+  method: string,
+  order: { orderId?: unknown; orderNumber?: unknown },
+  options: SatimLanguage | CallOptions | undefined,
+  fn: (call: TracedCallOptions) => Promise<T>
+): Promise<T> {
+  const call = toCallOptions(options);
+  return traceOperation(
+    config.tracer,
+    method,
+    orderAttributes(order, config.redactor),
+    call.context,
+    config.redactor,
+    (trace) => runWithRedactor(config.redactor, () => fn(trace ? { ...call, trace } : call))
+  );
 }
 
 /**
@@ -99,13 +358,21 @@ function resolveConfig(config: SatimConfig): ResolvedConfig {
     config.logger?.enableDevLogging ??
     process.env['NODE_ENV'] !== 'production';
 
+  const redactor = createRedactor(config.redaction);
+
   // Use custom logger if provided, otherwise create default logger
   let logger: SatimLogger | null = null;
   if (config.logger?.customLogger) {
     logger = config.logger.customLogger;
   } else if (enableLogging) {
-    logger = createLogger(config.logger?.level ?? DEFAULTS.LOG_LEVEL);
+    logger = createLogger(config.logger?.level ?? DEFAULTS.LOG_LEVEL, {
+      format: config.logger?.format ?? DEFAULTS.LOG_FORMAT,
+      redactor,
+    });
   }
+  logger = logger && withRedaction(logger, redactor);
+
+  const retry = config.http?.retry;
 
   // Determine HTTP method - warn if GET is used and default to POST
   let httpMethod: 'POST' | 'GET' = config.http?.method ?? DEFAULTS.HTTP_METHOD;
@@ -123,56 +390,202 @@ function resolveConfig(config: SatimConfig): ResolvedConfig {
     apiBaseUrl: config.apiBaseUrl,
     language: config.language ?? DEFAULTS.LANGUAGE,
     currency: config.currency ?? DEFAULTS.CURRENCY,
+    paymentPageUrl: config.paymentPageUrl,
     httpMethod,
     timeoutMs: config.http?.timeoutMs ?? DEFAULTS.TIMEOUT_MS,
+    connectTimeoutMs: config.http?.connectTimeoutMs ?? DEFAULTS.CONNECT_TIMEOUT_MS,
+    headersTimeoutMs: config.http?.headersTimeoutMs,
+    bodyTimeoutMs: config.http?.bodyTimeoutMs,
     logger,
-    customFetch: config.http?.fetch,
+    fetch: resolveFetch(config.http),
     onRequest: config.http?.onRequest,
     onResponse: config.http?.onResponse,
+    retry: {
+      maxAttempts: retry?.maxAttempts ?? DEFAULTS.RETRY_MAX_ATTEMPTS,
+      baseDelayMs: retry?.baseDelayMs ?? DEFAULTS.RETRY_BASE_DELAY_MS,
+      maxDelayMs: retry?.maxDelayMs ?? DEFAULTS.RETRY_MAX_DELAY_MS,
+      jitter: retry?.jitter ?? true,
+      retryOnStatus: retry?.retryOnStatus ?? DEFAULTS.RETRY_ON_STATUS,
+      onRetry: retry?.onRetry,
+    },
+    retryRules: { ...DEFAULT_RETRY_RULES, ...retry?.rules },
+    rateLimiter: createOperationLimiters(config.http?.rateLimit),
+    circuitBreaker: resolveCircuitBreaker(config.http?.circuitBreaker, logger),
+    middleware: [],
+    tracer: config.tracer,
+    redactor,
+    redactHookResponses: config.redaction?.redactHookResponses ?? true,
   };
 }
 
 /**
- * Creates a minimal logger implementation
+ * Uses the custom fetch if provided. Otherwise a connect timeout other than
+ * the default needs a dedicated transport; without one the global fetch is
+ * used, whose default connect timeout matches DEFAULTS.CONNECT_TIMEOUT_MS.
  */
-function createLogger(level: LogLevel): SatimLogger {
-  const levels: Record<LogLevel, number> = {
-    debug: 0,
-    info: 1,
-    warn: 2,
-    error: 3,
+function resolveFetch(http: HttpConfig | undefined): FetchFn | undefined {
+  if (http?.fetch) {
+    return http.fetch;
+  }
+  if (
+    http?.connectTimeoutMs !== undefined &&
+    http.connectTimeoutMs !== DEFAULTS.CONNECT_TIMEOUT_MS
+  ) {
+    return createConnectTimeoutFetch(http.connectTimeoutMs);
+  }
+  return undefined;
+}
+
+/**
+ * Uses a shared circuit breaker as is, or creates one that logs state changes
+ */
+function resolveCircuitBreaker(
+  option: CircuitBreakerConfig | CircuitBreaker | undefined,
+  logger: SatimLogger | null
+): CircuitBreaker | undefined {
+  if (!option || isCircuitBreaker(option)) {
+    return option;
+  }
+  return createCircuitBreaker({
+    ...option,
+    onStateChange: (change) => {
+      if (change.to === 'open') {
+        logger?.warn({ ...change }, 'Satim circuit breaker opened');
+      } else {
+        logger?.info({ ...change }, 'Satim circuit breaker state changed');
+      }
+      option.onStateChange?.(change);
+    },
+  });
+}
+
+/**
+ * Builds HTTP request options from the resolved configuration
+ */
+function httpOptions(
+  config: ResolvedConfig,
+  operation: SatimOperation,
+  call: TracedCallOptions,
+  canRetry?: RetryGuard
+): HttpRequestOptions {
+  return {
+    operation,
+    method: config.httpMethod,
+    timeoutMs: call.timeoutMs ?? config.timeoutMs,
+    connectTimeoutMs: config.connectTimeoutMs,
+    headersTimeoutMs: config.headersTimeoutMs,
+    bodyTimeoutMs: config.bodyTimeoutMs,
+    logger: config.logger ?? undefined,
+    fetch: config.fetch,
+    onRequest: config.onRequest,
+    onResponse: config.onResponse,
+    retry: config.retry,
+    canRetry,
+    rateLimiter: config.rateLimiter(operation),
+    circuitBreaker: config.circuitBreaker,
+    // Copied so that middleware added during a call only apply to later calls
+    middleware: [...config.middleware],
+    tracer: config.tracer,
+    operationTrace: call.trace,
+    signal: call.signal,
+    context: call.context,
+    redactor: config.redactor,
+    redactHookResponses: config.redactHookResponses,
   };
+}
+
+/**
+ * Creates the retry guard for an operation according to its retry rule.
+ * Returns undefined when the call must not be retried.
+ */
+async function createRetryGuard(
+  config: ResolvedConfig,
+  operation: SatimOperation,
+  target: { orderId?: string; idempotencyKey?: string },
+  call: TracedCallOptions
+): Promise<RetryGuard | undefined> {
+  if (config.retry.maxAttempts <= 1) {
+    return undefined;
+  }
 
-  const currentLevel = levels[level];
-
-  const log = (
-    logLevel: LogLevel,
-    obj: Record<string, unknown>,
-    msg?: string
-  ) => {
-    if (levels[logLevel] >= currentLevel) {
-      const timestamp = new Date().toISOString();
-      const message = msg ? `${msg}: ${JSON.stringify(obj)}` : JSON.stringify(obj);
-      console[logLevel === 'debug' ? 'log' : logLevel](
-        `[${timestamp}] [satim] [${logLevel.toUpperCase()}] ${message}`
+  switch (config.retryRules[operation]) {
+    case 'always':
+      return () => true;
+    case 'idempotent':
+      return target.idempotencyKey ? () => true : undefined;
+    case 'verify': {
+      const verify = target.orderId
+        ? await createVerifyGuard(config, operation, target.orderId, call)
+        : undefined;
+      // A request that timed out waiting for the rate limiter was never sent
+      return (
+        verify &&
+        ((error, attempt) =>
+          (error instanceof TimeoutError && error.phase === 'queue') ||
+          verify(error, attempt))
       );
     }
-  };
+    default:
+      return undefined;
+  }
+}
 
-  return {
-    debug: (obj, msg) => log('debug', obj, msg),
-    info: (obj, msg) => log('info', obj, msg),
-    warn: (obj, msg) => log('warn', obj, msg),
-    error: (obj, msg) => log('error', obj, msg),
-  };
+/**
+ * Creates a guard that checks the order status before allowing a retry,
+ * so that a write which may have reached SATIM is never repeated.
+ * The status lookups are getOrderStatus calls of their own, so they are not
+ * counted as attempts or retries of the guarded call.
+ */
+async function createVerifyGuard(
+  config: ResolvedConfig,
+  operation: SatimOperation,
+  orderId: string,
+  call: TracedCallOptions
+): Promise<RetryGuard | undefined> {
+  const lookupOptions: TracedCallOptions = { ...call, trace: undefined };
+  const lookup = () =>
+    traced(config, 'getOrderStatus', { orderId }, lookupOptions, (lookupCall) =>
+      getOrderStatus(config, { orderId }, lookupCall)
+    );
+
+  switch (operation) {
+    case 'refund': {
+      // The order status alone cannot tell whether this (possibly partial)
+      // refund went through, so compare the refunded amount against a
+      // baseline taken before the first attempt
+      let baseline: number;
+      try {
+        baseline = (await lookup()).refundedAmount ?? 0;
+      } catch {
+        return undefined;
+      }
+      return async () => ((await lookup()).refundedAmount ?? 0) === baseline;
+    }
+    case 'deposit':
+      return async () =>
+        (await lookup()).orderStatus === OrderStatus.APPROVED;
+    case 'reverse':
+      return async () => {
+        const { orderStatus } = await lookup();
+        return (
+          orderStatus === OrderStatus.APPROVED ||
+          orderStatus === OrderStatus.DEPOSITED
+        );
+      };
+    default:
+      return undefined;
+  }
 }
 
 /**
- * Registers an order with Satim
+ * Registers an order with Satim (one-phase or pre-authorized)
  */
 async function registerOrder(
   config: ResolvedConfig,
-  params: RegisterOrderParams
+  params: RegisterOrderParams,
+  call: CallOptions,
+  operation: 'register' | 'registerPreAuth' = 'register',
+  isRecoveryRetry = false
 ): Promise<RegisterOrderResponse> {
   // Validate parameters
   validateRegisterParams(params);
@@ -217,7 +630,7 @@ async function registerOrder(
     amount: amountMinor,
     currency: params.currency ?? config.currency,
     returnUrl: params.returnUrl,
-    language: params.language ?? config.language,
+    language: call.language ?? params.language ?? config.language,
     jsonParams: jsonParamsStr,
   };
 
@@ -237,31 +650,73 @@ async function registerOrder(
   }
 
   // Make request
-  const response = await makeRequest<RegisterOrderRawResponse>(
-    config.apiBaseUrl,
-    ENDPOINTS.REGISTER,
-    requestParams,
-    {
-      method: config.httpMethod,
-      timeoutMs: config.timeoutMs,
-      logger: config.logger ?? undefined,
-      fetch: config.customFetch,
-      onRequest: config.onRequest,
-      onResponse: config.onResponse,
+  let response;
+  try {
+    response = await makeRequest<RegisterOrderRawResponse>(
+      config.apiBaseUrl,
+      operation === 'registerPreAuth'
+        ? ENDPOINTS.REGISTER_PRE_AUTH
+        : ENDPOINTS.REGISTER,
+      requestParams,
+      httpOptions(
+        config,
+        operation,
+        call,
+        await createRetryGuard(
+          config,
+          operation,
+          { idempotencyKey: params.idempotencyKey },
+          call
+        )
+      )
+    );
+  } catch (error) {
+    // A timeout leaves us unable to tell whether SATIM created the order,
+    // unless the request was still waiting for the rate limiter
+    if (
+      params.recoverExisting &&
+      error instanceof TimeoutError &&
+      error.phase !== 'queue'
+    ) {
+      return recoverRegisteredOrder(
+        config,
+        params,
+        call,
+        operation,
+        amountMinor,
+        error,
+        isRecoveryRetry
+      );
     }
-  );
+    throw error;
+  }
 
   const raw = response.data;
   const errorCode = normalizeNumber(raw.errorCode, 0);
 
   // Check for API error
   if (errorCode !== 0) {
-    throw new SatimApiError(
-      mapSatimErrorCode('register', errorCode),
-      'register',
+    const apiError = new SatimApiError(
+      mapSatimErrorCode(operation, errorCode),
+      operation,
       errorCode,
-      { orderId: raw.orderId }
+      { orderId: raw.orderId },
+      { attempts: response.attempts }
     );
+
+    // Error code 1: an order with this orderNumber already exists
+    if (params.recoverExisting && errorCode === 1) {
+      return recoverRegisteredOrder(
+        config,
+        params,
+        call,
+        operation,
+        amountMinor,
+        apiError,
+        true
+      );
+    }
+    throw apiError;
   }
 
   const orderId = raw.orderId ?? null;
@@ -273,17 +728,126 @@ async function registerOrder(
     errorCode,
     orderId,
     formUrl,
+    recovered: false,
     isSuccessful,
   };
 }
 
+/**
+ * Resolves an ambiguous registration by looking the order up by orderNumber.
+ *
+ * - Order exists, is unpaid and has the same amount: it is returned as recovered.
+ * - Order exists in any other state, or without an orderId: error code 1 is
+ *   thrown with the observed state.
+ * - Order does not exist (only possible after a timeout): registration is retried once.
+ * - Lookup itself fails: the original error is rethrown.
+ */
+async function recoverRegisteredOrder(
+  config: ResolvedConfig,
+  params: RegisterOrderParams,
+  call: CallOptions,
+  operation: 'register' | 'registerPreAuth',
+  amountMinor: string,
+  originalError: TimeoutError | SatimApiError,
+  isRecoveryRetry: boolean
+): Promise<RegisterOrderResponse> {
+  const language = call.language ?? params.language ?? config.language;
+
+  let status: GetOrderStatusResponse;
+  try {
+    status = await getOrderStatus(
+      config,
+      { orderNumber: params.orderNumber },
+      { ...call, language }
+    );
+  } catch (lookupError) {
+    const notFound =
+      lookupError instanceof SatimApiError && lookupError.satimErrorCode === 6;
+
+    if (notFound && !isRecoveryRetry) {
+      config.logger?.warn(
+        { operation, reason: originalError.code },
+        'Satim order not found after ambiguous registration, registering again'
+      );
+      return registerOrder(config, params, call, operation, true);
+    }
+
+    config.logger?.warn(
+      { operation, reason: originalError.code },
+      'Satim order lookup failed during registration recovery'
+    );
+    throw originalError;
+  }
+
+  const payable = status.orderStatus === OrderStatus.REGISTERED_NOT_PAID;
+  const sameAmount =
+    status.amount !== null && String(status.amount) === amountMinor;
+
+  if (!payable || !sameAmount || !status.orderId) {
+    throw new SatimApiError(
+      mapSatimErrorCode(operation, 1),
+      operation,
+      1,
+      {
+        orderStatus: status.orderStatus,
+        reason: !payable
+          ? 'NOT_PAYABLE'
+          : !sameAmount
+            ? 'AMOUNT_MISMATCH'
+            : 'ORDER_ID_MISSING',
+        recoveryAttempted: true,
+      }
+    );
+  }
+
+  const orderId = status.orderId;
+  const formUrl = buildPaymentPageUrl(config, orderId, language);
+
+  config.logger?.info(
+    { operation, reason: originalError.code, hasFormUrl: !!formUrl },
+    'Recovered existing Satim order after ambiguous registration'
+  );
+
+  const raw: RegisterOrderRawResponse = {
+    errorCode: 0,
+    orderId,
+    ...(formUrl ? { formUrl } : {}),
+  };
+  const isSuccessful = () => !!formUrl;
+
+  return {
+    raw,
+    errorCode: 0,
+    orderId,
+    formUrl,
+    recovered: true,
+    isSuccessful,
+  };
+}
+
+/**
+ * Builds the payment page URL for an order from the configured template
+ */
+function buildPaymentPageUrl(
+  config: ResolvedConfig,
+  orderId: string,
+  language: SatimLanguage
+): string | null {
+  if (!config.paymentPageUrl) {
+    return null;
+  }
+  return config.paymentPageUrl
+    .replaceAll('{mdOrder}', encodeURIComponent(orderId))
+    .replaceAll('{language}', language);
+}
+
 /**
  * Confirms/acknowledges a transaction
  */
 async function confirmOrder(
   config: ResolvedConfig,
   mdOrder: string,
-  languageOverride?: SatimLanguage
+  call: CallOptions = {}
 ): Promise<ConfirmOrderResponse> {
   if (!mdOrder || typeof mdOrder !== 'string') {
     throw new ValidationError(
@@ -296,25 +860,31 @@ async function confirmOrder(
     userName: config.userName,
     password: config.password,
     mdOrder,
-    language: languageOverride ?? config.language,
+    language: call.language ?? config.language,
   };
 
   const response = await makeRequest<ConfirmOrderRawResponse>(
     config.apiBaseUrl,
     ENDPOINTS.CONFIRM,
     requestParams,
-    {
-      method: config.httpMethod,
-      timeoutMs: config.timeoutMs,
-      logger: config.logger ?? undefined,
-      fetch: config.customFetch,
-      onRequest: config.onRequest,
-      onResponse: config.onResponse,
-    }
+    httpOptions(
+      config,
+      'confirm',
+      call,
+      await createRetryGuard(config, 'confirm', {}, call)
+    )
   );
 
   const raw = response.data;
   const errorCode = normalizeNumber(raw.ErrorCode, 0);
+  const orderStatus = normalizeNumber(raw.OrderStatus, null);
+  const actionCode = normalizeNumber(raw.actionCode, null);
+  const svfeResponse = raw.SvfeResponse || stringParam(raw.params, 'respCode');
+  // ErrorCode 2 means the payment itself was declined
+  const declineReason =
+    errorCode === 2 || isDeclinedStatus(orderStatus)
+      ? classifyDecline(actionCode, svfeResponse)
+      : null;
 
   // Check for API error
   if (errorCode !== 0) {
@@ -322,12 +892,24 @@ async function confirmOrder(
       mapSatimErrorCode('confirm', errorCode),
       'confirm',
       errorCode,
-      { orderNumber: raw.OrderNumber }
+      {
+        orderNumber: raw.OrderNumber,
+        ...(declineReason
+          ? {
+              orderStatus,
+              actionCode,
+              actionCodeDescription: raw.actionCodeDescription,
+              svfeResponse,
+              declineReason,
+              retryableWithSameCard: isRetryableDecline(declineReason),
+            }
+          : {}),
+      },
+      { attempts: response.attempts }
     );
   }
 
   // Extract standard fields
-  const orderStatus = normalizeNumber(raw.OrderStatus, null);
   const amount = normalizeNumber(raw.Amount, null);
   const orderNumber = raw.OrderNumber ?? null;
   const pan = raw.Pan ?? null;
@@ -348,15 +930,20 @@ async function confirmOrder(
 
   const isSuccessful = () => errorCode === 0;
   const isPaid = () => isSuccessful() && orderStatus === 2;
+  const canRetryWithSameCard = () => isRetryableDecline(declineReason);
 
   return {
     raw,
     errorCode,
+    errorMessage: raw.ErrorMessage ?? null,
     orderStatus,
     amount,
     orderNumber,
     pan,
+    actionCode,
     actionCodeDescription,
+    svfeResponse: svfeResponse ?? null,
+    declineReason,
     authorizationResponseId,
     approvalCode,
     cardholderName,
@@ -370,9 +957,197 @@ async function confirmOrder(
     params,
     isSuccessful,
     isPaid,
+    canRetryWithSameCard,
   };
 }
 
+/**
+ * Confirms a transaction and compares it with the expected values
+ */
+async function verifyPayment(
+  config: ResolvedConfig,
+  mdOrder: string,
+  expected: VerifyPaymentParams,
+  call: CallOptions = {}
+): Promise<VerifyPaymentResult> {
+  if (!expected?.expectedOrderNumber || typeof expected.expectedOrderNumber !== 'string') {
+    throw new ValidationError(
+      'expectedOrderNumber is required and must be a string',
+      'INVALID_ORDER_NUMBER'
+    );
+  }
+  const expectedAmount = toMinorUnits(expected.expectedAmount);
+  const expectedCurrency = expected.expectedCurrency ?? config.currency;
+
+  let confirmation: ConfirmOrderResponse;
+  try {
+    confirmation = await confirmOrder(config, mdOrder, call);
+  } catch (error) {
+    // Declined confirmations come back as error code 2 with the decline details
+    const details = error instanceof SatimApiError ? error.details : undefined;
+    if (typeof details?.['declineReason'] !== 'string') {
+      throw error;
+    }
+    return {
+      status: 'declined',
+      declineReason: details['declineReason'] as DeclineReasonCode,
+      actionCode: normalizeNumber(details['actionCode'], null),
+      confirmation: null,
+    };
+  }
+
+  if (confirmation.declineReason) {
+    return {
+      status: 'declined',
+      declineReason: confirmation.declineReason,
+      actionCode: confirmation.actionCode,
+      confirmation,
+    };
+  }
+
+  if (!confirmation.isPaid()) {
+    return {
+      status: 'unpaid',
+      orderStatus: confirmation.orderStatus,
+      confirmation,
+    };
+  }
+
+  const actualAmount =
+    confirmation.amount !== null ? String(confirmation.amount) : null;
+  const mismatches: PaymentMismatch[] = [];
+  if (actualAmount !== expectedAmount) {
+    mismatches.push({ field: 'amount', expected: expectedAmount, actual: actualAmount });
+  }
+  if (confirmation.orderNumber !== expected.expectedOrderNumber) {
+    mismatches.push({
+      field: 'orderNumber',
+      expected: expected.expectedOrderNumber,
+      actual: confirmation.orderNumber,
+    });
+  }
+  if (confirmation.currency !== expectedCurrency) {
+    mismatches.push({
+      field: 'currency',
+      expected: expectedCurrency,
+      actual: confirmation.currency,
+    });
+  }
+
+  if (mismatches.length > 0) {
+    config.logger?.warn(
+      { fields: mismatches.map((m) => m.field) },
+      'Satim payment does not match the registered order'
+    );
+    return { status: 'mismatch', mismatches, confirmation };
+  }
+
+  return { status: 'paid', confirmation };
+}
+
+/**
+ * Confirms the order of a return URL and maps the outcome
+ */
+async function handleReturn(
+  config: ResolvedConfig,
+  request: Request | URL,
+  options: HandleReturnOptions = {}
+): Promise<ReturnResult> {
+  const language = options.language ?? config.language;
+  const url = request instanceof URL ? request : new URL(request.url);
+  const orderId = url.searchParams.get('orderId');
+
+  if (!orderId || !VALIDATION.ORDER_ID_PATTERN.test(orderId)) {
+    const error = new ValidationError(
+      'Return URL has a missing or invalid orderId',
+      'INVALID_ORDER_ID'
+    );
+    return {
+      status: 'error',
+      orderId: null,
+      message: describe(error, language),
+      error,
+    };
+  }
+
+  let confirmation: ConfirmOrderResponse;
+  try {
+    confirmation = await confirmOrder(config, orderId, { ...options, language });
+  } catch (error) {
+    if (!(error instanceof SatimError)) {
+      throw error;
+    }
+    const declineReason = error.details?.['declineReason'];
+    if (error instanceof SatimApiError && typeof declineReason === 'string') {
+      return {
+        status: 'declined',
+        orderId,
+        message: describe(error, language),
+        declineReason: declineReason as DeclineReasonCode,
+        canRetryWithSameCard: error.details?.['retryableWithSameCard'] === true,
+        confirmation: null,
+      };
+    }
+    return {
+      status: 'error',
+      orderId,
+      message: describe(error, language),
+      error,
+    };
+  }
+
+  if (confirmation.declineReason) {
+    return {
+      status: 'declined',
+      orderId,
+      message: describe(confirmation, language),
+      declineReason: confirmation.declineReason,
+      canRetryWithSameCard: confirmation.canRetryWithSameCard(),
+      confirmation,
+    };
+  }
+
+  switch (confirmation.orderStatus) {
+    case OrderStatus.DEPOSITED:
+      return {
+        status: 'paid',
+        orderId,
+        message: describe(confirmation, language),
+        confirmation,
+      };
+    case OrderStatus.APPROVED:
+      return {
+        status: 'authorized',
+        orderId,
+        message: describe(confirmation, language),
+        confirmation,
+      };
+    case OrderStatus.REGISTERED_NOT_PAID:
+      return {
+        status: 'cancelled',
+        orderId,
+        message: getGenericMessage('paymentCancelled', language),
+        confirmation,
+      };
+    case OrderStatus.REVERSED:
+    case OrderStatus.REFUNDED:
+      return {
+        status: 'cancelled',
+        orderId,
+        message: describe(confirmation, language),
+        confirmation,
+      };
+    default:
+      return {
+        status: 'pending',
+        orderId,
+        message: getGenericMessage('paymentPending', language),
+        orderStatus: confirmation.orderStatus,
+        confirmation,
+      };
+  }
+}
+
 /**
  * Refunds a transaction
  */
@@ -380,7 +1155,7 @@ async function refundOrder(
   config: ResolvedConfig,
   orderId: string,
   amountDzd: number | string | bigint,
-  languageOverride?: SatimLanguage
+  call: CallOptions = {}
 ): Promise<RefundOrderResponse> {
   if (!orderId || typeof orderId !== 'string') {
     throw new ValidationError(
@@ -406,21 +1181,19 @@ async function refundOrder(
     orderId,
     amount: amountMinor,
     currency: config.currency,
-    language: languageOverride ?? config.language,
+    language: call.language ?? config.language,
   };
 
   const response = await makeRequest<RefundOrderRawResponse>(
     config.apiBaseUrl,
     ENDPOINTS.REFUND,
     requestParams,
-    {
-      method: config.httpMethod,
-      timeoutMs: config.timeoutMs,
-      logger: config.logger ?? undefined,
-      fetch: config.customFetch,
-      onRequest: config.onRequest,
-      onResponse: config.onResponse,
-    }
+    httpOptions(
+      config,
+      'refund',
+      call,
+      await createRetryGuard(config, 'refund', { orderId }, call)
+    )
   );
 
   const raw = response.data;
@@ -432,7 +1205,144 @@ async function refundOrder(
       mapSatimErrorCode('refund', errorCode),
       'refund',
       errorCode,
-      { errorMessage: raw.errorMessage }
+      { errorMessage: raw.errorMessage },
+      { attempts: response.attempts }
+    );
+  }
+
+  const errorMessage = raw.errorMessage ?? null;
+  const isSuccessful = () => errorCode === 0;
+
+  return {
+    raw,
+    errorCode,
+    errorMessage,
+    isSuccessful,
+  };
+}
+
+/**
+ * Captures a pre-authorized transaction
+ */
+async function depositOrder(
+  config: ResolvedConfig,
+  orderId: string,
+  amountDzd: number | string | bigint,
+  call: CallOptions = {}
+): Promise<DepositOrderResponse> {
+  if (!orderId || typeof orderId !== 'string') {
+    throw new ValidationError(
+      'orderId is required and must be a string',
+      'INVALID_ORDER_ID'
+    );
+  }
+
+  // An explicit amount is required: SATIM treats 0 as "capture everything",
+  // which is easy to trigger by accident, so full captures must pass the
+  // authorized amount explicitly.
+  if (amountDzd === undefined || amountDzd === null) {
+    throw new ValidationError(
+      'amountDzd is required for deposit',
+      'INVALID_AMOUNT',
+      { hint: 'Provide the amount to capture in DZD (at most the authorized amount)' }
+    );
+  }
+
+  // Convert amount to minor units
+  const amountMinor = toMinorUnits(amountDzd);
+
+  const requestParams: Record<string, string> = {
+    userName: config.userName,
+    password: config.password,
+    orderId,
+    amount: amountMinor,
+    currency: config.currency,
+    language: call.language ?? config.language,
+  };
+
+  const response = await makeRequest<DepositOrderRawResponse>(
+    config.apiBaseUrl,
+    ENDPOINTS.DEPOSIT,
+    requestParams,
+    httpOptions(
+      config,
+      'deposit',
+      call,
+      await createRetryGuard(config, 'deposit', { orderId }, call)
+    )
+  );
+
+  const raw = response.data;
+  const errorCode = normalizeNumber(raw.errorCode, 0);
+
+  // Check for API error
+  if (errorCode !== 0) {
+    throw new SatimApiError(
+      mapSatimErrorCode('deposit', errorCode),
+      'deposit',
+      errorCode,
+      { errorMessage: raw.errorMessage, amount: amountMinor },
+      { attempts: response.attempts }
+    );
+  }
+
+  const errorMessage = raw.errorMessage ?? null;
+  const isSuccessful = () => errorCode === 0;
+
+  return {
+    raw,
+    errorCode,
+    errorMessage,
+    isSuccessful,
+  };
+}
+
+/**
+ * Reverses a transaction
+ */
+async function reverseOrder(
+  config: ResolvedConfig,
+  orderId: string,
+  call: CallOptions = {}
+): Promise<ReverseOrderResponse> {
+  if (!orderId || typeof orderId !== 'string') {
+    throw new ValidationError(
+      'orderId is required and must be a string',
+      'INVALID_ORDER_ID'
+    );
+  }
+
+  const requestParams: Record<string, string> = {
+    userName: config.userName,
+    password: config.password,
+    orderId,
+    currency: config.currency,
+    language: call.language ?? config.language,
+  };
+
+  const response = await makeRequest<ReverseOrderRawResponse>(
+    config.apiBaseUrl,
+    ENDPOINTS.REVERSE,
+    requestParams,
+    httpOptions(
+      config,
+      'reverse',
+      call,
+      await createRetryGuard(config, 'reverse', { orderId }, call)
+    )
+  );
+
+  const raw = response.data;
+  const errorCode = normalizeNumber(raw.errorCode, 0);
+
+  // Check for API error
+  if (errorCode !== 0) {
+    throw new SatimApiError(
+      mapSatimErrorCode('reverse', errorCode),
+      'reverse',
+      errorCode,
+      { errorMessage: raw.errorMessage },
+      { attempts: response.attempts }
     );
   }
 
@@ -447,6 +1357,156 @@ async function refundOrder(
   };
 }
 
+/**
+ * Retrieves the extended status of an order
+ */
+async function getOrderStatus(
+  config: ResolvedConfig,
+  params: GetOrderStatusParams,
+  call: CallOptions = {}
+): Promise<GetOrderStatusResponse> {
+  const { orderId, orderNumber } = params ?? {};
+
+  if (orderId !== undefined && orderNumber !== undefined) {
+    throw new ValidationError(
+      'Provide either orderId or orderNumber, not both',
+      'INVALID_ORDER_LOOKUP'
+    );
+  }
+
+  const requestParams: Record<string, string> = {
+    userName: config.userName,
+    password: config.password,
+    language: call.language ?? config.language,
+  };
+
+  if (orderId !== undefined) {
+    if (!orderId || typeof orderId !== 'string') {
+      throw new ValidationError(
+        'orderId must be a non-empty string',
+        'INVALID_ORDER_ID'
+      );
+    }
+    requestParams['orderId'] = orderId;
+  } else if (orderNumber !== undefined) {
+    if (!orderNumber || typeof orderNumber !== 'string') {
+      throw new ValidationError(
+        'orderNumber must be a non-empty string',
+        'INVALID_ORDER_NUMBER'
+      );
+    }
+    requestParams['orderNumber'] = orderNumber;
+  } else {
+    throw new ValidationError(
+      'Either orderId or orderNumber is required',
+      'INVALID_ORDER_LOOKUP'
+    );
+  }
+
+  const response = await makeRequest<GetOrderStatusRawResponse>(
+    config.apiBaseUrl,
+    ENDPOINTS.ORDER_STATUS,
+    requestParams,
+    httpOptions(
+      config,
+      'getOrderStatus',
+      call,
+      await createRetryGuard(config, 'getOrderStatus', {}, call)
+    )
+  );
+
+  const raw = response.data;
+  const errorCode = normalizeNumber(raw.errorCode, 0);
+
+  // Check for API error
+  if (errorCode !== 0) {
+    throw new SatimApiError(
+      mapSatimErrorCode('getOrderStatus', errorCode),
+      'getOrderStatus',
+      errorCode,
+      { errorMessage: raw.errorMessage },
+      { attempts: response.attempts }
+    );
+  }
+
+  const attributes = toNameValueMap(raw.attributes);
+  const orderStatus = normalizeNumber(raw.orderStatus, null);
+  const amountInfo = raw.paymentAmountInfo ?? {};
+  const cardInfo = raw.cardAuthInfo ?? {};
+
+  const actionCode = normalizeNumber(raw.actionCode, null);
+  const declineReason = isDeclinedStatus(orderStatus)
+    ? classifyDecline(actionCode)
+    : null;
+
+  const isSuccessful = () => errorCode === 0;
+  const isPaid = () => isSuccessful() && orderStatus === 2;
+  const canRetryWithSameCard = () => isRetryableDecline(declineReason);
+
+  return {
+    raw,
+    errorCode,
+    errorMessage: raw.errorMessage ?? null,
+    orderId: attributes['mdOrder'] ?? orderId ?? null,
+    orderNumber: raw.orderNumber ?? null,
+    orderStatus,
+    actionCode,
+    actionCodeDescription: raw.actionCodeDescription ?? null,
+    declineReason,
+    amount: normalizeNumber(raw.amount, null),
+    currency: raw.currency ?? null,
+    description: raw.orderDescription ?? null,
+    pan: cardInfo.pan ?? null,
+    cardholderName: cardInfo.cardholderName ?? null,
+    approvalCode: cardInfo.approvalCode ?? null,
+    approvedAmount: normalizeNumber(amountInfo.approvedAmount, null),
+    depositedAmount: normalizeNumber(amountInfo.depositedAmount, null),
+    refundedAmount: normalizeNumber(amountInfo.refundedAmount, null),
+    paymentState: amountInfo.paymentState ?? null,
+    merchantOrderParams: toNameValueMap(raw.merchantOrderParams),
+    isSuccessful,
+    isPaid,
+    canRetryWithSameCard,
+  };
+}
+
+/**
+ * Checks whether an order status means the payment was declined
+ */
+function isDeclinedStatus(orderStatus: number | null): boolean {
+  return (
+    orderStatus === OrderStatus.DECLINED ||
+    orderStatus === OrderStatus.UNKNOWN_DECLINE
+  );
+}
+
+/**
+ * Reads a string value from a loosely typed params object
+ */
+function stringParam(
+  params: Record<string, unknown> | undefined,
+  key: string
+): string | undefined {
+  const value = params?.[key];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Converts a Satim name/value list to a plain map
+ */
+function toNameValueMap(list: unknown): Record<string, string> {
+  const map: Record<string, string> = {};
+  if (!Array.isArray(list)) {
+    return map;
+  }
+  for (const entry of list) {
+    if (entry && typeof entry.name === 'string') {
+      map[entry.name] = String(entry.value ?? '');
+    }
+  }
+  return map;
+}
+
 /**
  * Validates register parameters
  */
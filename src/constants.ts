@@ -7,6 +7,10 @@ export const ENDPOINTS = {
   REGISTER: '/register.do',
   CONFIRM: '/public/acknowledgeTransaction.do',
   REFUND: '/refund.do',
+  ORDER_STATUS: '/getOrderStatusExtended.do',
+  REGISTER_PRE_AUTH: '/registerPreAuth.do',
+  DEPOSIT: '/deposit.do',
+  REVERSE: '/reverse.do',
 } as const;
 
 /**
@@ -35,6 +39,55 @@ export const DEFAULTS = {
   VERIFY_SSL: true,
   /** Default log level */
   LOG_LEVEL: 'info' as const,
+  /** Default output format of the built-in logger */
+  LOG_FORMAT: 'text' as const,
+  /** Default maximum attempts per request (1 = no retries) */
+  RETRY_MAX_ATTEMPTS: 1,
+  /** Default initial retry backoff in milliseconds */
+  RETRY_BASE_DELAY_MS: 200,
+  /** Default maximum retry backoff in milliseconds */
+  RETRY_MAX_DELAY_MS: 5000,
+  /** HTTP statuses treated as transient by default */
+  RETRY_ON_STATUS: [408, 429, 500, 502, 503, 504] as readonly number[],
+  /** Consecutive transport failures that open the circuit */
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  /** Share of failed requests in the window that opens the circuit */
+  CIRCUIT_ERROR_RATE_THRESHOLD: 0.5,
+  /** Requests needed in the window before the error rate is considered */
+  CIRCUIT_MINIMUM_REQUESTS: 10,
+  /** Length of the error rate window in milliseconds */
+  CIRCUIT_WINDOW_MS: 60000,
+  /** Buckets the error rate window is split into; outcomes expire one bucket at a time */
+  CIRCUIT_WINDOW_BUCKETS: 10,
+  /** Time the circuit stays open before a trial request in milliseconds */
+  CIRCUIT_RESET_TIMEOUT_MS: 30000,
+  /** Trial requests allowed at once while half-open */
+  CIRCUIT_HALF_OPEN_MAX_REQUESTS: 1,
+  /** Default lifetime of a signed return-URL state token in seconds */
+  RETURN_STATE_TTL_SECONDS: 3600,
+  /** Default query parameter carrying the return-URL state token */
+  RETURN_STATE_PARAM: 'state',
+  /** Default upper bounds of the call duration histogram buckets in seconds */
+  METRICS_DURATION_BUCKETS: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30] as readonly number[],
+  /** Paid orders remembered by the metrics middleware so that repeated confirmations count once */
+  METRICS_PAID_ORDERS_TRACKED: 10000,
+} as const;
+
+/**
+ * Default retry rule per operation
+ *
+ * - always: read-only or naturally idempotent calls
+ * - idempotent: only when the call carries an idempotencyKey
+ * - verify: only after an order status lookup shows the previous attempt had no effect
+ */
+export const DEFAULT_RETRY_RULES = {
+  register: 'idempotent',
+  registerPreAuth: 'idempotent',
+  confirm: 'always',
+  getOrderStatus: 'always',
+  refund: 'verify',
+  deposit: 'verify',
+  reverse: 'verify',
 } as const;
 
 /**
@@ -53,6 +106,20 @@ export const VALIDATION = {
   MAX_DESCRIPTION_LENGTH: 512,
   /** Maximum length for jsonParams */
   MAX_JSON_PARAMS_LENGTH: 1024,
+  /** Minimum length of a return-URL state signing secret in bytes */
+  MIN_RETURN_STATE_SECRET_BYTES: 32,
+  /** Pattern of an order ID (mdOrder) accepted from a return URL */
+  ORDER_ID_PATTERN: /^[A-Za-z0-9_-]{1,64}$/,
+} as const;
+
+/**
+ * node:diagnostics_channel names on which request events are published
+ */
+export const DIAGNOSTICS_CHANNELS = {
+  REQUEST_START: 'satim:request:start',
+  REQUEST_END: 'satim:request:end',
+  REQUEST_ERROR: 'satim:request:error',
+  REQUEST_RETRY: 'satim:request:retry',
 } as const;
 
 /**
@@ -65,10 +132,14 @@ export const ENV_VARS = {
   API_URL: 'API_URL',
   LANGUAGE: 'LANGUAGE',
   CURRENCY: 'CURRENCY',
+  PAYMENT_PAGE_URL: 'PAYMENT_PAGE_URL',
   HTTP_METHOD: 'HTTP_METHOD',
   HTTP_TIMEOUT_MS: 'HTTP_TIMEOUT_MS',
   HTTP_CONNECT_TIMEOUT_MS: 'HTTP_CONNECT_TIMEOUT_MS',
+  HTTP_HEADERS_TIMEOUT_MS: 'HTTP_HEADERS_TIMEOUT_MS',
+  HTTP_BODY_TIMEOUT_MS: 'HTTP_BODY_TIMEOUT_MS',
   HTTP_VERIFY_SSL: 'HTTP_VERIFY_SSL',
   LOG_LEVEL: 'LOG_LEVEL',
   LOG_DEV: 'LOG_DEV',
+  LOG_FORMAT: 'LOG_FORMAT',
 } as const;
@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { SatimRequestContext } from './types.js';
+
+const storage = new AsyncLocalStorage<SatimRequestContext>();
+
+/**
+ * Runs fn with a request context. Every client call made inside it, including
+ * from async continuations, carries the context in its logs, hook calls,
+ * thrown SatimError details and trace spans. Nested scopes add to the
+ * context of the enclosing scope.
+ *
+ * @param context - Values to propagate, e.g. a correlation ID
+ * @param fn - Function to run
+ * @returns Result of fn
+ *
+ * @example
+ * app.use((req, res, next) => {
+ *   runWithContext({ correlationId: req.headers['x-request-id'], merchantId: 'shop-1' }, next);
+ * });
+ */
+export function runWithContext<T>(context: SatimRequestContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Returns the request context of the current scope
+ *
+ * @returns Context set by the enclosing runWithContext(), or undefined outside of one
+ */
+export function getContext(): SatimRequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Merges the request context of the current scope with the context of a call.
+ * Values passed to the call win.
+ *
+ * @param callContext - Context from the call options
+ * @returns Merged context, or undefined when there is neither
+ */
+export function mergeContext(
+  callContext: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  const scoped = storage.getStore();
+  if (!scoped) {
+    return callContext;
+  }
+  return { ...scoped, ...callContext };
+}
@@ -0,0 +1,105 @@
+import { DeclineReason } from './types.js';
+import type { DeclineReasonCode } from './types.js';
+
+/**
+ * Decline categories for SATIM (BPC) processing action codes.
+ *
+ * Action codes not listed here fall back to the SVFE response code, then to
+ * DeclineReason.OTHER.
+ */
+const ACTION_CODE_REASONS: Record<number, DeclineReasonCode> = {
+  // Gateway-side codes
+  [-1]: DeclineReason.TIMEOUT, // Transaction timed out
+  [-2002]: DeclineReason.LIMIT_EXCEEDED, // Amount exceeds the payment limits
+  [-2005]: DeclineReason.AUTHENTICATION_FAILED, // Invalid 3-D Secure signature
+  [-2006]: DeclineReason.AUTHENTICATION_FAILED, // Issuer failed to authenticate the cardholder
+  [-2007]: DeclineReason.TIMEOUT, // Payment time limit expired
+  [-2011]: DeclineReason.AUTHENTICATION_FAILED, // 3-D Secure authentication not completed
+  // Issuer and processing codes
+  100: DeclineReason.CARD_BLOCKED, // Restricted card
+  101: DeclineReason.CARD_EXPIRED, // Expired card
+  103: DeclineReason.CARD_BLOCKED, // Card acceptor must contact the acquirer
+  104: DeclineReason.CARD_BLOCKED, // Restricted card
+  111: DeclineReason.INVALID_CARD_DATA, // Invalid card number
+  116: DeclineReason.INSUFFICIENT_FUNDS, // Insufficient funds
+  117: DeclineReason.INVALID_CARD_DATA, // Incorrect PIN
+  119: DeclineReason.CARD_BLOCKED, // Transaction not permitted to cardholder
+  120: DeclineReason.CARD_BLOCKED, // Transaction not permitted to terminal
+  121: DeclineReason.LIMIT_EXCEEDED, // Exceeds amount limit
+  123: DeclineReason.LIMIT_EXCEEDED, // Exceeds frequency limit
+  125: DeclineReason.CARD_BLOCKED, // Card not effective
+  200: DeclineReason.CARD_BLOCKED, // Pick up card
+  208: DeclineReason.CARD_BLOCKED, // Lost card
+  209: DeclineReason.CARD_BLOCKED, // Stolen card
+  907: DeclineReason.ISSUER_UNAVAILABLE, // Issuer or switch inoperative
+  909: DeclineReason.ISSUER_UNAVAILABLE, // System malfunction
+  910: DeclineReason.ISSUER_UNAVAILABLE, // Issuer inoperative
+  912: DeclineReason.ISSUER_UNAVAILABLE, // Issuer not available
+  71015: DeclineReason.INVALID_CARD_DATA, // Wrong card data (CVV2 or expiry)
+};
+
+/**
+ * Decline categories for SVFE (ISO 8583) response codes
+ */
+const SVFE_RESPONSE_REASONS: Record<string, DeclineReasonCode> = {
+  '14': DeclineReason.INVALID_CARD_DATA, // Invalid card number
+  '41': DeclineReason.CARD_BLOCKED, // Lost card
+  '43': DeclineReason.CARD_BLOCKED, // Stolen card
+  '51': DeclineReason.INSUFFICIENT_FUNDS, // Insufficient funds
+  '54': DeclineReason.CARD_EXPIRED, // Expired card
+  '55': DeclineReason.INVALID_CARD_DATA, // Incorrect PIN
+  '57': DeclineReason.CARD_BLOCKED, // Transaction not permitted to cardholder
+  '61': DeclineReason.LIMIT_EXCEEDED, // Exceeds amount limit
+  '62': DeclineReason.CARD_BLOCKED, // Restricted card
+  '65': DeclineReason.LIMIT_EXCEEDED, // Exceeds frequency limit
+  '68': DeclineReason.TIMEOUT, // Response received too late
+  '82': DeclineReason.INVALID_CARD_DATA, // Wrong CVV2
+  '91': DeclineReason.ISSUER_UNAVAILABLE, // Issuer inoperative
+  '96': DeclineReason.ISSUER_UNAVAILABLE, // System malfunction
+};
+
+/**
+ * Decline categories where paying again with the same card can succeed
+ */
+const RETRYABLE_REASONS: ReadonlySet<DeclineReasonCode> = new Set([
+  DeclineReason.INVALID_CARD_DATA,
+  DeclineReason.AUTHENTICATION_FAILED,
+  DeclineReason.ISSUER_UNAVAILABLE,
+  DeclineReason.TIMEOUT,
+]);
+
+/**
+ * Classifies a declined payment from its action code and SVFE response code
+ *
+ * @param actionCode - Processing system action code
+ * @param svfeResponse - SVFE (ISO 8583) response code, used when the action code is unknown
+ * @returns Decline category
+ */
+export function classifyDecline(
+  actionCode: number | null,
+  svfeResponse?: string | null
+): DeclineReasonCode {
+  if (actionCode !== null) {
+    const reason = ACTION_CODE_REASONS[actionCode];
+    if (reason) {
+      return reason;
+    }
+  }
+  if (svfeResponse) {
+    const reason = SVFE_RESPONSE_REASONS[svfeResponse];
+    if (reason) {
+      return reason;
+    }
+  }
+  return DeclineReason.OTHER;
+}
+
+/**
+ * Tells whether the customer may retry a declined payment with the same card
+ *
+ * @param reason - Decline category
+ * @returns true for data-entry, 3-D Secure, availability and timeout declines
+ */
+export function isRetryableDecline(reason: DeclineReasonCode | null): boolean {
+  return reason !== null && RETRYABLE_REASONS.has(reason);
+}
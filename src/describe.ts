@@ -0,0 +1,93 @@
+import {
+  CircuitOpenError,
+  ConfigError,
+  HttpError,
+  RequestAbortedError,
+  SatimApiError,
+  TimeoutError,
+  ValidationError,
+} from './errors.js';
+import type { SatimOperation } from './errors.js';
+import { DEFAULTS } from './constants.js';
+import {
+  getDeclineMessage,
+  getGenericMessage,
+  getOrderStatusMessage,
+  getSatimErrorMessage,
+  getValidationMessage,
+} from './messages.js';
+import type {
+  ConfirmOrderResponse,
+  DeclineReasonCode,
+  GetOrderStatusResponse,
+  SatimLanguage,
+} from './types.js';
+
+/**
+ * Returns a localized, customer-facing message for an SDK error or a
+ * confirm/order-status response.
+ *
+ * Declined payments are described by their decline reason, other responses by
+ * their order status. Anything that is not an SDK error or response gets a
+ * generic message, so the result can be shown as is from a catch block.
+ *
+ * @param subject - Error thrown by the SDK, or a confirm/getOrderStatus response
+ * @param language - Message language (default: 'fr')
+ * @returns Message in the requested language
+ *
+ * @example
+ * try {
+ *   await client.confirm(orderId);
+ * } catch (error) {
+ *   res.render('failed', { message: describe(error, 'ar') });
+ * }
+ */
+export function describe(
+  subject: unknown,
+  language: SatimLanguage = DEFAULTS.LANGUAGE
+): string {
+  if (subject instanceof SatimApiError) {
+    const declineReason = subject.details?.['declineReason'];
+    if (typeof declineReason === 'string') {
+      return getDeclineMessage(declineReason as DeclineReasonCode, language);
+    }
+    return getSatimErrorMessage(
+      subject.endpoint as SatimOperation,
+      subject.satimErrorCode ?? -1,
+      language
+    );
+  }
+  if (subject instanceof ValidationError) {
+    return getValidationMessage(subject.code ?? '', language, subject.details);
+  }
+  if (subject instanceof TimeoutError) {
+    return getGenericMessage('timeout', language);
+  }
+  if (subject instanceof HttpError || subject instanceof CircuitOpenError) {
+    return getGenericMessage('network', language);
+  }
+  if (subject instanceof ConfigError) {
+    return getGenericMessage('config', language);
+  }
+  if (subject instanceof RequestAbortedError) {
+    return getGenericMessage('aborted', language);
+  }
+  if (isOrderResponse(subject)) {
+    return subject.declineReason
+      ? getDeclineMessage(subject.declineReason, language)
+      : getOrderStatusMessage(subject.orderStatus, language);
+  }
+  return getGenericMessage('unknown', language);
+}
+
+function isOrderResponse(
+  subject: unknown
+): subject is ConfirmOrderResponse | GetOrderStatusResponse {
+  return (
+    typeof subject === 'object' &&
+    subject !== null &&
+    'orderStatus' in subject &&
+    'isPaid' in subject &&
+    typeof subject.isPaid === 'function'
+  );
+}
@@ -0,0 +1,129 @@
+import { channel } from 'node:diagnostics_channel';
+import { DIAGNOSTICS_CHANNELS } from './constants.js';
+import type { SatimError, SatimOperation } from './errors.js';
+import type {
+  HttpMethod,
+  Redactor,
+  SatimDiagnosticsRequest,
+  SatimRequestEndMessage,
+  SatimRequestErrorMessage,
+  SatimRequestRetryMessage,
+  SatimRequestStartMessage,
+} from './types.js';
+
+const startChannel = channel(DIAGNOSTICS_CHANNELS.REQUEST_START);
+const endChannel = channel(DIAGNOSTICS_CHANNELS.REQUEST_END);
+const errorChannel = channel(DIAGNOSTICS_CHANNELS.REQUEST_ERROR);
+const retryChannel = channel(DIAGNOSTICS_CHANNELS.REQUEST_RETRY);
+
+/**
+ * Attempt as seen by makeRequest, before redaction
+ */
+export interface DiagnosticsAttempt {
+  operation: SatimOperation;
+  endpoint: string;
+  method: HttpMethod;
+  attempt: number;
+  params: Record<string, string>;
+  context?: Record<string, unknown>;
+  /** Redactor of the client */
+  redactor: Redactor;
+}
+
+/**
+ * Publishes the events of an HTTP attempt on the diagnostics channels.
+ * Runs send directly when nobody subscribes, so that messages are only
+ * built and redacted when needed.
+ *
+ * @param attempt - The attempt to describe
+ * @param send - Sends the attempt
+ * @param satimErrorCode - Extracts the SATIM error code from the result of send
+ * @returns Result of send
+ */
+export async function publishAttempt<T extends { status: number; durationMs: number }>(
+  attempt: DiagnosticsAttempt,
+  send: () => Promise<T>,
+  satimErrorCode: (result: T) => number | undefined
+): Promise<T> {
+  if (
+    !startChannel.hasSubscribers &&
+    !endChannel.hasSubscribers &&
+    !errorChannel.hasSubscribers
+  ) {
+    return send();
+  }
+
+  const request = toDiagnosticsRequest(attempt);
+  const startTime = Date.now();
+  if (startChannel.hasSubscribers) {
+    const message: SatimRequestStartMessage = { request };
+    startChannel.publish(message);
+  }
+
+  try {
+    const result = await send();
+    if (endChannel.hasSubscribers) {
+      const message: SatimRequestEndMessage = {
+        request,
+        statusCode: result.status,
+        durationMs: result.durationMs,
+        satimErrorCode: satimErrorCode(result),
+      };
+      endChannel.publish(message);
+    }
+    return result;
+  } catch (error) {
+    if (errorChannel.hasSubscribers) {
+      const message: SatimRequestErrorMessage = {
+        request,
+        error,
+        durationMs: Date.now() - startTime,
+      };
+      errorChannel.publish(message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publishes a retry of a failed attempt
+ *
+ * @param attempt - The attempt that failed
+ * @param error - Its error
+ * @param delayMs - Delay before the next attempt
+ */
+export function publishRetry(
+  attempt: DiagnosticsAttempt,
+  error: SatimError,
+  delayMs: number
+): void {
+  if (!retryChannel.hasSubscribers) {
+    return;
+  }
+  const message: SatimRequestRetryMessage = {
+    request: toDiagnosticsRequest(attempt),
+    error,
+    delayMs,
+  };
+  retryChannel.publish(message);
+}
+
+/**
+ * Redacts an attempt for publishing
+ */
+function toDiagnosticsRequest(attempt: DiagnosticsAttempt): SatimDiagnosticsRequest {
+  const request: SatimDiagnosticsRequest = {
+    operation: attempt.operation,
+    endpoint: attempt.endpoint,
+    method: attempt.method,
+    attempt: attempt.attempt,
+    params: attempt.redactor.redactObject(attempt.params) as Record<string, unknown>,
+  };
+  if (attempt.context) {
+    request.context = attempt.redactor.redactObject(attempt.context) as Record<
+      string,
+      unknown
+    >;
+  }
+  return request;
+}
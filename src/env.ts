@@ -1,6 +1,6 @@
 import { ConfigError } from './errors.js';
 import { API_BASE_URLS, DEFAULTS, ENV_VARS } from './constants.js';
-import type { SatimConfig, SatimLanguage, LogLevel, HttpMethod } from './types.js';
+import type { SatimConfig, SatimLanguage, LogLevel, LogFormat, HttpMethod } from './types.js';
 
 /**
  * Options for fromEnv function
@@ -24,12 +24,16 @@ export interface FromEnvOptions {
  * - SATIM_API_URL: API base URL (defaults to test URL)
  * - SATIM_LANGUAGE: Default language (fr, en, ar)
  * - SATIM_CURRENCY: Currency code (default: 012 for DZD)
+ * - SATIM_PAYMENT_PAGE_URL: Payment page URL template for recovered orders
  * - SATIM_HTTP_METHOD: HTTP method (POST, GET)
  * - SATIM_HTTP_TIMEOUT_MS: Request timeout in ms
  * - SATIM_HTTP_CONNECT_TIMEOUT_MS: Connection timeout in ms
+ * - SATIM_HTTP_HEADERS_TIMEOUT_MS: Response headers timeout in ms
+ * - SATIM_HTTP_BODY_TIMEOUT_MS: Response body timeout in ms
  * - SATIM_HTTP_VERIFY_SSL: SSL verification (true, false)
  * - SATIM_LOG_LEVEL: Log level (debug, info, warn, error)
  * - SATIM_LOG_DEV: Enable dev logging (true, false)
+ * - SATIM_LOG_FORMAT: Output format of the built-in logger (text, json)
  *
  * @param options - Options for loading environment variables
  * @returns SatimConfig object
@@ -69,6 +73,7 @@ export function fromEnv(options: FromEnvOptions = {}): SatimConfig {
   const apiBaseUrl = getVar(ENV_VARS.API_URL) ?? API_BASE_URLS.TEST;
   const language = parseLanguage(getVar(ENV_VARS.LANGUAGE));
   const currency = getVar(ENV_VARS.CURRENCY) ?? DEFAULTS.CURRENCY;
+  const paymentPageUrl = getVar(ENV_VARS.PAYMENT_PAGE_URL);
 
   // Parse HTTP config
   const httpMethod = parseHttpMethod(getVar(ENV_VARS.HTTP_METHOD));
@@ -77,10 +82,13 @@ export function fromEnv(options: FromEnvOptions = {}): SatimConfig {
     getVar(ENV_VARS.HTTP_CONNECT_TIMEOUT_MS),
     DEFAULTS.CONNECT_TIMEOUT_MS
   );
+  const headersTimeoutMs = parseOptionalNumber(getVar(ENV_VARS.HTTP_HEADERS_TIMEOUT_MS));
+  const bodyTimeoutMs = parseOptionalNumber(getVar(ENV_VARS.HTTP_BODY_TIMEOUT_MS));
   // Note: verifySSL is no longer configurable - TLS is always enforced for security
 
   // Parse logger config
   const logLevel = parseLogLevel(getVar(ENV_VARS.LOG_LEVEL));
+  const logFormat = parseLogFormat(getVar(ENV_VARS.LOG_FORMAT));
   const enableDevLogging = parseBoolean(
     getVar(ENV_VARS.LOG_DEV),
     process.env['NODE_ENV'] !== 'production'
@@ -93,14 +101,18 @@ export function fromEnv(options: FromEnvOptions = {}): SatimConfig {
     apiBaseUrl,
     language,
     currency,
+    ...(paymentPageUrl ? { paymentPageUrl } : {}),
     http: {
       method: httpMethod,
       timeoutMs,
       connectTimeoutMs,
+      headersTimeoutMs,
+      bodyTimeoutMs,
       // Note: verifySSL removed - TLS is always enforced
     },
     logger: {
       level: logLevel,
+      format: logFormat,
       enableDevLogging,
     },
   };
@@ -159,6 +171,18 @@ function parseLogLevel(value: string | undefined): LogLevel {
   return DEFAULTS.LOG_LEVEL;
 }
 
+/**
+ * Parses log format string
+ */
+function parseLogFormat(value: string | undefined): LogFormat {
+  const lower = value?.toLowerCase();
+  if (lower === 'text' || lower === 'json') {
+    return lower;
+  }
+
+  return DEFAULTS.LOG_FORMAT;
+}
+
 /**
  * Parses number with default
  */
@@ -171,6 +195,18 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parses an optional number, returning undefined when unset or invalid
+ */
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
 /**
  * Parses boolean with default
  */
@@ -1,3 +1,30 @@
+import type { SatimLanguage, SatimTransactionEvent } from './types.js';
+import { getSatimErrorMessage } from './messages.js';
+import { getContext } from './context.js';
+import { defaultRedactor, getCallRedactor } from './redact.js';
+
+/**
+ * SDK operations that map to a Satim endpoint
+ */
+export type SatimOperation =
+  | 'register'
+  | 'confirm'
+  | 'refund'
+  | 'getOrderStatus'
+  | 'registerPreAuth'
+  | 'deposit'
+  | 'reverse';
+
+/**
+ * Phase of a request that ran out of time
+ * - queue: waiting for the rate limiter
+ * - connect: DNS lookup, TCP connection and TLS handshake
+ * - headers: waiting for the response headers (time to first byte)
+ * - body: reading the response body
+ * - total: the overall request timeout
+ */
+export type TimeoutPhase = 'queue' | 'connect' | 'headers' | 'body' | 'total';
+
 /**
  * Error kinds for categorization
  */
@@ -6,7 +33,10 @@ export type SatimErrorKind =
   | 'VALIDATION_ERROR'
   | 'HTTP_ERROR'
   | 'API_ERROR'
-  | 'TIMEOUT_ERROR';
+  | 'TIMEOUT_ERROR'
+  | 'CIRCUIT_OPEN_ERROR'
+  | 'ABORT_ERROR'
+  | 'STORE_ERROR';
 
 /**
  * Base error class for all Satim SDK errors
@@ -17,6 +47,8 @@ export class SatimError extends Error {
   readonly httpStatus?: number;
   readonly satimErrorCode?: number;
   readonly details?: Record<string, unknown>;
+  /** Number of HTTP attempts made before this error was thrown */
+  readonly attempts?: number;
 
   constructor(
     message: string,
@@ -27,6 +59,7 @@ export class SatimError extends Error {
       satimErrorCode?: number;
       details?: Record<string, unknown>;
       cause?: Error;
+      attempts?: number;
     }
   ) {
     super(message, { cause: options?.cause });
@@ -35,10 +68,25 @@ export class SatimError extends Error {
     this.code = options?.code;
     this.httpStatus = options?.httpStatus;
     this.satimErrorCode = options?.satimErrorCode;
-    this.details = options?.details;
+    this.details = prepareDetails(options?.details);
+    this.attempts = options?.attempts;
   }
 }
 
+/**
+ * Adds the request context of the current runWithContext() scope to error
+ * details and redacts them, with the client's policy inside a client call and
+ * the default one elsewhere. Order IDs and numbers are not masked, so errors
+ * carry the identifiers callers passed in.
+ */
+function prepareDetails(
+  details: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  const context = getContext();
+  const withContext = context ? { ...details, context } : details;
+  return withContext && (getCallRedactor() ?? defaultRedactor).redactDetails(withContext);
+}
+
 /**
  * Configuration error - thrown when config is invalid or missing
  */
@@ -78,12 +126,14 @@ export class HttpError extends SatimError {
     options?: {
       httpStatus?: number;
       cause?: Error;
+      attempts?: number;
     }
   ) {
     super(message, 'HTTP_ERROR', {
       code: 'HTTP_REQUEST_FAILED',
       httpStatus: options?.httpStatus,
       cause: options?.cause,
+      attempts: options?.attempts,
     });
     this.name = 'HttpError';
   }
@@ -94,15 +144,90 @@ export class HttpError extends SatimError {
  */
 export class TimeoutError extends SatimError {
   readonly timeoutMs: number;
+  /** Phase of the request that ran out of time */
+  readonly phase: TimeoutPhase;
 
-  constructor(message: string, timeoutMs: number, cause?: Error) {
+  constructor(
+    message: string,
+    timeoutMs: number,
+    cause?: Error,
+    options?: { attempts?: number; phase?: TimeoutPhase }
+  ) {
+    const phase = options?.phase ?? 'total';
     super(message, 'TIMEOUT_ERROR', {
       code: 'REQUEST_TIMEOUT',
-      details: { timeoutMs },
+      details: { timeoutMs, phase },
       cause,
+      attempts: options?.attempts,
     });
     this.name = 'TimeoutError';
     this.timeoutMs = timeoutMs;
+    this.phase = phase;
+  }
+}
+
+/**
+ * Circuit open error - thrown without calling Satim while the circuit breaker
+ * is open after repeated transport failures
+ */
+export class CircuitOpenError extends SatimError {
+  /** Milliseconds until a trial request is let through (0 if one is already in progress) */
+  readonly retryAfterMs: number;
+
+  constructor(
+    message: string,
+    retryAfterMs: number,
+    options?: { attempts?: number }
+  ) {
+    super(message, 'CIRCUIT_OPEN_ERROR', {
+      code: 'CIRCUIT_OPEN',
+      details: { retryAfterMs },
+      attempts: options?.attempts,
+    });
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Request aborted error - thrown when the caller's AbortSignal aborts a call
+ */
+export class RequestAbortedError extends SatimError {
+  constructor(message: string, cause?: Error, options?: { attempts?: number }) {
+    super(message, 'ABORT_ERROR', {
+      code: 'REQUEST_ABORTED',
+      cause,
+      attempts: options?.attempts,
+    });
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Transaction store error - thrown by withTransactionStore() clients when the
+ * Satim call went through but its result could not be recorded. Do not retry
+ * the call: `response` holds its result.
+ */
+export class TransactionStoreError extends SatimError {
+  /** Result of the Satim call; for a declined confirmation, the SatimApiError */
+  readonly response: unknown;
+  /** Event that was not recorded */
+  readonly event: SatimTransactionEvent;
+
+  constructor(
+    message: string,
+    response: unknown,
+    event: SatimTransactionEvent,
+    cause?: Error
+  ) {
+    super(message, 'STORE_ERROR', {
+      code: 'TRANSACTION_NOT_RECORDED',
+      details: { operation: event.operation, orderId: event.orderId },
+      cause,
+    });
+    this.name = 'TransactionStoreError';
+    this.response = response;
+    this.event = event;
   }
 }
 
@@ -116,65 +241,31 @@ export class SatimApiError extends SatimError {
     message: string,
     endpoint: string,
     satimErrorCode: number,
-    details?: Record<string, unknown>
+    details?: Record<string, unknown>,
+    options?: { attempts?: number }
   ) {
     super(message, 'API_ERROR', {
       code: 'SATIM_API_ERROR',
       satimErrorCode,
       details: { ...details, endpoint },
+      attempts: options?.attempts,
     });
     this.name = 'SatimApiError';
     this.endpoint = endpoint;
   }
 }
 
-/**
- * Error code descriptions for register.do endpoint
- */
-const REGISTER_ERROR_CODES: Record<number, string> = {
-  0: 'No system error',
-  1: 'Order with given order number has already been processed',
-  3: 'Unknown currency',
-  4: 'Required parameter is not specified',
-  5: 'Incorrect value of a request parameter',
-  7: 'System error',
-  14: 'Paymentway is invalid',
-};
-
-/**
- * Error code descriptions for confirm endpoint
- */
-const CONFIRM_ERROR_CODES: Record<number, string> = {
-  0: 'Success',
-  2: 'Order is declined because of an error in the payment credentials',
-  5: 'Access is denied',
-  6: 'Unregistered order Id',
-  7: 'System error',
-};
-
-/**
- * Error code descriptions for refund endpoint
- */
-const REFUND_ERROR_CODES: Record<number, string> = {
-  0: 'No system error',
-  5: 'Access is denied or invalid amount',
-  6: 'Unregistered OrderId',
-  7: 'System error or payment in incorrect state',
-};
-
 /**
  * Maps a Satim error code to a human-readable label
+ *
+ * @param endpoint - Operation that returned the code
+ * @param code - Satim error code
+ * @param language - Label language (default: 'en')
  */
 export function mapSatimErrorCode(
-  endpoint: 'register' | 'confirm' | 'refund',
-  code: number
+  endpoint: SatimOperation,
+  code: number,
+  language: SatimLanguage = 'en'
 ): string {
-  const codeMaps: Record<string, Record<number, string>> = {
-    register: REGISTER_ERROR_CODES,
-    confirm: CONFIRM_ERROR_CODES,
-    refund: REFUND_ERROR_CODES,
-  };
-
-  const map = codeMaps[endpoint];
-  return map?.[code] ?? `Unknown error code: ${code}`;
+  return getSatimErrorMessage(endpoint, code, language);
 }
@@ -1,23 +1,103 @@
-import { HttpError, TimeoutError } from './errors.js';
-import type { HttpMethod, SatimLogger } from './types.js';
-import { createSafeLogData } from './redact.js';
+import {
+  CircuitOpenError,
+  ConfigError,
+  HttpError,
+  RequestAbortedError,
+  SatimError,
+  TimeoutError,
+} from './errors.js';
+import type { SatimOperation, TimeoutPhase } from './errors.js';
+import type {
+  CircuitBreaker,
+  HttpMethod,
+  RequestAttemptInfo,
+  Redactor,
+  RetryInfo,
+  SatimLogger,
+  SatimMiddleware,
+  SatimMiddlewareRequest,
+  SatimSpan,
+  SatimTracer,
+} from './types.js';
+import type { RateLimiter, RateLimitPermit } from './rate-limit.js';
+import { isConnectTimeout } from './transport.js';
+import { runMiddleware } from './middleware.js';
+import { traceAttempt } from './tracing.js';
+import { publishAttempt, publishRetry } from './diagnostics.js';
+import type { DiagnosticsAttempt } from './diagnostics.js';
+import type { OperationTrace } from './tracing.js';
 
 /**
  * HTTP request options
  */
 export interface HttpRequestOptions {
+  /** SDK operation making the request */
+  operation: SatimOperation;
   /** HTTP method */
   method: HttpMethod;
   /** Request timeout in milliseconds */
   timeoutMs: number;
+  /** Connect timeout enforced by the transport, reported on connect timeouts */
+  connectTimeoutMs: number;
+  /** Time allowed for the response headers, in milliseconds */
+  headersTimeoutMs?: number;
+  /** Time allowed for reading the response body, in milliseconds */
+  bodyTimeoutMs?: number;
   /** Logger instance */
   logger?: SatimLogger;
   /** Custom fetch function */
   fetch?: (url: string, init: RequestInit) => Promise<Response>;
   /** Hook called before request */
-  onRequest?: (endpoint: string, params: Record<string, string>) => void;
+  onRequest?: (
+    endpoint: string,
+    params: Record<string, string>,
+    info: RequestAttemptInfo
+  ) => void;
   /** Hook called after response */
-  onResponse?: (endpoint: string, response: unknown) => void;
+  onResponse?: (endpoint: string, response: unknown, info: RequestAttemptInfo) => void;
+  /** Rate limiter each attempt must pass before it is sent */
+  rateLimiter?: RateLimiter;
+  /** Circuit breaker that records each attempt and rejects them while open */
+  circuitBreaker?: CircuitBreaker;
+  /** Middleware wrapping the call, outermost first */
+  middleware?: readonly SatimMiddleware[];
+  /** Tracer for a span per HTTP attempt */
+  tracer?: SatimTracer;
+  /** Span of the client call, which counts the retries */
+  operationTrace?: OperationTrace;
+  /** Caller's signal; aborts the current attempt, the rate limiter wait and retries */
+  signal?: AbortSignal;
+  /** Caller's context, passed to the hooks and added (redacted) to the logs */
+  context?: Record<string, unknown>;
+  /** Redacts logs, hook payloads and diagnostics messages */
+  redactor: Redactor;
+  /** Pass the redacted response to onResponse instead of the raw one */
+  redactHookResponses: boolean;
+  /** Retry policy (single attempt when omitted) */
+  retry?: RetryPolicy;
+  /**
+   * Decides whether a transient failure may be retried.
+   * Requests are never retried when this is omitted.
+   */
+  canRetry?: (error: SatimError, attempt: number) => boolean | Promise<boolean>;
+}
+
+/**
+ * Resolved retry policy
+ */
+export interface RetryPolicy {
+  /** Maximum attempts, including the first one */
+  maxAttempts: number;
+  /** Initial backoff delay in milliseconds */
+  baseDelayMs: number;
+  /** Maximum backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Randomize delays */
+  jitter: boolean;
+  /** HTTP statuses considered transient */
+  retryOnStatus: readonly number[];
+  /** Hook called before each retry */
+  onRetry?: (info: RetryInfo) => void;
 }
 
 /**
@@ -30,6 +110,8 @@ export interface HttpResponse<T> {
   data: T;
   /** Duration in milliseconds */
   durationMs: number;
+  /** Number of attempts made */
+  attempts: number;
 }
 
 /**
@@ -53,7 +135,8 @@ function buildQueryString(params: Record<string, string>): string {
 }
 
 /**
- * Makes an HTTP request to the Satim API
+ * Makes an HTTP request to the Satim API through the middleware, retrying
+ * transient failures when a retry policy and a canRetry guard are provided
  *
  * @param baseUrl - Base URL of the API
  * @param endpoint - Endpoint path
@@ -66,9 +149,265 @@ export async function makeRequest<T>(
   endpoint: string,
   params: Record<string, string>,
   options: HttpRequestOptions
+): Promise<HttpResponse<T>> {
+  const { middleware, operation, context } = options;
+  if (!middleware || middleware.length === 0) {
+    return sendWithRetries<T>(baseUrl, endpoint, params, {}, options);
+  }
+
+  const startTime = Date.now();
+  const request: SatimMiddlewareRequest = {
+    operation,
+    endpoint,
+    params: { ...params },
+    headers: {},
+    context,
+  };
+  // Response of the last request actually sent, if any
+  let sent: HttpResponse<T> | undefined;
+
+  const data = await runMiddleware(middleware, request, async () => {
+    sent = await sendWithRetries<T>(
+      baseUrl,
+      endpoint,
+      request.params,
+      request.headers,
+      options
+    );
+    return sent.data;
+  });
+
+  if (typeof data !== 'object' || data === null) {
+    throw new HttpError('Middleware did not return a response object', {
+      attempts: sent?.attempts ?? 0,
+    });
+  }
+
+  return {
+    status: sent?.status ?? 200,
+    data: data as T,
+    durationMs: sent?.durationMs ?? Date.now() - startTime,
+    attempts: sent?.attempts ?? 0,
+  };
+}
+
+/**
+ * Sends a request, retrying transient failures
+ */
+async function sendWithRetries<T>(
+  baseUrl: string,
+  endpoint: string,
+  params: Record<string, string>,
+  headers: Record<string, string>,
+  options: HttpRequestOptions
+): Promise<HttpResponse<T>> {
+  const {
+    retry,
+    canRetry,
+    logger,
+    method,
+    signal,
+    context,
+    tracer,
+    operationTrace,
+    redactor,
+  } = options;
+  const maxAttempts = retry && canRetry ? Math.max(1, retry.maxAttempts) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw abortedError(signal, attempt - 1);
+    }
+    const diagnostics: DiagnosticsAttempt = {
+      operation: options.operation,
+      endpoint,
+      method,
+      attempt,
+      params,
+      context,
+      redactor,
+    };
+    try {
+      const send = (span?: SatimSpan) =>
+        performRequest<T>(baseUrl, endpoint, params, headers, options, attempt, span);
+      return await publishAttempt(
+        diagnostics,
+        () =>
+          tracer
+            ? traceAttempt(
+                tracer,
+                { method, url: joinUrl(baseUrl, endpoint), endpoint },
+                attempt,
+                send
+              )
+            : send(),
+        (response) => responseErrorCode(response.data)
+      );
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        !retry ||
+        !(error instanceof SatimError) ||
+        !isTransientError(error, retry) ||
+        !(await allowRetry(canRetry, error, attempt))
+      ) {
+        throw error;
+      }
+
+      const delayMs = computeBackoff(retry, attempt);
+
+      logger?.warn(
+        withContext(
+          {
+            ...redactor.createSafeLogData({ endpoint, method }),
+            attempt,
+            delayMs,
+          },
+          context,
+          redactor
+        ),
+        'Satim API request failed, retrying'
+      );
+      retry.onRetry?.({ endpoint, attempt, delayMs, error, context });
+      publishRetry(diagnostics, error, delayMs);
+      if (operationTrace) {
+        operationTrace.retries++;
+        operationTrace.span.addEvent('satim.retry', {
+          'satim.endpoint': endpoint,
+          'satim.attempt': attempt,
+          'satim.retry_delay_ms': delayMs,
+        });
+      }
+
+      try {
+        await sleep(delayMs, signal);
+      } catch {
+        throw abortedError(signal!, attempt);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether an error is a transient transport failure
+ */
+function isTransientError(error: SatimError, policy: RetryPolicy): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof HttpError) {
+    // No status means the request failed at the network level
+    return (
+      error.httpStatus === undefined ||
+      policy.retryOnStatus.includes(error.httpStatus)
+    );
+  }
+  return false;
+}
+
+/**
+ * Runs the canRetry guard, treating guard failures as "do not retry"
+ */
+async function allowRetry(
+  canRetry: HttpRequestOptions['canRetry'],
+  error: SatimError,
+  attempt: number
+): Promise<boolean> {
+  if (!canRetry) {
+    return false;
+  }
+  try {
+    return await canRetry(error, attempt);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Computes exponential backoff, optionally with jitter (half fixed, half random)
+ */
+function computeBackoff(policy: RetryPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  if (!policy.jitter) {
+    return capped;
+  }
+  const half = capped / 2;
+  return Math.round(half + Math.random() * half);
+}
+
+/**
+ * Resolves after the given delay, or rejects when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Creates the error thrown when the caller's signal aborts a call
+ */
+function abortedError(signal: AbortSignal, attempts: number): RequestAbortedError {
+  const reason: unknown = signal.reason;
+  return new RequestAbortedError(
+    'Request was aborted',
+    reason instanceof Error ? reason : undefined,
+    { attempts }
+  );
+}
+
+/**
+ * Adds the caller's context to log data, redacted
+ */
+function withContext(
+  logData: Record<string, unknown>,
+  context: Record<string, unknown> | undefined,
+  redactor: Redactor
+): Record<string, unknown> {
+  if (context) {
+    logData.context = redactor.redactObject(context);
+  }
+  return logData;
+}
+
+/**
+ * Performs a single HTTP attempt
+ */
+async function performRequest<T>(
+  baseUrl: string,
+  endpoint: string,
+  params: Record<string, string>,
+  headers: Record<string, string>,
+  options: HttpRequestOptions,
+  attempt: number,
+  span?: SatimSpan
 ): Promise<HttpResponse<T>> {
   const startTime = Date.now();
-  const { method, timeoutMs, logger, onRequest, onResponse } = options;
+  const {
+    method,
+    timeoutMs,
+    connectTimeoutMs,
+    headersTimeoutMs,
+    bodyTimeoutMs,
+    logger,
+    onRequest,
+    onResponse,
+    rateLimiter,
+    circuitBreaker,
+    signal,
+    context,
+    redactor,
+    redactHookResponses,
+  } = options;
   // Use custom fetch if provided, otherwise use global fetch
   const fetchFn = options.fetch ?? fetch;
 
@@ -83,6 +422,7 @@ export async function makeRequest<T>(
       method: 'GET',
       headers: {
         Accept: 'application/json',
+        ...headers,
       },
     };
   } else {
@@ -94,115 +434,279 @@ export async function makeRequest<T>(
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         Accept: 'application/json',
+        ...headers,
       },
       body: body.toString(),
     };
   }
 
-  // Create abort controller with timeout
+  // Fail fast while the circuit is open, before waiting for the rate limiter
+  const circuit = circuitBreaker?.tryAcquire();
+  if (circuitBreaker && !circuit) {
+    logger?.warn(
+      withContext(
+        redactor.createSafeLogData({ endpoint, method }),
+        context,
+        redactor
+      ),
+      'Satim API request rejected by open circuit breaker'
+    );
+
+    throw new CircuitOpenError(
+      'Circuit breaker is open, Satim API request not sent',
+      circuitBreaker.getRetryAfterMs(),
+      { attempts: attempt - 1 }
+    );
+  }
+
+  // Create abort controller with timeout. The timeout also covers the time
+  // spent waiting for the rate limiter.
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  // Phase whose timer aborted the attempt
+  let expired: TimeoutPhase | undefined;
+  const expire = (phase: TimeoutPhase) => {
+    expired ??= phase;
+    controller.abort();
+  };
+  const timeoutId = setTimeout(() => expire('total'), timeoutMs);
   requestInit.signal = controller.signal;
+  // Forward the caller's signal to the attempt
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  let permit: RateLimitPermit | undefined;
+  const info: RequestAttemptInfo = { attempt, queueDepth: 0, queueWaitMs: 0, context };
+  // Failures before the request is handed to fetch, such as an onRequest hook
+  // throwing, say nothing about the gateway
+  let sent = false;
 
   try {
+    if (rateLimiter) {
+      permit = await rateLimiter.acquire(controller.signal);
+      info.queueDepth = permit.queueDepth;
+      info.queueWaitMs = permit.waitMs;
+      span?.setAttributes({
+        'satim.queue_depth': info.queueDepth,
+        'satim.queue_wait_ms': info.queueWaitMs,
+      });
+    }
+
     // Call onRequest hook with redacted params
     if (onRequest) {
-      const safeParams = createSafeLogData(params) as Record<string, string>;
-      onRequest(endpoint, safeParams);
+      const safeParams = redactor.createSafeLogData(params) as Record<
+        string,
+        string
+      >;
+      onRequest(endpoint, safeParams, info);
     }
 
     // Log request start (only endpoint name for safety)
     logger?.debug(
-      createSafeLogData({
-        endpoint,
-        method,
-      }),
+      withContext(
+        withQueueInfo(
+          redactor.createSafeLogData({ endpoint, method }),
+          rateLimiter,
+          info
+        ),
+        context,
+        redactor
+      ),
       'Satim API request started'
     );
 
-    const response = await fetchFn(url, requestInit);
+    sent = true;
+    const response = await withPhaseTimeout(
+      () => fetchFn(url, requestInit),
+      headersTimeoutMs,
+      () => expire('headers')
+    );
     const durationMs = Date.now() - startTime;
+    span?.setAttribute('http.response.status_code', response.status);
 
     if (!response.ok) {
       logger?.warn(
-        createSafeLogData({
-          endpoint,
-          method,
-          durationMs,
-          statusCode: response.status,
-        }),
+        withContext(
+          redactor.createSafeLogData({
+            endpoint,
+            method,
+            durationMs,
+            statusCode: response.status,
+          }),
+          context,
+          redactor
+        ),
         'Satim API request failed with HTTP error'
       );
 
       throw new HttpError(`HTTP error: ${response.status} ${response.statusText}`, {
         httpStatus: response.status,
+        attempts: attempt,
+      });
+    }
+
+    // Parse JSON response. SATIM occasionally answers with an HTML maintenance
+    // page or a truncated body while still sending HTTP 200.
+    const text =
+      bodyTimeoutMs === undefined
+        ? await response.text()
+        : await withPhaseTimeout(
+            () => untilAborted(response.text(), controller.signal),
+            bodyTimeoutMs,
+            () => expire('body')
+          );
+    let data: T;
+    try {
+      data = JSON.parse(text) as T;
+    } catch (error) {
+      const invalidLogData = redactor.createSafeLogData({
+        endpoint,
+        method,
+        durationMs: Date.now() - startTime,
+        statusCode: response.status,
+      });
+      invalidLogData.contentType = response.headers.get('content-type');
+      logger?.warn(
+        withContext(invalidLogData, context, redactor),
+        'Satim API returned an invalid JSON response'
+      );
+
+      throw new HttpError('Invalid JSON response from Satim API', {
+        cause: error instanceof Error ? error : undefined,
+        attempts: attempt,
       });
     }
 
-    // Parse JSON response
-    const data = (await response.json()) as T;
+    circuit?.success();
 
-    // Call onResponse hook
+    // Call onResponse hook, with the response redacted unless opted out
     if (onResponse) {
-      onResponse(endpoint, data);
+      const hookData = redactHookResponses ? redactor.redactObject(data) : data;
+      onResponse(endpoint, hookData, info);
     }
 
     // Log successful response (without sensitive data)
-    const logData = createSafeLogData({
-      endpoint,
-      method,
-      durationMs,
-      statusCode: response.status,
-    });
+    const logData = withQueueInfo(
+      redactor.createSafeLogData({
+        endpoint,
+        method,
+        durationMs,
+        statusCode: response.status,
+      }),
+      rateLimiter,
+      info
+    );
 
     // Extract error code from response if present
-    const dataRecord = data as Record<string, unknown>;
-    const errorCode =
-      dataRecord?.['errorCode'] ?? dataRecord?.['ErrorCode'];
-    if (errorCode !== undefined) {
-      logData.satimErrorCode = normalizeErrorCode(errorCode);
+    const satimErrorCode = responseErrorCode(data);
+    if (satimErrorCode !== undefined) {
+      logData.satimErrorCode = satimErrorCode;
+      span?.setAttribute('satim.error_code', satimErrorCode);
     }
 
-    logger?.info(logData, 'Satim API request completed');
+    logger?.info(
+      withContext(logData, context, redactor),
+      'Satim API request completed'
+    );
 
     return {
       status: response.status,
       data,
       durationMs,
+      attempts: attempt,
     };
   } catch (error) {
     const durationMs = Date.now() - startTime;
 
+    // Aborted by the caller: the request may or may not have reached SATIM
+    if (signal?.aborted && !(error instanceof SatimError)) {
+      circuit?.release();
+      logger?.info(
+        withContext(
+          redactor.createSafeLogData({ endpoint, method, durationMs }),
+          context,
+          redactor
+        ),
+        'Satim API request aborted'
+      );
+
+      throw abortedError(signal, attempt);
+    }
+
     // Handle abort/timeout
-    if (error instanceof Error && error.name === 'AbortError') {
+    const connectTimedOut = isConnectTimeout(error);
+    if (
+      !(error instanceof SatimError) &&
+      (connectTimedOut ||
+        expired !== undefined ||
+        (error instanceof Error && error.name === 'AbortError'))
+    ) {
+      const queued = rateLimiter !== undefined && permit === undefined;
+      const phase: TimeoutPhase = connectTimedOut
+        ? 'connect'
+        : queued
+          ? 'queue'
+          : (expired ?? 'total');
+      const phaseTimeoutMs = {
+        queue: timeoutMs,
+        connect: connectTimeoutMs,
+        headers: headersTimeoutMs ?? timeoutMs,
+        body: bodyTimeoutMs ?? timeoutMs,
+        total: timeoutMs,
+      }[phase];
+      const during = TIMEOUT_PHASE_DESCRIPTIONS[phase];
+
+      if (queued) {
+        circuit?.release();
+      } else {
+        circuit?.failure();
+      }
+      const timeoutLogData = redactor.createSafeLogData({
+        endpoint,
+        method,
+        durationMs,
+      });
+      timeoutLogData.phase = phase;
       logger?.error(
-        createSafeLogData({
-          endpoint,
-          method,
-          durationMs,
-        }),
-        'Satim API request timed out'
+        withContext(timeoutLogData, context, redactor),
+        during ? `Satim API request timed out ${during}` : 'Satim API request timed out'
       );
 
       throw new TimeoutError(
-        `Request timed out after ${timeoutMs}ms`,
-        timeoutMs,
-        error
+        during
+          ? `Request timed out after ${phaseTimeoutMs}ms ${during}`
+          : `Request timed out after ${phaseTimeoutMs}ms`,
+        phaseTimeoutMs,
+        error instanceof Error ? error : undefined,
+        { attempts: attempt, phase }
       );
     }
 
+    // Not a gateway failure, e.g. the optional undici package is missing
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+
     // Re-throw known errors
     if (error instanceof HttpError || error instanceof TimeoutError) {
+      circuit?.failure();
       throw error;
     }
 
+    if (sent) {
+      circuit?.failure();
+    }
+
     // Wrap unknown errors
     logger?.error(
-      createSafeLogData({
-        endpoint,
-        method,
-        durationMs,
-      }),
+      withContext(
+        redactor.createSafeLogData({ endpoint, method, durationMs }),
+        context,
+        redactor
+      ),
       'Satim API request failed with network error'
     );
 
@@ -210,11 +714,86 @@ export async function makeRequest<T>(
       'Network error occurred',
       {
         cause: error instanceof Error ? error : undefined,
+        attempts: attempt,
       }
     );
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+    permit?.release();
+    circuit?.release();
+  }
+}
+
+/**
+ * What the request was doing when a phase timed out, used in messages
+ */
+const TIMEOUT_PHASE_DESCRIPTIONS: Record<TimeoutPhase, string> = {
+  queue: 'waiting for the rate limiter',
+  connect: 'connecting to the Satim API',
+  headers: 'waiting for the response headers',
+  body: 'reading the response body',
+  total: '',
+};
+
+/**
+ * Runs a step of the attempt, calling onTimeout if it takes longer than timeoutMs
+ */
+async function withPhaseTimeout<T>(
+  step: () => Promise<T>,
+  timeoutMs: number | undefined,
+  onTimeout: () => void
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return step();
+  }
+  const timer = setTimeout(onTimeout, timeoutMs);
+  try {
+    return await step();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Settles like the promise, or rejects with the abort reason once the signal
+ * aborts. Bodies from custom fetch functions may ignore the signal.
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
   }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * Adds rate limiter queue depth and wait time to log data when a limiter is active
+ */
+function withQueueInfo(
+  logData: Record<string, unknown>,
+  rateLimiter: RateLimiter | undefined,
+  info: RequestAttemptInfo
+): Record<string, unknown> {
+  if (rateLimiter) {
+    logData.queueDepth = info.queueDepth;
+    logData.queueWaitMs = info.queueWaitMs;
+  }
+  return logData;
+}
+
+/**
+ * Extracts the SATIM error code of a parsed response, if present
+ */
+function responseErrorCode(data: unknown): number | undefined {
+  const dataRecord = data as Record<string, unknown> | null;
+  const errorCode = dataRecord?.['errorCode'] ?? dataRecord?.['ErrorCode'];
+  return errorCode === undefined ? undefined : normalizeErrorCode(errorCode);
 }
 
 /**
@@ -18,21 +18,136 @@ export type {
   SatimLanguage,
   HttpMethod,
   HttpConfig,
+  RetryConfig,
+  RetryRule,
+  RetryInfo,
+  CallOptions,
+  SatimRequestContext,
+  SatimMiddleware,
+  SatimMiddlewareRequest,
+  SatimTracer,
+  SatimSpan,
+  SatimSpanOptions,
+  SatimSpanAttributes,
+  SatimSpanAttributeValue,
+  SatimDiagnosticsRequest,
+  SatimRequestStartMessage,
+  SatimRequestEndMessage,
+  SatimRequestErrorMessage,
+  SatimRequestRetryMessage,
+  MetricLabels,
+  MetricsSink,
+  PrometheusRegistry,
+  PrometheusRegistryOptions,
+  RateLimitConfig,
+  HttpRateLimitConfig,
+  RequestAttemptInfo,
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerConfig,
+  CircuitBreaker,
+  CircuitPermit,
   LoggerConfig,
   LogLevel,
+  LogFormat,
   SatimLogger,
+  PinoLikeLogger,
+  BunyanLikeLogger,
+  WinstonLikeLogger,
+  LoggerAdapterOptions,
+  RedactionPolicy,
+  Redactor,
+  SafeLogInput,
   RegisterOrderParams,
   RegisterJsonParams,
   RegisterOrderRawResponse,
   RegisterOrderResponse,
   ConfirmOrderRawResponse,
   ConfirmOrderResponse,
+  VerifyPaymentParams,
+  VerifyPaymentResult,
+  PaymentMismatch,
+  PaymentVerifiedPaid,
+  PaymentVerifiedMismatch,
+  PaymentVerifiedUnpaid,
+  PaymentVerifiedDeclined,
+  HandleReturnOptions,
+  ReturnResult,
+  ReturnPaid,
+  ReturnDeclined,
+  ReturnCancelled,
+  ReturnAuthorized,
+  ReturnPending,
+  ReturnError,
+  ReturnStateKey,
+  ReturnStateNonceStore,
+  MemoryNonceStoreOptions,
+  ReturnStateOptions,
+  ReturnStateParams,
+  ReturnStateSigner,
+  VerifiedReturnState,
+  SatimTransaction,
+  SatimTransactionEvent,
+  SatimTransactionStatus,
+  SatimTransactionStore,
+  SatimStatusTransition,
+  TransactionStoreOptions,
+  SqliteDatabase,
+  SqliteStatement,
   RefundOrderRawResponse,
   RefundOrderResponse,
+  DepositOrderRawResponse,
+  DepositOrderResponse,
+  ReverseOrderRawResponse,
+  ReverseOrderResponse,
+  GetOrderStatusParams,
+  GetOrderStatusRawResponse,
+  GetOrderStatusResponse,
+  SatimNameValue,
   OrderStatusCode,
+  DeclineReasonCode,
 } from './types.js';
 
-export { OrderStatus } from './types.js';
+export { OrderStatus, DeclineReason } from './types.js';
+
+// Decline classification
+export { classifyDecline, isRetryableDecline } from './decline.js';
+
+// Circuit breaker
+export { createCircuitBreaker } from './circuit-breaker.js';
+
+// Logger adapters
+export { fromPino, fromWinston, fromBunyan } from './logger.js';
+
+// Request context
+export { runWithContext, getContext } from './context.js';
+
+// Metrics
+export { createMetricsMiddleware, createPrometheusRegistry } from './metrics.js';
+
+// Signed return-URL state
+export { createReturnStateSigner, createMemoryNonceStore } from './return-state.js';
+
+// Transaction store
+export {
+  withTransactionStore,
+  createMemoryTransactionStore,
+  createJsonlTransactionStore,
+  createSqliteTransactionStore,
+  applyTransactionEvent,
+} from './transaction-store.js';
+export type { TransactionStoreClient } from './transaction-store.js';
+
+// Localized messages
+export { describe } from './describe.js';
+export {
+  getSatimErrorMessage,
+  getDeclineMessage,
+  getOrderStatusMessage,
+  getValidationMessage,
+  getGenericMessage,
+} from './messages.js';
+export type { LocalizedMessage, GenericMessageKey } from './messages.js';
 
 // Errors
 export {
@@ -41,16 +156,33 @@ export {
   ValidationError,
   HttpError,
   TimeoutError,
+  CircuitOpenError,
+  RequestAbortedError,
   SatimApiError,
+  TransactionStoreError,
   mapSatimErrorCode,
 } from './errors.js';
-export type { SatimErrorKind } from './errors.js';
+export type { SatimErrorKind, SatimOperation, TimeoutPhase } from './errors.js';
 
 // Amount utilities
 export { toMinorUnits, fromMinorUnits, validateAmount } from './amount.js';
 
 // Constants
-export { API_BASE_URLS, ENDPOINTS, DEFAULTS, VALIDATION } from './constants.js';
+export {
+  API_BASE_URLS,
+  ENDPOINTS,
+  DEFAULTS,
+  DEFAULT_RETRY_RULES,
+  DIAGNOSTICS_CHANNELS,
+  VALIDATION,
+} from './constants.js';
 
 // Redaction utilities (for advanced use cases)
-export { redactObject, redactValue, redactUrl, createSafeLogData } from './redact.js';
+export {
+  createRedactor,
+  maskCardData,
+  redactObject,
+  redactValue,
+  redactUrl,
+  createSafeLogData,
+} from './redact.js';
@@ -0,0 +1,248 @@
+import { ConfigError } from './errors.js';
+import { getContext } from './context.js';
+import { defaultRedactor } from './redact.js';
+import type {
+  BunyanLikeLogger,
+  LogFormat,
+  LoggerAdapterOptions,
+  LogLevel,
+  PinoLikeLogger,
+  Redactor,
+  SatimLogger,
+  WinstonLikeLogger,
+} from './types.js';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Options of the built-in logger
+ */
+interface BuiltInLoggerOptions {
+  /** Text lines for humans, or JSON lines for log pipelines (default: 'text') */
+  format?: LogFormat;
+  /** Redacts the request context added to entries (default: the default policy) */
+  redactor?: Redactor;
+  /** Fields added to every entry */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * Creates the built-in logger
+ *
+ * @param level - Minimum level to output
+ * @param options - Format, redactor and bound fields
+ * @returns Logger writing to the console
+ */
+export function createLogger(
+  level: LogLevel,
+  options: BuiltInLoggerOptions = {}
+): SatimLogger {
+  const { format = 'text', redactor = defaultRedactor, bindings = {} } = options;
+  const currentLevel = LOG_LEVELS.indexOf(level);
+
+  const log = (
+    logLevel: LogLevel,
+    obj: Record<string, unknown>,
+    msg?: string
+  ) => {
+    if (LOG_LEVELS.indexOf(logLevel) < currentLevel) {
+      return;
+    }
+
+    let fields = { ...bindings, ...obj };
+    // Entries logged outside of a call still get the request context
+    const scoped = getContext();
+    if (scoped && !('context' in fields)) {
+      fields = { ...fields, context: redactor.redactObject(scoped) };
+    }
+    const timestamp = new Date().toISOString();
+
+    if (format === 'json') {
+      const entry: Record<string, unknown> = {
+        level: logLevel,
+        time: timestamp,
+        name: 'satim',
+        ...(msg !== undefined && { msg }),
+        ...fields,
+      };
+      // Fields must not hide the level, time or message of the entry
+      Object.assign(entry, { level: logLevel, time: timestamp, name: 'satim' });
+      if (msg !== undefined) {
+        entry['msg'] = msg;
+      }
+      console.log(JSON.stringify(entry));
+      return;
+    }
+
+    const message = msg ? `${msg}: ${JSON.stringify(fields)}` : JSON.stringify(fields);
+    console[logLevel === 'debug' ? 'log' : logLevel](
+      `[${timestamp}] [satim] [${logLevel.toUpperCase()}] ${message}`
+    );
+  };
+
+  return {
+    debug: (obj, msg) => log('debug', obj, msg),
+    info: (obj, msg) => log('info', obj, msg),
+    warn: (obj, msg) => log('warn', obj, msg),
+    error: (obj, msg) => log('error', obj, msg),
+    child: (childBindings) =>
+      createLogger(level, { ...options, bindings: { ...bindings, ...childBindings } }),
+  };
+}
+
+/**
+ * Wraps a logger so that every entry and message is redacted, card data
+ * included, whichever SDK path logs it
+ *
+ * @param logger - Built-in or custom logger
+ * @param redactor - Redactor of the client
+ * @returns Redacting logger
+ */
+export function withRedaction(logger: SatimLogger, redactor: Redactor): SatimLogger {
+  const log =
+    (level: LogLevel) => (obj: Record<string, unknown>, msg?: string) => {
+      logger[level](
+        redactor.redactObject(obj) as Record<string, unknown>,
+        msg === undefined ? msg : String(redactor.redactValue('msg', msg))
+      );
+    };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    ...(logger.child && {
+      child: (bindings: Record<string, unknown>) =>
+        withRedaction(logger.child!(bindings), redactor),
+    }),
+  };
+}
+
+/**
+ * Wraps a pino logger as a SatimLogger. SDK levels map to the pino methods
+ * of the same name unless options.levels says otherwise.
+ *
+ * @param logger - Pino logger or child logger
+ * @param options - Level mapping
+ * @returns SatimLogger whose child() creates pino child loggers
+ * @throws ConfigError if the logger lacks a mapped level method or child()
+ *
+ * @example
+ * const client = createSatimClient({
+ *   ...config,
+ *   logger: { customLogger: fromPino(pino().child({ module: 'payments' })) },
+ * });
+ */
+export function fromPino(
+  logger: PinoLikeLogger,
+  options: LoggerAdapterOptions = {}
+): SatimLogger {
+  return fromLevelMethods(logger, options, 'pino');
+}
+
+/**
+ * Wraps a bunyan logger as a SatimLogger. SDK levels map to the bunyan
+ * methods of the same name unless options.levels says otherwise.
+ *
+ * @param logger - Bunyan logger or child logger
+ * @param options - Level mapping
+ * @returns SatimLogger whose child() creates bunyan child loggers
+ * @throws ConfigError if the logger lacks a mapped level method or child()
+ */
+export function fromBunyan(
+  logger: BunyanLikeLogger,
+  options: LoggerAdapterOptions = {}
+): SatimLogger {
+  return fromLevelMethods(logger, options, 'bunyan');
+}
+
+/**
+ * Wraps a winston logger as a SatimLogger. Entries are logged with
+ * `logger.log(level, message, fields)`; `warn` maps to `warning` for loggers
+ * using the syslog levels.
+ *
+ * @param logger - Winston logger or child logger
+ * @param options - Level mapping
+ * @returns SatimLogger whose child() creates winston child loggers
+ * @throws ConfigError if the logger lacks log() or child(), or a mapped level
+ */
+export function fromWinston(
+  logger: WinstonLikeLogger,
+  options: LoggerAdapterOptions = {}
+): SatimLogger {
+  if (typeof logger?.log !== 'function' || typeof logger.child !== 'function') {
+    throw new ConfigError('winston logger must have log() and child() methods');
+  }
+
+  const levels = resolveLevels(options, (level) => {
+    if (level === 'warn' && logger.levels && !('warn' in logger.levels)) {
+      return 'warning';
+    }
+    return level;
+  });
+  if (logger.levels) {
+    const missing = Object.values(levels).filter((level) => !(level in logger.levels!));
+    if (missing.length > 0) {
+      throw new ConfigError(`winston logger has no ${missing.join(', ')} level`);
+    }
+  }
+
+  const log = (level: LogLevel) => (obj: Record<string, unknown>, msg?: string) => {
+    logger.log(levels[level], msg ?? '', obj);
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (bindings) => fromWinston(logger.child(bindings), options),
+  };
+}
+
+/**
+ * Wraps a logger with one method per level taking (obj, msg), as pino and bunyan do
+ */
+function fromLevelMethods(
+  logger: PinoLikeLogger,
+  options: LoggerAdapterOptions,
+  name: string
+): SatimLogger {
+  const levels = resolveLevels(options, (level) => level);
+  const target = logger as unknown as Record<
+    string,
+    (obj: Record<string, unknown>, msg?: string) => void
+  >;
+  if (
+    typeof logger?.child !== 'function' ||
+    Object.values(levels).some((method) => typeof target[method] !== 'function')
+  ) {
+    throw new ConfigError(
+      `${name} logger must have child() and ${Object.values(levels).join(', ')} methods`
+    );
+  }
+
+  const log = (level: LogLevel) => (obj: Record<string, unknown>, msg?: string) => {
+    target[levels[level]]!.call(logger, obj, msg);
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (bindings) => fromLevelMethods(logger.child(bindings), options, name),
+  };
+}
+
+/**
+ * Resolves the target level of each SDK level, options first
+ */
+function resolveLevels(
+  options: LoggerAdapterOptions,
+  defaultLevel: (level: LogLevel) => string
+): Record<LogLevel, string> {
+  const levels = {} as Record<LogLevel, string>;
+  for (const level of LOG_LEVELS) {
+    levels[level] = options.levels?.[level] ?? defaultLevel(level);
+  }
+  return levels;
+}
@@ -0,0 +1,543 @@
+import type { SatimOperation } from './errors.js';
+import type { DeclineReasonCode, SatimLanguage } from './types.js';
+
+/**
+ * A message in every language supported by SATIM
+ */
+export type LocalizedMessage = Readonly<Record<SatimLanguage, string>>;
+
+/**
+ * Message keys that are not tied to a SATIM code
+ */
+export type GenericMessageKey =
+  | 'timeout'
+  | 'network'
+  | 'config'
+  | 'aborted'
+  | 'unknown'
+  | 'unknownErrorCode'
+  | 'unknownOrderStatus'
+  | 'paymentCancelled'
+  | 'paymentPending';
+
+const NO_SYSTEM_ERROR: LocalizedMessage = {
+  en: 'No system error',
+  fr: 'Aucune erreur système',
+  ar: 'لا يوجد خطأ في النظام',
+};
+
+const ACCESS_DENIED: LocalizedMessage = {
+  en: 'Access is denied',
+  fr: 'Accès refusé',
+  ar: 'تم رفض الوصول',
+};
+
+const SYSTEM_ERROR: LocalizedMessage = {
+  en: 'System error',
+  fr: 'Erreur système',
+  ar: 'خطأ في النظام',
+};
+
+const UNREGISTERED_ORDER_ID: LocalizedMessage = {
+  en: 'Unregistered order Id',
+  fr: 'Identifiant de commande non enregistré',
+  ar: 'معرّف الطلب غير مسجل',
+};
+
+const UNREGISTERED_ORDER_ID_UPPER: LocalizedMessage = {
+  ...UNREGISTERED_ORDER_ID,
+  en: 'Unregistered OrderId',
+};
+
+/**
+ * Error code messages for register.do (also used by registerPreAuth.do)
+ */
+const REGISTER_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: NO_SYSTEM_ERROR,
+  1: {
+    en: 'Order with given order number has already been processed',
+    fr: 'Une commande portant ce numéro a déjà été traitée',
+    ar: 'تمت معالجة طلب بهذا الرقم مسبقًا',
+  },
+  3: {
+    en: 'Unknown currency',
+    fr: 'Devise inconnue',
+    ar: 'عملة غير معروفة',
+  },
+  4: {
+    en: 'Required parameter is not specified',
+    fr: 'Un paramètre obligatoire est manquant',
+    ar: 'لم يتم تحديد معامل إلزامي',
+  },
+  5: {
+    en: 'Incorrect value of a request parameter',
+    fr: "Valeur incorrecte d'un paramètre de la requête",
+    ar: 'قيمة غير صحيحة لأحد معاملات الطلب',
+  },
+  7: SYSTEM_ERROR,
+  14: {
+    en: 'Paymentway is invalid',
+    fr: 'Moyen de paiement invalide',
+    ar: 'طريقة الدفع غير صالحة',
+  },
+};
+
+/**
+ * Error code messages for acknowledgeTransaction.do
+ */
+const CONFIRM_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: {
+    en: 'Success',
+    fr: 'Succès',
+    ar: 'تمت العملية بنجاح',
+  },
+  2: {
+    en: 'Order is declined because of an error in the payment credentials',
+    fr: "Commande refusée en raison d'une erreur dans les données de paiement",
+    ar: 'تم رفض الطلب بسبب خطأ في بيانات الدفع',
+  },
+  5: ACCESS_DENIED,
+  6: UNREGISTERED_ORDER_ID,
+  7: SYSTEM_ERROR,
+};
+
+/**
+ * Error code messages for refund.do
+ */
+const REFUND_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: NO_SYSTEM_ERROR,
+  5: {
+    en: 'Access is denied or invalid amount',
+    fr: 'Accès refusé ou montant invalide',
+    ar: 'تم رفض الوصول أو أن المبلغ غير صالح',
+  },
+  6: UNREGISTERED_ORDER_ID_UPPER,
+  7: {
+    en: 'System error or payment in incorrect state',
+    fr: 'Erreur système ou paiement dans un état incorrect',
+    ar: 'خطأ في النظام أو أن الدفع في حالة غير صحيحة',
+  },
+};
+
+/**
+ * Error code messages for getOrderStatusExtended.do
+ */
+const ORDER_STATUS_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: NO_SYSTEM_ERROR,
+  1: {
+    en: 'Expected orderId or orderNumber',
+    fr: 'Identifiant ou numéro de commande attendu',
+    ar: 'يجب تحديد معرّف الطلب أو رقمه',
+  },
+  5: ACCESS_DENIED,
+  6: UNREGISTERED_ORDER_ID,
+  7: SYSTEM_ERROR,
+};
+
+/**
+ * Error code messages for deposit.do
+ */
+const DEPOSIT_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: NO_SYSTEM_ERROR,
+  5: {
+    en: 'Access is denied or invalid deposit amount',
+    fr: 'Accès refusé ou montant de débit invalide',
+    ar: 'تم رفض الوصول أو أن مبلغ التحصيل غير صالح',
+  },
+  6: UNREGISTERED_ORDER_ID_UPPER,
+  7: {
+    en: 'Payment in incorrect state, deposit amount exceeds the authorized amount, or system error',
+    fr: 'Paiement dans un état incorrect, montant de débit supérieur au montant autorisé, ou erreur système',
+    ar: 'الدفع في حالة غير صحيحة، أو أن مبلغ التحصيل يتجاوز المبلغ المرخّص به، أو خطأ في النظام',
+  },
+};
+
+/**
+ * Error code messages for reverse.do
+ */
+const REVERSE_ERROR_MESSAGES: Record<number, LocalizedMessage> = {
+  0: NO_SYSTEM_ERROR,
+  5: ACCESS_DENIED,
+  6: UNREGISTERED_ORDER_ID_UPPER,
+  7: {
+    en: 'Reversal is impossible in the current payment state, or system error',
+    fr: "Annulation impossible dans l'état actuel du paiement, ou erreur système",
+    ar: 'الإلغاء غير ممكن في الحالة الحالية للدفع، أو خطأ في النظام',
+  },
+};
+
+const SATIM_ERROR_MESSAGES: Record<SatimOperation, Record<number, LocalizedMessage>> = {
+  register: REGISTER_ERROR_MESSAGES,
+  confirm: CONFIRM_ERROR_MESSAGES,
+  refund: REFUND_ERROR_MESSAGES,
+  getOrderStatus: ORDER_STATUS_ERROR_MESSAGES,
+  // registerPreAuth.do shares the register.do error codes
+  registerPreAuth: REGISTER_ERROR_MESSAGES,
+  deposit: DEPOSIT_ERROR_MESSAGES,
+  reverse: REVERSE_ERROR_MESSAGES,
+};
+
+/**
+ * Customer-facing decline messages
+ */
+const DECLINE_MESSAGES: Record<DeclineReasonCode, LocalizedMessage> = {
+  insufficient_funds: {
+    en: 'Your card balance is insufficient.',
+    fr: 'Le solde de votre carte est insuffisant.',
+    ar: 'رصيد بطاقتك غير كافٍ.',
+  },
+  invalid_card_data: {
+    en: 'The card details you entered are incorrect. Please check them and try again.',
+    fr: 'Les informations de carte saisies sont incorrectes. Veuillez les vérifier et réessayer.',
+    ar: 'بيانات البطاقة التي أدخلتها غير صحيحة. يرجى التحقق منها والمحاولة مرة أخرى.',
+  },
+  card_expired: {
+    en: 'Your card has expired.',
+    fr: 'Votre carte a expiré.',
+    ar: 'انتهت صلاحية بطاقتك.',
+  },
+  card_blocked: {
+    en: 'Your card cannot be used for this payment. Please contact your bank.',
+    fr: 'Votre carte ne peut pas être utilisée pour ce paiement. Veuillez contacter votre banque.',
+    ar: 'لا يمكن استخدام بطاقتك لهذا الدفع. يرجى الاتصال بمصرفك.',
+  },
+  authentication_failed: {
+    en: 'Card authentication failed. Please try again.',
+    fr: "L'authentification de la carte a échoué. Veuillez réessayer.",
+    ar: 'فشل التحقق من البطاقة. يرجى المحاولة مرة أخرى.',
+  },
+  issuer_unavailable: {
+    en: 'Your bank is temporarily unavailable. Please try again later.',
+    fr: 'Votre banque est momentanément indisponible. Veuillez réessayer plus tard.',
+    ar: 'مصرفك غير متاح مؤقتًا. يرجى المحاولة لاحقًا.',
+  },
+  limit_exceeded: {
+    en: 'This payment exceeds your card limit.',
+    fr: 'Ce paiement dépasse le plafond de votre carte.',
+    ar: 'يتجاوز هذا الدفع الحد المسموح به لبطاقتك.',
+  },
+  timeout: {
+    en: 'The payment was not completed in time. Please try again.',
+    fr: "Le paiement n'a pas été finalisé à temps. Veuillez réessayer.",
+    ar: 'لم يكتمل الدفع في الوقت المحدد. يرجى المحاولة مرة أخرى.',
+  },
+  other: {
+    en: 'Your payment was declined.',
+    fr: 'Votre paiement a été refusé.',
+    ar: 'تم رفض عملية الدفع.',
+  },
+};
+
+/**
+ * Customer-facing order status messages, keyed by OrderStatus code
+ */
+const ORDER_STATUS_MESSAGES: Record<number, LocalizedMessage> = {
+  0: {
+    en: 'The order is registered but not paid yet.',
+    fr: "La commande est enregistrée mais n'est pas encore payée.",
+    ar: 'الطلب مسجل ولكن لم يتم دفعه بعد.',
+  },
+  [-1]: {
+    en: 'The payment was declined.',
+    fr: 'Le paiement a été refusé.',
+    ar: 'تم رفض عملية الدفع.',
+  },
+  1: {
+    en: 'The payment amount is on hold.',
+    fr: 'Le montant du paiement est bloqué sur votre carte.',
+    ar: 'تم حجز مبلغ الدفع على بطاقتك.',
+  },
+  2: {
+    en: 'Your payment was accepted.',
+    fr: 'Votre paiement a été accepté.',
+    ar: 'تم قبول عملية الدفع.',
+  },
+  3: {
+    en: 'The payment was cancelled.',
+    fr: 'Le paiement a été annulé.',
+    ar: 'تم إلغاء عملية الدفع.',
+  },
+  4: {
+    en: 'The payment was refunded.',
+    fr: 'Le paiement a été remboursé.',
+    ar: 'تم استرداد مبلغ الدفع.',
+  },
+  6: {
+    en: 'The payment was declined.',
+    fr: 'Le paiement a été refusé.',
+    ar: 'تم رفض عملية الدفع.',
+  },
+  7: {
+    en: 'The card was registered.',
+    fr: 'La carte a été enregistrée.',
+    ar: 'تم تسجيل البطاقة.',
+  },
+  8: {
+    en: 'The card was updated.',
+    fr: 'La carte a été mise à jour.',
+    ar: 'تم تحديث البطاقة.',
+  },
+  9: {
+    en: 'The card was verified.',
+    fr: 'La carte a été vérifiée.',
+    ar: 'تم التحقق من البطاقة.',
+  },
+  10: {
+    en: 'The recurring payment was set up.',
+    fr: 'Le paiement récurrent a été enregistré.',
+    ar: 'تم تسجيل الدفع المتكرر.',
+  },
+  11: {
+    en: 'The card was debited.',
+    fr: 'La carte a été débitée.',
+    ar: 'تم خصم المبلغ من البطاقة.',
+  },
+};
+
+/**
+ * Customer-facing messages for ValidationError codes.
+ * Keys ending in a variant suffix are chosen from the error details.
+ */
+const VALIDATION_MESSAGES: Record<string, LocalizedMessage> = {
+  INVALID_AMOUNT: {
+    en: 'The amount is invalid.',
+    fr: 'Le montant est invalide.',
+    ar: 'المبلغ غير صالح.',
+  },
+  INVALID_AMOUNT_MINIMUM: {
+    en: 'The amount must be at least {minimum} DZD.',
+    fr: "Le montant doit être d'au moins {minimum} DA.",
+    ar: 'يجب ألا يقل المبلغ عن {minimum} دج.',
+  },
+  INVALID_AMOUNT_DECIMALS: {
+    en: 'The amount cannot have more than {maxDecimals} decimal places.',
+    fr: 'Le montant ne peut pas avoir plus de {maxDecimals} décimales.',
+    ar: 'لا يمكن أن يتضمن المبلغ أكثر من {maxDecimals} منازل عشرية.',
+  },
+  INVALID_MD_ORDER: {
+    en: 'The order identifier is missing or invalid.',
+    fr: "L'identifiant de commande est manquant ou invalide.",
+    ar: 'معرّف الطلب مفقود أو غير صالح.',
+  },
+  INVALID_ORDER_ID: {
+    en: 'The order identifier is missing or invalid.',
+    fr: "L'identifiant de commande est manquant ou invalide.",
+    ar: 'معرّف الطلب مفقود أو غير صالح.',
+  },
+  INVALID_ORDER_NUMBER: {
+    en: 'The order number is missing or invalid.',
+    fr: 'Le numéro de commande est manquant ou invalide.',
+    ar: 'رقم الطلب مفقود أو غير صالح.',
+  },
+  INVALID_ORDER_NUMBER_LENGTH: {
+    en: 'The order number cannot be longer than {max} characters.',
+    fr: 'Le numéro de commande ne peut pas dépasser {max} caractères.',
+    ar: 'لا يمكن أن يتجاوز رقم الطلب {max} حرفًا.',
+  },
+  INVALID_ORDER_LOOKUP: {
+    en: 'Provide either the order identifier or the order number.',
+    fr: "Indiquez soit l'identifiant, soit le numéro de commande.",
+    ar: 'يرجى تحديد معرّف الطلب أو رقمه.',
+  },
+  INVALID_RETURN_URL: {
+    en: 'The return address is required.',
+    fr: "L'adresse de retour est obligatoire.",
+    ar: 'عنوان العودة مطلوب.',
+  },
+  INVALID_UDF: {
+    en: 'A merchant reference field is missing or too long.',
+    fr: 'Un champ de référence marchand est manquant ou trop long.',
+    ar: 'أحد حقول مرجع التاجر مفقود أو طويل جدًا.',
+  },
+  INVALID_DESCRIPTION: {
+    en: 'The order description is too long.',
+    fr: 'La description de la commande est trop longue.',
+    ar: 'وصف الطلب طويل جدًا.',
+  },
+  INVALID_RETURN_STATE: {
+    en: 'This payment link is invalid. Please check your order status in your account.',
+    fr: "Ce lien de paiement est invalide. Veuillez vérifier l'état de votre commande dans votre compte.",
+    ar: 'رابط الدفع هذا غير صالح. يرجى التحقق من حالة طلبك في حسابك.',
+  },
+  EXPIRED_RETURN_STATE: {
+    en: 'This payment link has expired. Please check your order status in your account.',
+    fr: "Ce lien de paiement a expiré. Veuillez vérifier l'état de votre commande dans votre compte.",
+    ar: 'انتهت صلاحية رابط الدفع هذا. يرجى التحقق من حالة طلبك في حسابك.',
+  },
+  REPLAYED_RETURN_STATE: {
+    en: 'This payment link was already used. Please check your order status in your account.',
+    fr: "Ce lien de paiement a déjà été utilisé. Veuillez vérifier l'état de votre commande dans votre compte.",
+    ar: 'تم استخدام رابط الدفع هذا مسبقًا. يرجى التحقق من حالة طلبك في حسابك.',
+  },
+  REFUND_EXCEEDS_BALANCE: {
+    en: 'The refund exceeds the {refundable} DZD that can still be refunded for this order.',
+    fr: 'Le remboursement dépasse les {refundable} DA encore remboursables pour cette commande.',
+    ar: 'يتجاوز الاسترداد مبلغ {refundable} دج المتبقي القابل للاسترداد لهذا الطلب.',
+  },
+  INVALID_JSON_PARAMS: {
+    en: 'The additional order parameters are too long.',
+    fr: 'Les paramètres supplémentaires de la commande sont trop longs.',
+    ar: 'المعاملات الإضافية للطلب طويلة جدًا.',
+  },
+};
+
+const GENERIC_MESSAGES: Record<GenericMessageKey, LocalizedMessage> = {
+  timeout: {
+    en: 'The payment service did not respond in time. Please try again.',
+    fr: "Le service de paiement n'a pas répondu à temps. Veuillez réessayer.",
+    ar: 'لم تستجب خدمة الدفع في الوقت المحدد. يرجى المحاولة مرة أخرى.',
+  },
+  network: {
+    en: 'The payment service is temporarily unavailable. Please try again later.',
+    fr: 'Le service de paiement est momentanément indisponible. Veuillez réessayer plus tard.',
+    ar: 'خدمة الدفع غير متاحة مؤقتًا. يرجى المحاولة لاحقًا.',
+  },
+  config: {
+    en: 'The payment service is not configured correctly.',
+    fr: "Le service de paiement n'est pas configuré correctement.",
+    ar: 'خدمة الدفع غير مهيأة بشكل صحيح.',
+  },
+  aborted: {
+    en: 'The payment request was cancelled. Please try again.',
+    fr: 'La demande de paiement a été annulée. Veuillez réessayer.',
+    ar: 'تم إلغاء طلب الدفع. يرجى المحاولة مرة أخرى.',
+  },
+  unknown: {
+    en: 'An unexpected error occurred.',
+    fr: "Une erreur inattendue s'est produite.",
+    ar: 'حدث خطأ غير متوقع.',
+  },
+  unknownErrorCode: {
+    en: 'Unknown error code: {code}',
+    fr: "Code d'erreur inconnu : {code}",
+    ar: 'رمز خطأ غير معروف: {code}',
+  },
+  unknownOrderStatus: {
+    en: 'Unknown order status.',
+    fr: 'Statut de commande inconnu.',
+    ar: 'حالة الطلب غير معروفة.',
+  },
+  paymentCancelled: {
+    en: 'You cancelled the payment. Your card was not charged.',
+    fr: "Vous avez annulé le paiement. Votre carte n'a pas été débitée.",
+    ar: 'لقد ألغيت عملية الدفع. لم يتم خصم أي مبلغ من بطاقتك.',
+  },
+  paymentPending: {
+    en: 'Your payment is being processed. You will be notified once it is complete.',
+    fr: 'Votre paiement est en cours de traitement. Vous serez informé dès sa finalisation.',
+    ar: 'دفعتك قيد المعالجة. سيتم إعلامك فور اكتمالها.',
+  },
+};
+
+/**
+ * Unicode first-strong isolate and pop directional isolate.
+ * Values inserted into Arabic text are wrapped in them so numbers and Latin
+ * text keep their own direction without reordering the surrounding sentence.
+ */
+const FSI = '\u2068';
+const PDI = '\u2069';
+
+/**
+ * Fills {placeholders} in a message, isolating inserted values in Arabic text
+ */
+function format(
+  message: LocalizedMessage,
+  language: SatimLanguage,
+  values: Record<string, unknown> = {}
+): string {
+  return message[language].replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = values[key];
+    if (value === undefined || value === null) {
+      return placeholder;
+    }
+    return language === 'ar' ? `${FSI}${String(value)}${PDI}` : String(value);
+  });
+}
+
+/**
+ * Returns the message for a Satim error code of an operation
+ *
+ * @param operation - Operation that returned the code
+ * @param code - Satim error code
+ * @param language - Message language (default: 'en')
+ */
+export function getSatimErrorMessage(
+  operation: SatimOperation,
+  code: number,
+  language: SatimLanguage = 'en'
+): string {
+  const message = SATIM_ERROR_MESSAGES[operation]?.[code];
+  return message
+    ? message[language]
+    : format(GENERIC_MESSAGES.unknownErrorCode, language, { code });
+}
+
+/**
+ * Returns the customer-facing message for a decline category
+ *
+ * @param reason - Decline category
+ * @param language - Message language (default: 'en')
+ */
+export function getDeclineMessage(
+  reason: DeclineReasonCode,
+  language: SatimLanguage = 'en'
+): string {
+  return (DECLINE_MESSAGES[reason] ?? DECLINE_MESSAGES.other)[language];
+}
+
+/**
+ * Returns the customer-facing message for an order status code
+ *
+ * @param orderStatus - OrderStatus code
+ * @param language - Message language (default: 'en')
+ */
+export function getOrderStatusMessage(
+  orderStatus: number | null,
+  language: SatimLanguage = 'en'
+): string {
+  const message =
+    orderStatus !== null ? ORDER_STATUS_MESSAGES[orderStatus] : undefined;
+  return (message ?? GENERIC_MESSAGES.unknownOrderStatus)[language];
+}
+
+/**
+ * Returns the customer-facing message for a ValidationError code
+ *
+ * @param code - ValidationError code (e.g. 'INVALID_AMOUNT')
+ * @param language - Message language (default: 'en')
+ * @param details - ValidationError details, used to pick and fill the message
+ */
+export function getValidationMessage(
+  code: string,
+  language: SatimLanguage = 'en',
+  details: Record<string, unknown> = {}
+): string {
+  let key = code;
+  if (code === 'INVALID_AMOUNT' && details['minimum'] !== undefined) {
+    key = 'INVALID_AMOUNT_MINIMUM';
+  } else if (code === 'INVALID_AMOUNT' && details['maxDecimals'] !== undefined) {
+    key = 'INVALID_AMOUNT_DECIMALS';
+  } else if (code === 'INVALID_ORDER_NUMBER' && details['max'] !== undefined) {
+    key = 'INVALID_ORDER_NUMBER_LENGTH';
+  } else if (/^INVALID_UDF\d$/.test(code)) {
+    key = 'INVALID_UDF';
+  }
+
+  const message = VALIDATION_MESSAGES[key];
+  return message
+    ? format(message, language, details)
+    : GENERIC_MESSAGES.unknown[language];
+}
+
+/**
+ * Returns a message that is not tied to a SATIM code
+ *
+ * @param key - Message key
+ * @param language - Message language (default: 'en')
+ */
+export function getGenericMessage(
+  key: GenericMessageKey,
+  language: SatimLanguage = 'en'
+): string {
+  return GENERIC_MESSAGES[key][language];
+}
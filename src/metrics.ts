@@ -0,0 +1,323 @@
+import { ConfigError, SatimError } from './errors.js';
+import { DEFAULTS } from './constants.js';
+import { classifyDecline } from './decline.js';
+import { fromMinorUnits } from './amount.js';
+import { OrderStatus } from './types.js';
+import type {
+  MetricLabels,
+  MetricsSink,
+  PrometheusRegistry,
+  PrometheusRegistryOptions,
+  SatimMiddleware,
+} from './types.js';
+
+/**
+ * Metrics recorded by createMetricsMiddleware, with their Prometheus help text
+ */
+const METRICS = {
+  REQUESTS: {
+    name: 'satim_requests_total',
+    help: 'Satim API calls by operation, endpoint and outcome',
+  },
+  DURATION: {
+    name: 'satim_request_duration_seconds',
+    help: 'Duration of Satim API calls, including retries',
+  },
+  ERROR_CODES: {
+    name: 'satim_error_codes_total',
+    help: 'Non-zero SATIM error codes by operation',
+  },
+  DECLINES: {
+    name: 'satim_declines_total',
+    help: 'Declined card payments by decline reason',
+  },
+  REGISTERED: {
+    name: 'satim_orders_registered_total',
+    help: 'Orders registered successfully',
+  },
+  PAID: {
+    name: 'satim_orders_paid_total',
+    help: 'Orders confirmed as paid, counted once per order, by order status',
+  },
+  REFUNDS: {
+    name: 'satim_refunds_total',
+    help: 'Successful refunds',
+  },
+  REFUND_AMOUNT: {
+    name: 'satim_refund_amount_dzd_total',
+    help: 'Refunded amount in DZD',
+  },
+} as const;
+
+/**
+ * Outcome label of calls that threw, by error kind
+ */
+const ERROR_OUTCOMES: Record<string, string> = {
+  HTTP_ERROR: 'http_error',
+  TIMEOUT_ERROR: 'timeout',
+  CIRCUIT_OPEN_ERROR: 'circuit_open',
+  ABORT_ERROR: 'aborted',
+};
+
+/**
+ * Creates a middleware that records metrics for every call of a client.
+ *
+ * Records call counts by outcome, call durations, SATIM error codes, decline
+ * reasons, registered and paid orders, and refunds. Add it with client.use();
+ * added first, it also counts responses that later middleware serve from a cache.
+ *
+ * A paid order is counted on its first confirmation only, including the ones
+ * made by verifyPayment() and handleReturn(). The last 10000 paid orders are
+ * remembered; older ones, or orders confirmed again after a restart, count again.
+ *
+ * @param sink - Where metrics go, e.g. a registry from createPrometheusRegistry()
+ * @returns Middleware
+ *
+ * @example
+ * const registry = createPrometheusRegistry();
+ * client.use(createMetricsMiddleware(registry));
+ *
+ * app.get('/metrics', (req, res) => res.type(registry.contentType).send(registry.render()));
+ */
+export function createMetricsMiddleware(sink: MetricsSink): SatimMiddleware {
+  // Orders already counted as paid, oldest first
+  const paidOrders = new Set<string>();
+
+  return async (request, next) => {
+    const startTime = Date.now();
+    const labels = { operation: request.operation, endpoint: request.endpoint };
+    const recordCall = (outcome: string) => {
+      sink.increment(METRICS.REQUESTS.name, { ...labels, outcome });
+      sink.observe(METRICS.DURATION.name, labels, (Date.now() - startTime) / 1000);
+    };
+
+    let data: unknown;
+    try {
+      data = await next();
+    } catch (error) {
+      recordCall(
+        (error instanceof SatimError && ERROR_OUTCOMES[error.kind]) || 'error'
+      );
+      throw error;
+    }
+
+    const raw = (typeof data === 'object' && data !== null ? data : {}) as Record<
+      string,
+      unknown
+    >;
+    const errorCode = toNumber(raw['errorCode'] ?? raw['ErrorCode']) ?? 0;
+    recordCall(errorCode === 0 ? 'success' : 'api_error');
+    if (errorCode !== 0) {
+      sink.increment(METRICS.ERROR_CODES.name, {
+        operation: request.operation,
+        error_code: String(errorCode),
+      });
+    }
+
+    switch (request.operation) {
+      case 'register':
+      case 'registerPreAuth':
+        if (errorCode === 0) {
+          sink.increment(METRICS.REGISTERED.name, { operation: request.operation });
+        }
+        break;
+      case 'confirm':
+        recordConfirmation(sink, raw, errorCode, request.params['mdOrder'], paidOrders);
+        break;
+      case 'refund':
+        if (errorCode === 0 && request.params['amount'] !== undefined) {
+          sink.increment(METRICS.REFUNDS.name, {});
+          sink.increment(
+            METRICS.REFUND_AMOUNT.name,
+            {},
+            fromMinorUnits(request.params['amount'])
+          );
+        }
+        break;
+      default:
+        break;
+    }
+
+    return data;
+  };
+}
+
+/**
+ * Records paid orders and decline reasons of a confirmation
+ */
+function recordConfirmation(
+  sink: MetricsSink,
+  raw: Record<string, unknown>,
+  errorCode: number,
+  mdOrder: string | undefined,
+  paidOrders: Set<string>
+): void {
+  const orderStatus = toNumber(raw['OrderStatus']);
+  if (
+    errorCode === 0 &&
+    (orderStatus === OrderStatus.DEPOSITED || orderStatus === OrderStatus.APPROVED)
+  ) {
+    if (mdOrder !== undefined) {
+      if (paidOrders.has(mdOrder)) {
+        return;
+      }
+      paidOrders.add(mdOrder);
+      if (paidOrders.size > DEFAULTS.METRICS_PAID_ORDERS_TRACKED) {
+        paidOrders.delete(paidOrders.values().next().value as string);
+      }
+    }
+    sink.increment(METRICS.PAID.name, { order_status: String(orderStatus) });
+    return;
+  }
+
+  // ErrorCode 2 means the payment itself was declined
+  if (
+    errorCode === 2 ||
+    orderStatus === OrderStatus.DECLINED ||
+    orderStatus === OrderStatus.UNKNOWN_DECLINE
+  ) {
+    const params = raw['params'] as Record<string, unknown> | undefined;
+    const svfeResponse = raw['SvfeResponse'] || params?.['respCode'];
+    const reason = classifyDecline(
+      toNumber(raw['actionCode']) ?? null,
+      typeof svfeResponse === 'string' ? svfeResponse : null
+    );
+    sink.increment(METRICS.DECLINES.name, { reason });
+  }
+}
+
+/**
+ * Converts numeric response fields, which SATIM sends as numbers or strings
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Counter or histogram series, keyed by its labels
+ */
+interface Series {
+  labels: MetricLabels;
+  value: number;
+  /** Histogram only: cumulative counts per bucket */
+  buckets?: number[];
+  /** Histogram only: number of observations */
+  count?: number;
+}
+
+/**
+ * Creates an in-memory metrics registry that renders the Prometheus text
+ * exposition format
+ *
+ * @param options - Histogram buckets
+ * @returns Registry, usable as the sink of createMetricsMiddleware()
+ * @throws ConfigError if buckets are not increasing positive numbers
+ */
+export function createPrometheusRegistry(
+  options: PrometheusRegistryOptions = {}
+): PrometheusRegistry {
+  const buckets = options.buckets ?? DEFAULTS.METRICS_DURATION_BUCKETS;
+  if (
+    buckets.length === 0 ||
+    buckets.some((bound, i) => !(bound > 0) || (i > 0 && bound <= buckets[i - 1]!))
+  ) {
+    throw new ConfigError('metrics buckets must be increasing positive numbers');
+  }
+
+  const counters = new Map<string, Map<string, Series>>();
+  const histograms = new Map<string, Map<string, Series>>();
+
+  const seriesOf = (
+    metrics: Map<string, Map<string, Series>>,
+    name: string,
+    labels: MetricLabels
+  ): Series => {
+    let byLabels = metrics.get(name);
+    if (!byLabels) {
+      byLabels = new Map();
+      metrics.set(name, byLabels);
+    }
+    const key = formatLabels(labels);
+    let series = byLabels.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: 0 };
+      byLabels.set(key, series);
+    }
+    return series;
+  };
+
+  return {
+    contentType: 'text/plain; version=0.0.4; charset=utf-8',
+
+    increment(name, labels, value = 1) {
+      seriesOf(counters, name, labels).value += value;
+    },
+
+    observe(name, labels, value) {
+      const series = seriesOf(histograms, name, labels);
+      series.buckets ??= buckets.map(() => 0);
+      buckets.forEach((bound, i) => {
+        if (value <= bound) {
+          series.buckets![i]!++;
+        }
+      });
+      series.count = (series.count ?? 0) + 1;
+      series.value += value;
+    },
+
+    render() {
+      const lines: string[] = [];
+      for (const [name, byLabels] of counters) {
+        lines.push(...header(name, 'counter'));
+        for (const series of byLabels.values()) {
+          lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+        }
+      }
+      for (const [name, byLabels] of histograms) {
+        lines.push(...header(name, 'histogram'));
+        for (const series of byLabels.values()) {
+          buckets.forEach((bound, i) => {
+            const labels = formatLabels({ ...series.labels, le: String(bound) });
+            lines.push(`${name}_bucket${labels} ${series.buckets![i]}`);
+          });
+          const inf = formatLabels({ ...series.labels, le: '+Inf' });
+          lines.push(`${name}_bucket${inf} ${series.count}`);
+          lines.push(`${name}_sum${formatLabels(series.labels)} ${series.value}`);
+          lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+      }
+      return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    },
+
+    reset() {
+      counters.clear();
+      histograms.clear();
+    },
+  };
+}
+
+/**
+ * HELP and TYPE lines of a metric
+ */
+function header(name: string, type: 'counter' | 'histogram'): string[] {
+  const metric = Object.values(METRICS).find((known) => known.name === name);
+  return [`# HELP ${name} ${metric?.help ?? name}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Formats labels as `{a="1",b="2"}`, escaping backslashes, quotes and newlines
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
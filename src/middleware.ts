@@ -0,0 +1,25 @@
+import type { SatimMiddleware, SatimMiddlewareRequest } from './types.js';
+
+/**
+ * Runs a request through the middleware in registration order.
+ * The last next() calls send.
+ *
+ * @param middleware - Middleware to run, outermost first
+ * @param request - Request shared by all middleware
+ * @param send - Sends the request and resolves with the parsed response
+ * @returns Response returned by the outermost middleware
+ */
+export function runMiddleware(
+  middleware: readonly SatimMiddleware[],
+  request: SatimMiddlewareRequest,
+  send: () => Promise<unknown>
+): Promise<unknown> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) {
+      return send();
+    }
+    return current(request, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
@@ -0,0 +1,197 @@
+import { ConfigError } from './errors.js';
+import type { SatimOperation } from './errors.js';
+import type { HttpRateLimitConfig, RateLimitConfig } from './types.js';
+
+/**
+ * Permission to send one request, returned by RateLimiter.acquire()
+ */
+export interface RateLimitPermit {
+  /** Calls already waiting when this one was queued */
+  queueDepth: number;
+  /** Time spent waiting in milliseconds */
+  waitMs: number;
+  /** Frees the concurrency slot. Must be called once the request settles. */
+  release(): void;
+}
+
+/**
+ * Token bucket combined with a max-in-flight semaphore
+ */
+export interface RateLimiter {
+  /**
+   * Waits for a token and a free slot, in FIFO order.
+   * Rejects with the signal's reason if the signal aborts while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<RateLimitPermit>;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  queueDepth: number;
+  resolve: (permit: RateLimitPermit) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Creates a rate limiter
+ *
+ * @param config - Request rate, burst size and concurrency limit
+ * @returns Rate limiter
+ * @throws ConfigError if a limit is not a positive number or burst is below 1
+ */
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const rate = config.requestsPerSecond;
+  const maxConcurrent = config.maxConcurrent ?? Infinity;
+  const capacity =
+    rate === undefined ? Infinity : (config.burst ?? Math.max(1, rate));
+
+  assertPositive('requestsPerSecond', rate);
+  if (config.burst !== undefined && !(config.burst >= 1)) {
+    throw new ConfigError('http.rateLimit.burst must be at least 1');
+  }
+  assertPositive('maxConcurrent', config.maxConcurrent);
+
+  const queue: Waiter[] = [];
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let inFlight = 0;
+  let refillTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const refill = () => {
+    if (rate === undefined) {
+      return;
+    }
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * rate);
+    lastRefill = now;
+  };
+
+  const grant = (waiter: Waiter) => {
+    tokens -= 1;
+    inFlight += 1;
+    let released = false;
+    waiter.resolve({
+      queueDepth: waiter.queueDepth,
+      waitMs: Date.now() - waiter.enqueuedAt,
+      release: () => {
+        if (!released) {
+          released = true;
+          inFlight -= 1;
+          drain();
+        }
+      },
+    });
+  };
+
+  const drain = () => {
+    refill();
+    while (queue.length > 0 && inFlight < maxConcurrent && tokens >= 1) {
+      const waiter = queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+      grant(waiter);
+    }
+    // Wake up when the next token is due, unless we are waiting for a slot
+    if (queue.length > 0 && inFlight < maxConcurrent && refillTimer === undefined) {
+      const delayMs = Math.ceil(((1 - tokens) / rate!) * 1000);
+      refillTimer = setTimeout(() => {
+        refillTimer = undefined;
+        drain();
+      }, delayMs);
+    }
+  };
+
+  return {
+    acquire(signal) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const waiter: Waiter = {
+          enqueuedAt: Date.now(),
+          queueDepth: queue.length,
+          resolve,
+          signal,
+        };
+        queue.push(waiter);
+        drain();
+        if (!queue.includes(waiter) || !signal) {
+          return;
+        }
+        waiter.onAbort = () => {
+          const index = queue.indexOf(waiter);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(signal.reason);
+          }
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      });
+    },
+  };
+}
+
+/**
+ * Creates the limiter of each operation from the rate limit configuration.
+ * Operations share the top-level limiter; per-operation limits are acquired
+ * first so that a busy operation does not hold shared capacity while waiting.
+ *
+ * @param config - Rate limit configuration
+ * @returns Lookup returning the limiter of an operation, if it is limited
+ */
+export function createOperationLimiters(
+  config: HttpRateLimitConfig | undefined
+): (operation: SatimOperation) => RateLimiter | undefined {
+  const { operations = {}, ...shared } = config ?? {};
+  const sharedLimiter = hasLimits(shared) ? createRateLimiter(shared) : undefined;
+
+  const limiters = new Map<SatimOperation, RateLimiter>();
+  for (const [operation, limits] of Object.entries(operations)) {
+    if (limits && hasLimits(limits)) {
+      const own = createRateLimiter(limits);
+      limiters.set(
+        operation as SatimOperation,
+        sharedLimiter ? chainLimiters(own, sharedLimiter) : own
+      );
+    }
+  }
+  return (operation) => limiters.get(operation) ?? sharedLimiter;
+}
+
+/**
+ * Acquires two limiters in order, reporting the combined queue depth and wait
+ */
+function chainLimiters(first: RateLimiter, second: RateLimiter): RateLimiter {
+  return {
+    async acquire(signal) {
+      const outer = await first.acquire(signal);
+      try {
+        const inner = await second.acquire(signal);
+        return {
+          queueDepth: outer.queueDepth + inner.queueDepth,
+          waitMs: outer.waitMs + inner.waitMs,
+          release: () => {
+            inner.release();
+            outer.release();
+          },
+        };
+      } catch (error) {
+        outer.release();
+        throw error;
+      }
+    },
+  };
+}
+
+function hasLimits(config: RateLimitConfig): boolean {
+  return (
+    config.requestsPerSecond !== undefined || config.maxConcurrent !== undefined
+  );
+}
+
+function assertPositive(name: string, value: number | undefined): void {
+  if (value !== undefined && !(value > 0)) {
+    throw new ConfigError(`http.rateLimit.${name} must be a positive number`);
+  }
+}
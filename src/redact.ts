@@ -1,3 +1,7 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { ConfigError } from './errors.js';
+import type { RedactionPolicy, Redactor, SafeLogInput } from './types.js';
+
 /**
  * Keys that should always be fully redacted (never shown)
  */
@@ -15,6 +19,13 @@ const FULLY_REDACTED_KEYS = new Set([
   'pan',
   'Pin',
   'expiration',
+  'expiry',
+  'expiryDate',
+  'securityCode',
+  'cardholderName',
+  'ip',
+  'approvalCode',
+  'clientId',
 ]);
 
 /**
@@ -28,78 +39,281 @@ const PARTIALLY_REDACTED_KEYS = new Set(['orderId', 'mdOrder', 'OrderNumber']);
 const PARTIAL_SHOW_CHARS = 6;
 
 /**
- * Redacts a value based on its key
+ * Replacement for redacted values
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Runs of 13-19 digits, optionally grouped by spaces or dashes, starting like
+ * a card number (2-6: Mastercard, Amex, Visa, CIB/Edahabia, Discover...)
+ */
+const CARD_NUMBER_PATTERN = /(?<![\d-])[2-6](?:[ -]?\d){12,18}(?![\d-])/g;
+
+/**
+ * Security codes written next to their label, e.g. `cvv: 123` or `"cvc2":"1234"`
+ */
+const SECURITY_CODE_PATTERN =
+  /\b(cvv2?|cvc2?|cvn|csc|security[ _-]?code)(["']?\s*[:=]?\s*["']?)\d{3,4}\b/gi;
+
+/**
+ * Expiry dates written next to their label, e.g. `exp: 0527` or `expiry=05/2027`
+ */
+const LABELLED_EXPIRY_PATTERN =
+  /\b(exp(?:iry|iration)?(?:[ _-]?date)?|valid[ _-]?thru)(["']?\s*[:=]?\s*["']?)\d{2}(?:\s*\/\s*)?\d{2,4}\b/gi;
+
+/**
+ * Expiry dates in MM/YY or MM/YYYY form, not part of a longer date
+ */
+const EXPIRY_PATTERN = /(?<![\d/])(?:0[1-9]|1[0-2])\/(?:\d{2}|20\d{2})(?![\d/])/g;
+
+/**
+ * Creates a redactor applying a redaction policy on top of the SDK defaults
  *
- * @param key - The key name
- * @param value - The value to potentially redact
- * @returns Redacted or original value
+ * @param policy - Keys to add, remove or mask partially, and value patterns
+ * @returns Redactor used for logs, hooks, diagnostics, spans and error details
+ * @throws ConfigError if partialShowChars is negative or not an integer
+ *
+ * @example
+ * const redactor = createRedactor({
+ *   redactKeys: ['email'],
+ *   partialKeys: ['orderNumber'],
+ *   valuePatterns: [/\b\d{13,19}\b/g],
+ * });
  */
-export function redactValue(key: string, value: unknown): unknown {
-  if (value === null || value === undefined) {
-    return value;
+export function createRedactor(policy: RedactionPolicy = {}): Redactor {
+  const showChars = policy.partialShowChars ?? PARTIAL_SHOW_CHARS;
+  if (!Number.isInteger(showChars) || showChars < 0) {
+    throw new ConfigError('redaction.partialShowChars must be a non-negative integer');
   }
 
-  const keyLower = key.toLowerCase();
+  const allowed = lowerCaseSet(policy.allowKeys ?? []);
+  const fullKeys = lowerCaseSet([...FULLY_REDACTED_KEYS, ...(policy.redactKeys ?? [])]);
+  const partialKeys = lowerCaseSet([
+    ...PARTIALLY_REDACTED_KEYS,
+    ...(policy.partialKeys ?? []),
+  ]);
+  for (const key of allowed) {
+    fullKeys.delete(key);
+    partialKeys.delete(key);
+  }
+  // Replacing every match needs the global flag
+  const patterns = (policy.valuePatterns ?? []).map((pattern) =>
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+  );
 
-  // Check if fully redacted
-  for (const redactedKey of FULLY_REDACTED_KEYS) {
-    if (keyLower === redactedKey.toLowerCase()) {
-      return '[REDACTED]';
+  const redactPartial = (value: unknown): string => {
+    const str = String(value);
+    if (showChars === 0 || str.length <= showChars) {
+      return REDACTED;
     }
-  }
+    return `${REDACTED}...${str.slice(-showChars)}`;
+  };
+
+  const detectCardData = policy.detectCardData ?? true;
 
-  // Check if partially redacted
-  for (const partialKey of PARTIALLY_REDACTED_KEYS) {
-    if (keyLower === partialKey.toLowerCase()) {
+  const scanValue = (value: unknown): unknown => {
+    if (typeof value === 'number' && detectCardData && Number.isSafeInteger(value)) {
+      const masked = maskCardData(String(value));
+      return masked === String(value) ? value : masked;
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const scanned = detectCardData ? maskCardData(value) : value;
+    return patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), scanned);
+  };
+
+  const redactEntry = (key: string, value: unknown, maskPartial: boolean): unknown => {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    const keyLower = key.toLowerCase();
+    if (fullKeys.has(keyLower)) {
+      return REDACTED;
+    }
+    if (maskPartial && partialKeys.has(keyLower)) {
       return redactPartial(value);
     }
-  }
+    return scanValue(value);
+  };
+
+  const redactTree = (obj: unknown, maskPartial: boolean): unknown => {
+    if (obj === null || obj === undefined) {
+      return obj;
+    }
+    if (typeof obj !== 'object') {
+      return scanValue(obj);
+    }
+    if (Array.isArray(obj)) {
+      return obj.map((item) => redactTree(item, maskPartial));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+      if (typeof value === 'object' && value !== null) {
+        result[key] = redactTree(value, maskPartial);
+      } else {
+        result[key] = redactEntry(key, value, maskPartial);
+      }
+    }
+    return result;
+  };
+
+  const redactValue = (key: string, value: unknown): unknown => redactEntry(key, value, true);
+
+  const redactObject = (obj: unknown): unknown => redactTree(obj, true);
+
+  // Identifiers stay readable: callers use them to act on the error
+  const redactDetails = (details: Record<string, unknown>): Record<string, unknown> =>
+    redactTree(details, false) as Record<string, unknown>;
+
+  const redactUrl = (url: string): string => {
+    try {
+      const parsed = new URL(url);
+      for (const key of parsed.searchParams.keys()) {
+        if (fullKeys.has(key.toLowerCase())) {
+          parsed.searchParams.set(key, REDACTED);
+        }
+      }
+      return parsed.toString();
+    } catch {
+      // If URL parsing fails, return a safe fallback
+      return '[INVALID_URL]';
+    }
+  };
 
-  return value;
+  const createSafeLogData: Redactor['createSafeLogData'] = (data) => {
+    const safe: Record<string, unknown> = {};
+
+    if (data.endpoint) {
+      safe.endpoint = data.endpoint;
+    }
+    if (data.method) {
+      safe.method = data.method;
+    }
+    if (data.durationMs !== undefined) {
+      safe.durationMs = data.durationMs;
+    }
+    if (data.statusCode !== undefined) {
+      safe.statusCode = data.statusCode;
+    }
+    if (data.errorCode !== undefined) {
+      safe.errorCode = data.errorCode;
+    }
+
+    // Partially redact order IDs
+    if (data.orderId) {
+      safe.orderId = redactPartial(data.orderId);
+    }
+    if (data.mdOrder) {
+      safe.mdOrder = redactPartial(data.mdOrder);
+    }
+
+    return safe;
+  };
+
+  return { redactValue, redactObject, redactDetails, redactUrl, createSafeLogData };
 }
 
 /**
- * Shows only the last N characters of a value
+ * Masks card data found in a string: Luhn-valid card numbers keep their first
+ * 6 and last 4 digits, and security codes and expiry dates are replaced with
+ * asterisks
+ *
+ * @param text - Text to scan
+ * @returns Text with card data masked
+ *
+ * @example
+ * maskCardData('card 6280 5811 1000 7215, cvv 123');
+ * // 'card 628058******7215, cvv ***'
  */
-function redactPartial(value: unknown): string {
-  const str = String(value);
-  if (str.length <= PARTIAL_SHOW_CHARS) {
-    return '[REDACTED]';
-  }
-  return `[REDACTED]...${str.slice(-PARTIAL_SHOW_CHARS)}`;
+export function maskCardData(text: string): string {
+  return text
+    .replace(CARD_NUMBER_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, '');
+      if (!isLuhnValid(digits)) {
+        return match;
+      }
+      return `${digits.slice(0, 6)}${'*'.repeat(digits.length - 10)}${digits.slice(-4)}`;
+    })
+    .replace(SECURITY_CODE_PATTERN, '$1$2***')
+    .replace(LABELLED_EXPIRY_PATTERN, '$1$2**/**')
+    .replace(EXPIRY_PATTERN, '**/**');
 }
 
 /**
- * Redacts an entire object, processing nested objects and arrays
- *
- * @param obj - Object to redact
- * @returns New object with sensitive values redacted
+ * Checks the Luhn checksum of a digit string
  */
-export function redactObject(obj: unknown): unknown {
-  if (obj === null || obj === undefined) {
-    return obj;
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
   }
+  return sum % 10 === 0;
+}
 
-  if (typeof obj !== 'object') {
-    return obj;
-  }
+/**
+ * Lower-cases keys for case-insensitive matching
+ */
+function lowerCaseSet(keys: Iterable<string>): Set<string> {
+  return new Set([...keys].map((key) => key.toLowerCase()));
+}
 
-  if (Array.isArray(obj)) {
-    return obj.map((item) => redactObject(item));
-  }
+/**
+ * Redactor with the default policy
+ */
+export const defaultRedactor = createRedactor();
 
-  const result: Record<string, unknown> = {};
-  const record = obj as Record<string, unknown>;
+const callRedactor = new AsyncLocalStorage<Redactor>();
 
-  for (const [key, value] of Object.entries(record)) {
-    if (typeof value === 'object' && value !== null) {
-      result[key] = redactObject(value);
-    } else {
-      result[key] = redactValue(key, value);
-    }
-  }
+/**
+ * Runs fn with the redactor of a client call, so that the SatimErrors built
+ * during the call have their details redacted with the client's policy
+ * rather than the default one
+ *
+ * @param redactor - Redactor of the client
+ * @param fn - Function to run
+ * @returns Result of fn
+ */
+export function runWithRedactor<T>(redactor: Redactor, fn: () => T): T {
+  return callRedactor.run(redactor, fn);
+}
+
+/**
+ * Returns the redactor of the client call in progress
+ *
+ * @returns Redactor set by runWithRedactor(), or undefined outside of a call
+ */
+export function getCallRedactor(): Redactor | undefined {
+  return callRedactor.getStore();
+}
+
+/**
+ * Redacts a value based on its key
+ *
+ * @param key - The key name
+ * @param value - The value to potentially redact
+ * @returns Redacted or original value
+ */
+export function redactValue(key: string, value: unknown): unknown {
+  return defaultRedactor.redactValue(key, value);
+}
 
-  return result;
+/**
+ * Redacts an entire object, processing nested objects and arrays
+ *
+ * @param obj - Object to redact
+ * @returns New object with sensitive values redacted
+ */
+export function redactObject(obj: unknown): unknown {
+  return defaultRedactor.redactObject(obj);
 }
 
 /**
@@ -109,24 +323,7 @@ export function redactObject(obj: unknown): unknown {
  * @returns URL with sensitive query params redacted
  */
 export function redactUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-
-    // Redact sensitive query parameters
-    for (const key of parsed.searchParams.keys()) {
-      const keyLower = key.toLowerCase();
-      for (const redactedKey of FULLY_REDACTED_KEYS) {
-        if (keyLower === redactedKey.toLowerCase()) {
-          parsed.searchParams.set(key, '[REDACTED]');
-        }
-      }
-    }
-
-    return parsed.toString();
-  } catch {
-    // If URL parsing fails, return a safe fallback
-    return '[INVALID_URL]';
-  }
+  return defaultRedactor.redactUrl(url);
 }
 
 /**
@@ -135,40 +332,6 @@ export function redactUrl(url: string): string {
  * @param data - Data to make safe for logging
  * @returns Safe object for logging
  */
-export function createSafeLogData(data: {
-  endpoint?: string;
-  method?: string;
-  durationMs?: number;
-  statusCode?: number;
-  errorCode?: number;
-  orderId?: string;
-  mdOrder?: string;
-}): Record<string, unknown> {
-  const safe: Record<string, unknown> = {};
-
-  if (data.endpoint) {
-    safe.endpoint = data.endpoint;
-  }
-  if (data.method) {
-    safe.method = data.method;
-  }
-  if (data.durationMs !== undefined) {
-    safe.durationMs = data.durationMs;
-  }
-  if (data.statusCode !== undefined) {
-    safe.statusCode = data.statusCode;
-  }
-  if (data.errorCode !== undefined) {
-    safe.errorCode = data.errorCode;
-  }
-
-  // Partially redact order IDs
-  if (data.orderId) {
-    safe.orderId = redactPartial(data.orderId);
-  }
-  if (data.mdOrder) {
-    safe.mdOrder = redactPartial(data.mdOrder);
-  }
-
-  return safe;
+export function createSafeLogData(data: SafeLogInput): Record<string, unknown> {
+  return defaultRedactor.createSafeLogData(data);
 }
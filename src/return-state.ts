@@ -0,0 +1,310 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { ConfigError, ValidationError } from './errors.js';
+import { DEFAULTS, VALIDATION } from './constants.js';
+import { toMinorUnits } from './amount.js';
+import type {
+  MemoryNonceStoreOptions,
+  ReturnStateKey,
+  ReturnStateNonceStore,
+  ReturnStateOptions,
+  ReturnStateParams,
+  ReturnStateSigner,
+} from './types.js';
+
+/**
+ * Token payload, serialized as JSON with short keys to keep URLs compact
+ */
+interface StatePayload {
+  /** Format version */
+  v: 1;
+  /** Key ID */
+  kid: string;
+  /** Internal reference */
+  ref: string;
+  /** Order number */
+  on: string;
+  /** Amount in minor units */
+  amt: string;
+  /** Issued at (epoch milliseconds) */
+  iat: number;
+  /** Expires at (epoch milliseconds) */
+  exp: number;
+  /** Nonce */
+  n: string;
+}
+
+/**
+ * Nonce remembered by the memory nonce store until its token expires
+ */
+interface UsedNonce {
+  nonce: string;
+  /** Token expiry (epoch milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Creates a signer for return-URL state tokens.
+ *
+ * Tokens are `base64url(payload).base64url(HMAC-SHA256)` and bind your order
+ * reference, the orderNumber and the amount. Put one in the returnUrl/failUrl
+ * passed to `register()` and verify it when the customer comes back, so the
+ * redirect cannot be pointed at another order.
+ *
+ * @param options - Keys, lifetime and replay protection
+ * @returns Return-state signer
+ * @throws ConfigError if no key is given, a secret is too short or ttlSeconds
+ *   is not a positive integer
+ *
+ * @example
+ * const returnState = createReturnStateSigner({
+ *   keys: [{ id: '2026-10', secret: process.env.RETURN_STATE_SECRET! }],
+ * });
+ *
+ * await client.register({
+ *   orderNumber: 'ORD001',
+ *   amount: 5000,
+ *   returnUrl: returnState.buildReturnUrl('https://shop.dz/return', {
+ *     reference: order.id,
+ *     orderNumber: 'ORD001',
+ *     amount: 5000,
+ *   }),
+ *   udf1: 'INV001',
+ * });
+ */
+export function createReturnStateSigner(
+  options: ReturnStateOptions
+): ReturnStateSigner {
+  const keys = options.keys ?? [];
+  if (keys.length === 0) {
+    throw new ConfigError('At least one return state key is required');
+  }
+  const secrets = new Map<string, Buffer>();
+  for (const key of keys) {
+    secrets.set(key.id, toSecret(key));
+  }
+  const signingKey = keys[0]!;
+  const ttlSeconds = options.ttlSeconds ?? DEFAULTS.RETURN_STATE_TTL_SECONDS;
+  if (!Number.isSafeInteger(ttlSeconds) || ttlSeconds <= 0) {
+    throw new ConfigError('Return state ttlSeconds must be a positive integer');
+  }
+  const ttlMs = ttlSeconds * 1000;
+  const paramName = options.paramName ?? DEFAULTS.RETURN_STATE_PARAM;
+  const now = options.now ?? Date.now;
+  const nonceStore =
+    options.nonceStore === undefined ? createMemoryNonceStore({ now }) : options.nonceStore;
+
+  const sign = (params: ReturnStateParams): string => {
+    if (!params.reference || !params.orderNumber) {
+      throw new ValidationError(
+        'reference and orderNumber are required to sign a return state',
+        'INVALID_RETURN_STATE'
+      );
+    }
+    const issuedAt = now();
+    const payload: StatePayload = {
+      v: 1,
+      kid: signingKey.id,
+      ref: params.reference,
+      on: params.orderNumber,
+      amt: toMinorUnits(params.amount),
+      iat: issuedAt,
+      exp: issuedAt + ttlMs,
+      n: randomBytes(16).toString('base64url'),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${hmac(secrets.get(signingKey.id)!, encoded)}`;
+  };
+
+  return {
+    sign,
+
+    buildReturnUrl(url, params) {
+      const result = new URL(url);
+      result.searchParams.set(paramName, sign(params));
+      return result.toString();
+    },
+
+    async verify(input) {
+      let token: string | null;
+      let orderId: string | null = null;
+      if (typeof input === 'string') {
+        token = input;
+      } else {
+        const url = input instanceof URL ? input : new URL(input.url);
+        token = url.searchParams.get(paramName);
+        orderId = url.searchParams.get('orderId');
+      }
+
+      const payload = decode(token, secrets);
+      if (now() > payload.exp) {
+        throw new ValidationError('Return state has expired', 'EXPIRED_RETURN_STATE', {
+          expiresAt: payload.exp,
+        });
+      }
+      if (orderId !== null && !VALIDATION.ORDER_ID_PATTERN.test(orderId)) {
+        throw new ValidationError('Return URL has an invalid orderId', 'INVALID_ORDER_ID');
+      }
+      if (nonceStore && !(await nonceStore.consume(payload.n, payload.exp))) {
+        throw new ValidationError(
+          'Return state was already used',
+          'REPLAYED_RETURN_STATE'
+        );
+      }
+
+      return {
+        reference: payload.ref,
+        orderNumber: payload.on,
+        amount: formatMinorUnits(payload.amt),
+        amountMinor: payload.amt,
+        orderId,
+        keyId: payload.kid,
+        issuedAt: payload.iat,
+        expiresAt: payload.exp,
+      };
+    },
+  };
+}
+
+/**
+ * Creates an in-memory nonce store. Expired nonces are dropped as new ones
+ * arrive, soonest expiry first. Only suitable when a single process handles
+ * returns.
+ *
+ * @param options - Clock; pass the one given to the signer so that nonces
+ *   expire together with their tokens
+ * @returns Nonce store
+ */
+export function createMemoryNonceStore(
+  options: MemoryNonceStoreOptions = {}
+): ReturnStateNonceStore {
+  const now = options.now ?? Date.now;
+  const used = new Set<string>();
+  // Min-heap of used nonces by expiry
+  const expiries: UsedNonce[] = [];
+
+  return {
+    consume(nonce, expiresAt) {
+      const current = now();
+      while (expiries.length > 0 && expiries[0]!.expiresAt < current) {
+        used.delete(popMin(expiries).nonce);
+      }
+      if (used.has(nonce)) {
+        return false;
+      }
+      used.add(nonce);
+      pushHeap(expiries, { expiresAt, nonce });
+      return true;
+    },
+  };
+}
+
+/**
+ * Adds an entry to a min-heap ordered by expiresAt
+ */
+function pushHeap(heap: UsedNonce[], entry: UsedNonce): void {
+  heap.push(entry);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent]!.expiresAt <= entry.expiresAt) {
+      break;
+    }
+    heap[index] = heap[parent]!;
+    index = parent;
+  }
+  heap[index] = entry;
+}
+
+/**
+ * Removes and returns the entry expiring first from a non-empty min-heap
+ */
+function popMin(heap: UsedNonce[]): UsedNonce {
+  const min = heap[0]!;
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      if (left >= heap.length) {
+        break;
+      }
+      const right = left + 1;
+      const child =
+        right < heap.length && heap[right]!.expiresAt < heap[left]!.expiresAt ? right : left;
+      if (heap[child]!.expiresAt >= last.expiresAt) {
+        break;
+      }
+      heap[index] = heap[child]!;
+      index = child;
+    }
+    heap[index] = last;
+  }
+  return min;
+}
+
+/**
+ * Checks the signature of a token and parses its payload
+ */
+function decode(token: string | null, secrets: Map<string, Buffer>): StatePayload {
+  const invalid = () =>
+    new ValidationError('Return state is missing or invalid', 'INVALID_RETURN_STATE');
+
+  const [encoded, signature, extra] = (token ?? '').split('.');
+  if (!encoded || !signature || extra !== undefined) {
+    throw invalid();
+  }
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as StatePayload;
+  } catch {
+    throw invalid();
+  }
+  const secret = typeof payload?.kid === 'string' ? secrets.get(payload.kid) : undefined;
+  if (!secret) {
+    throw invalid();
+  }
+
+  const expected = Buffer.from(hmac(secret, encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw invalid();
+  }
+  if (
+    payload.v !== 1 ||
+    typeof payload.ref !== 'string' ||
+    typeof payload.on !== 'string' ||
+    typeof payload.amt !== 'string' ||
+    typeof payload.exp !== 'number' ||
+    typeof payload.n !== 'string'
+  ) {
+    throw invalid();
+  }
+  return payload;
+}
+
+function hmac(secret: Buffer, data: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function toSecret(key: ReturnStateKey): Buffer {
+  if (!key.id) {
+    throw new ConfigError('Return state keys need a non-empty id');
+  }
+  const secret =
+    typeof key.secret === 'string' ? Buffer.from(key.secret, 'utf8') : Buffer.from(key.secret);
+  if (secret.length < VALIDATION.MIN_RETURN_STATE_SECRET_BYTES) {
+    throw new ConfigError(
+      `Return state secret "${key.id}" must be at least ${VALIDATION.MIN_RETURN_STATE_SECRET_BYTES} bytes`
+    );
+  }
+  return secret;
+}
+
+/**
+ * Formats minor units as a DZD decimal string ('100320' => '1003.20')
+ */
+function formatMinorUnits(minor: string): string {
+  const padded = minor.padStart(3, '0');
+  return `${padded.slice(0, -2)}.${padded.slice(-2)}`;
+}
@@ -0,0 +1,189 @@
+import { OrderStatus } from '../types.js';
+import type { OrderStatusCode } from '../types.js';
+
+/**
+ * Outcome of a simulated card payment
+ */
+export interface SimulatedCardOutcome {
+  /** Order status after payment (successful payments become APPROVED for pre-authorized orders) */
+  orderStatus: OrderStatusCode;
+  /** Processing system action code */
+  actionCode: number;
+  /** Action code description, as shown by SATIM */
+  actionCodeDescription: string;
+  /** SVFE (ISO 8583) response code */
+  svfeResponse: string;
+}
+
+/**
+ * Test card accepted by the simulator's payment page
+ */
+export interface SimulatorTestCard {
+  /** Card number */
+  pan: string;
+  /** CVV2 */
+  cvv2: string;
+  /** Expiry (MM/YYYY) */
+  expiry: string;
+  /** Short description of the scenario */
+  label: string;
+  /** Payment outcome */
+  outcome: SimulatedCardOutcome;
+}
+
+const APPROVED: SimulatedCardOutcome = {
+  orderStatus: OrderStatus.DEPOSITED,
+  actionCode: 0,
+  actionCodeDescription: 'Votre paiement a été accepté',
+  svfeResponse: '00',
+};
+
+/**
+ * Test cards understood by the simulator.
+ *
+ * The first six match the SATIM sandbox cards; the others are simulator-only
+ * scenarios. Every card uses password 123456 on the real sandbox.
+ */
+export const SIMULATOR_TEST_CARDS: readonly SimulatorTestCard[] = [
+  {
+    pan: '6280581110007215',
+    cvv2: '373',
+    expiry: '01/2027',
+    label: 'Valid card',
+    outcome: APPROVED,
+  },
+  {
+    pan: '6280580610061011',
+    cvv2: '992',
+    expiry: '01/2027',
+    label: 'Valid credit card',
+    outcome: APPROVED,
+  },
+  {
+    pan: '6280581110006712',
+    cvv2: '897',
+    expiry: '01/2027',
+    label: 'Temporarily blocked',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 100,
+      actionCodeDescription: 'Carte temporairement bloquée',
+      svfeResponse: '62',
+    },
+  },
+  {
+    pan: '6280580610061110',
+    cvv2: '260',
+    expiry: '01/2027',
+    label: 'Insufficient balance',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 116,
+      actionCodeDescription: 'Votre solde est insuffisant',
+      svfeResponse: '51',
+    },
+  },
+  {
+    pan: '6280580610061219',
+    cvv2: '049',
+    expiry: '01/2027',
+    label: 'Limit exceeded',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 121,
+      actionCodeDescription: 'Montant limite dépassé',
+      svfeResponse: '61',
+    },
+  },
+  {
+    pan: '6280581110006514',
+    cvv2: '205',
+    expiry: '01/2027',
+    label: 'Incorrect CVV2',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 71015,
+      actionCodeDescription: 'Données de carte erronées',
+      svfeResponse: '82',
+    },
+  },
+  {
+    pan: '6280580000000017',
+    cvv2: '111',
+    expiry: '01/2027',
+    label: 'Expired card',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 101,
+      actionCodeDescription: 'Carte expirée',
+      svfeResponse: '54',
+    },
+  },
+  {
+    pan: '6280580000000025',
+    cvv2: '222',
+    expiry: '01/2027',
+    label: '3-D Secure authentication failed',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: -2006,
+      actionCodeDescription: "Échec de l'authentification 3-D Secure",
+      svfeResponse: '',
+    },
+  },
+  {
+    pan: '6280580000000033',
+    cvv2: '333',
+    expiry: '01/2027',
+    label: 'Issuer unavailable',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 910,
+      actionCodeDescription: "Banque émettrice indisponible",
+      svfeResponse: '91',
+    },
+  },
+  {
+    pan: '6280580000000041',
+    cvv2: '444',
+    expiry: '01/2027',
+    label: 'Lost or stolen card',
+    outcome: {
+      orderStatus: OrderStatus.DECLINED,
+      actionCode: 208,
+      actionCodeDescription: 'Carte perdue',
+      svfeResponse: '41',
+    },
+  },
+  {
+    pan: '6280580000000058',
+    cvv2: '555',
+    expiry: '01/2027',
+    label: 'Payment timeout (unknown decline)',
+    outcome: {
+      orderStatus: OrderStatus.UNKNOWN_DECLINE,
+      actionCode: -2007,
+      actionCodeDescription: 'Délai de paiement expiré',
+      svfeResponse: '',
+    },
+  },
+];
+
+/**
+ * Outcome used for card numbers that are not in the test card list
+ */
+export const UNKNOWN_CARD_OUTCOME: SimulatedCardOutcome = {
+  orderStatus: OrderStatus.DECLINED,
+  actionCode: 111,
+  actionCodeDescription: 'Numéro de carte invalide',
+  svfeResponse: '14',
+};
+
+/**
+ * Finds the outcome for a card number (spaces and dashes are ignored)
+ */
+export function findCardOutcome(pan: string): SimulatedCardOutcome {
+  const normalized = pan.replace(/[\s-]/g, '');
+  const card = SIMULATOR_TEST_CARDS.find((c) => c.pan === normalized);
+  return card?.outcome ?? UNKNOWN_CARD_OUTCOME;
+}
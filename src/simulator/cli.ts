@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { startSatimSimulator } from './server.js';
+import { SIMULATOR_TEST_CARDS } from './cards.js';
+import type { FaultRule } from './faults.js';
+
+const USAGE = `Usage: satim-simulator [options]
+
+Options:
+  -p, --port <port>       Port to listen on (default: 8787)
+  -H, --host <host>       Host to bind (default: 127.0.0.1)
+      --base-path <path>  REST API path prefix (default: /payment/rest)
+      --user <userName>   Only accept this userName
+      --password <pass>   Only accept this password
+      --faults <file>     JSON file with an array of fault rules to inject
+  -h, --help              Show this help
+`;
+
+/**
+ * Runs the simulator from the command line
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p', default: '8787' },
+      host: { type: 'string', short: 'H', default: '127.0.0.1' },
+      'base-path': { type: 'string' },
+      user: { type: 'string' },
+      password: { type: 'string' },
+      faults: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const port = parseInt(values.port ?? '', 10);
+  if (isNaN(port)) {
+    process.stderr.write(`Invalid port: ${values.port}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const rules = values.faults
+    ? (JSON.parse(await readFile(values.faults, 'utf8')) as FaultRule[])
+    : undefined;
+
+  const simulator = await startSatimSimulator({
+    port,
+    host: values.host,
+    basePath: values['base-path'],
+    userName: values.user,
+    password: values.password,
+    faults: rules
+      ? {
+          rules,
+          onFault: ({ path, fault }) =>
+            process.stdout.write(`Injected ${fault.type} fault on ${path}\n`),
+        }
+      : undefined,
+  });
+
+  const cards = SIMULATOR_TEST_CARDS.map(
+    (card) => `  ${card.pan}  CVV2 ${card.cvv2}  ${card.expiry}  ${card.label}`
+  ).join('\n');
+
+  process.stdout.write(
+    `SATIM simulator listening on ${simulator.url}\n\n` +
+      `  apiBaseUrl:     ${simulator.apiBaseUrl}\n` +
+      `  paymentPageUrl: ${simulator.paymentPageUrl}\n\n` +
+      `Test cards:\n${cards}\n`
+  );
+
+  const shutdown = () => {
+    simulator.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
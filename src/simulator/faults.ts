@@ -0,0 +1,251 @@
+/**
+ * Fault to inject into a SATIM API exchange
+ *
+ * - latency: delay the response, then answer normally
+ * - drop: drop the connection without a response; with afterProcessing the
+ *   request reaches the gateway first, so its effects apply but the answer is lost
+ * - html: answer with an HTML maintenance page (HTTP 200 unless status is set)
+ * - truncatedJson: answer with a JSON body cut in the middle
+ * - contentType: answer normally but with a wrong Content-Type header
+ * - httpError: answer with an HTTP error status (e.g. 502, 503)
+ * - errorCode: answer normally but replace the SATIM error code with one of `codes`
+ */
+export type Fault =
+  | { type: 'latency'; ms: number }
+  | { type: 'drop'; afterProcessing?: boolean }
+  | { type: 'html'; status?: number }
+  | { type: 'truncatedJson' }
+  | { type: 'contentType'; contentType: string }
+  | { type: 'httpError'; status: number }
+  | { type: 'errorCode'; codes: number[] };
+
+/**
+ * When and how often a fault is injected
+ */
+export interface FaultRule {
+  /** Endpoint to match: path suffix (e.g. '/register.do') or RegExp. Matches every endpoint when omitted. */
+  endpoint?: string | RegExp;
+  /** Probability of injecting the fault on a matching request, 0 to 1 (default: 1) */
+  probability?: number;
+  /** Maximum number of injections for this rule (default: unlimited) */
+  times?: number;
+  /** Fault to inject */
+  fault: Fault;
+}
+
+/**
+ * Information passed to the onFault hook
+ */
+export interface InjectedFault {
+  /** Request path */
+  path: string;
+  /** Injected fault */
+  fault: Fault;
+}
+
+/**
+ * Options shared by the fault-injecting transports
+ */
+export interface FaultInjectionOptions {
+  /** Rules evaluated in order; the first rule that fires wins */
+  rules: FaultRule[];
+  /** Random source returning [0, 1), for reproducible chaos tests (default: Math.random) */
+  random?: () => number;
+  /** Hook called whenever a fault is injected */
+  onFault?: (info: InjectedFault) => void;
+}
+
+/**
+ * Options for createFaultInjectingFetch
+ */
+export interface FaultInjectingFetchOptions extends FaultInjectionOptions {
+  /** Underlying fetch (default: global fetch) */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+/**
+ * HTML body used for maintenance-page faults
+ */
+export const MAINTENANCE_PAGE_HTML =
+  '<!doctype html><html><head><title>Maintenance</title></head>' +
+  '<body><h1>Service temporairement indisponible</h1></body></html>';
+
+/**
+ * Picks the fault (if any) to inject for a request path, tracking rule usage
+ */
+export interface FaultSelector {
+  select(path: string): Fault | null;
+}
+
+/**
+ * Creates a fault selector over a rule list
+ */
+export function createFaultSelector(options: FaultInjectionOptions): FaultSelector {
+  const random = options.random ?? Math.random;
+  const used = new Map<FaultRule, number>();
+
+  return {
+    select(path) {
+      for (const rule of options.rules) {
+        if (!matchesEndpoint(rule.endpoint, path)) {
+          continue;
+        }
+        const count = used.get(rule) ?? 0;
+        if (rule.times !== undefined && count >= rule.times) {
+          continue;
+        }
+        if (random() >= (rule.probability ?? 1)) {
+          continue;
+        }
+        used.set(rule, count + 1);
+        options.onFault?.({ path, fault: rule.fault });
+        return rule.fault;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Creates a fetch function that injects faults, for use as `HttpConfig.fetch`.
+ * Requests that draw no fault go to the underlying fetch untouched.
+ *
+ * @example
+ * const client = createSatimClient({
+ *   ...config,
+ *   http: {
+ *     fetch: createFaultInjectingFetch({
+ *       rules: [
+ *         { endpoint: '/register.do', probability: 0.2, fault: { type: 'httpError', status: 503 } },
+ *         { probability: 0.1, fault: { type: 'latency', ms: 2000 } },
+ *       ],
+ *     }),
+ *   },
+ * });
+ */
+export function createFaultInjectingFetch(
+  options: FaultInjectingFetchOptions
+): (url: string, init: RequestInit) => Promise<Response> {
+  const selector = createFaultSelector(options);
+  const baseFetch = options.fetch ?? ((url, init) => fetch(url, init));
+
+  return async (url, init) => {
+    const fault = selector.select(new URL(url).pathname);
+    if (!fault) {
+      return baseFetch(url, init);
+    }
+
+    switch (fault.type) {
+      case 'latency':
+        await delay(fault.ms, init.signal);
+        return baseFetch(url, init);
+      case 'drop':
+        if (fault.afterProcessing) {
+          await baseFetch(url, init);
+        }
+        throw new TypeError('fetch failed', {
+          cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+        });
+      case 'html':
+        return new Response(MAINTENANCE_PAGE_HTML, {
+          status: fault.status ?? 200,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        });
+      case 'httpError':
+        return new Response(MAINTENANCE_PAGE_HTML, {
+          status: fault.status,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        });
+      case 'truncatedJson': {
+        const response = await baseFetch(url, init);
+        return new Response(truncate(await response.text()), {
+          status: response.status,
+          headers: response.headers,
+        });
+      }
+      case 'contentType': {
+        const response = await baseFetch(url, init);
+        const headers = new Headers(response.headers);
+        headers.set('Content-Type', fault.contentType);
+        return new Response(await response.text(), {
+          status: response.status,
+          headers,
+        });
+      }
+      case 'errorCode': {
+        const response = await baseFetch(url, init);
+        const body = withErrorCode(await response.text(), fault.codes, options.random);
+        return new Response(body, {
+          status: response.status,
+          headers: response.headers,
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Cuts a response body roughly in half
+ */
+export function truncate(body: string): string {
+  return body.slice(0, Math.max(1, Math.floor(body.length / 2)));
+}
+
+/**
+ * Replaces the SATIM error code of a JSON body with a random code from the list
+ */
+export function withErrorCode(
+  body: string,
+  codes: number[],
+  random: () => number = Math.random
+): string {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    return body;
+  }
+  if (codes.length === 0) {
+    return body;
+  }
+  const code = codes[Math.floor(random() * codes.length)] ?? codes[0]!;
+  // acknowledgeTransaction.do uses ErrorCode, the other endpoints errorCode
+  const key = 'ErrorCode' in parsed ? 'ErrorCode' : 'errorCode';
+  return JSON.stringify({ ...parsed, [key]: String(code) });
+}
+
+function matchesEndpoint(endpoint: string | RegExp | undefined, path: string): boolean {
+  if (endpoint === undefined) {
+    return true;
+  }
+  if (typeof endpoint === 'string') {
+    return path.endsWith(endpoint);
+  }
+  return endpoint.test(path);
+}
+
+/**
+ * Waits for the given delay, rejecting with an AbortError if the signal fires
+ */
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      return error;
+    };
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
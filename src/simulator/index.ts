@@ -0,0 +1,33 @@
+/**
+ * @bakissation/satim/simulator - Local SATIM gateway simulator for development and CI
+ *
+ * @packageDocumentation
+ */
+
+export { startSatimSimulator } from './server.js';
+export type {
+  SatimSimulator,
+  SatimSimulatorOptions,
+  SimulatedOrder,
+} from './server.js';
+
+export {
+  SIMULATOR_TEST_CARDS,
+  UNKNOWN_CARD_OUTCOME,
+  findCardOutcome,
+} from './cards.js';
+export type { SimulatorTestCard, SimulatedCardOutcome } from './cards.js';
+
+export {
+  MAINTENANCE_PAGE_HTML,
+  createFaultInjectingFetch,
+  createFaultSelector,
+} from './faults.js';
+export type {
+  Fault,
+  FaultRule,
+  FaultSelector,
+  FaultInjectionOptions,
+  FaultInjectingFetchOptions,
+  InjectedFault,
+} from './faults.js';
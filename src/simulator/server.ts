@@ -0,0 +1,742 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomBytes, randomInt } from 'node:crypto';
+import { DEFAULTS, ENDPOINTS } from '../constants.js';
+import { OrderStatus } from '../types.js';
+import type { OrderStatusCode, SatimLanguage } from '../types.js';
+import { findCardOutcome } from './cards.js';
+import {
+  MAINTENANCE_PAGE_HTML,
+  createFaultSelector,
+  truncate,
+  withErrorCode,
+} from './faults.js';
+import type { FaultInjectionOptions, FaultSelector } from './faults.js';
+
+/**
+ * Order held in the simulator's memory
+ */
+export interface SimulatedOrder {
+  /** Order ID (mdOrder) */
+  orderId: string;
+  /** Merchant order number */
+  orderNumber: string;
+  /** Amount in minor units */
+  amount: number;
+  /** Currency code */
+  currency: string;
+  /** Payment page language */
+  language: SatimLanguage;
+  /** Success redirect URL */
+  returnUrl: string;
+  /** Failure redirect URL */
+  failUrl: string | null;
+  /** Order description */
+  description: string | null;
+  /** Parsed jsonParams sent at registration */
+  jsonParams: Record<string, string>;
+  /** Registered through registerPreAuth.do */
+  preAuth: boolean;
+  /** Current order status */
+  status: OrderStatusCode;
+  /** Action code of the payment attempt */
+  actionCode: number | null;
+  /** Action code description of the payment attempt */
+  actionCodeDescription: string | null;
+  /** SVFE response code of the payment attempt */
+  svfeResponse: string | null;
+  /** Masked card number used for payment */
+  pan: string | null;
+  /** Approval code of a successful payment */
+  approvalCode: string | null;
+  /** Authorized amount in minor units */
+  approvedAmount: number;
+  /** Captured amount in minor units */
+  depositedAmount: number;
+  /** Refunded amount in minor units */
+  refundedAmount: number;
+  /** Registration time (epoch milliseconds) */
+  createdAt: number;
+  /** Payment time (epoch milliseconds) */
+  paidAt: number | null;
+}
+
+/**
+ * Simulator options
+ */
+export interface SatimSimulatorOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Host to bind (default: '127.0.0.1') */
+  host?: string;
+  /** Path prefix of the REST API (default: '/payment/rest') */
+  basePath?: string;
+  /** When set, API calls with a different userName are rejected with error code 5 */
+  userName?: string;
+  /** When set, API calls with a different password are rejected with error code 5 */
+  password?: string;
+  /** Faults to inject into REST API responses (the payment page is never affected) */
+  faults?: FaultInjectionOptions;
+}
+
+/**
+ * Running simulator instance
+ */
+export interface SatimSimulator {
+  /** Server origin, e.g. http://127.0.0.1:8787 */
+  readonly url: string;
+  /** Value to use as SatimConfig.apiBaseUrl */
+  readonly apiBaseUrl: string;
+  /** Value to use as SatimConfig.paymentPageUrl */
+  readonly paymentPageUrl: string;
+  /** Returns an order by ID */
+  getOrder(orderId: string): SimulatedOrder | undefined;
+  /** Returns all orders */
+  listOrders(): SimulatedOrder[];
+  /**
+   * Pays an order with a test card without going through the HTML page.
+   * Returns the URL the customer would be redirected to.
+   */
+  pay(orderId: string, pan: string): { order: SimulatedOrder; redirectUrl: string };
+  /** Cancels payment of an order, as the Cancel button of the payment page does */
+  cancel(orderId: string): { order: SimulatedOrder; redirectUrl: string };
+  /** Replaces the fault rules; pass null to stop injecting faults */
+  setFaults(faults: FaultInjectionOptions | null): void;
+  /** Removes all orders */
+  reset(): void;
+  /** Stops the server */
+  close(): Promise<void>;
+}
+
+type Params = URLSearchParams;
+type JsonBody = Record<string, unknown>;
+
+/**
+ * Path of the simulated hosted payment page
+ */
+const PAGE_PATH = '/payment/merchants/simulator';
+
+/**
+ * Starts a local SATIM gateway simulator with in-memory order state.
+ *
+ * Point `SatimConfig.apiBaseUrl` at `simulator.apiBaseUrl` to run complete
+ * checkout flows offline.
+ *
+ * @param options - Simulator options
+ * @returns Running simulator
+ */
+export async function startSatimSimulator(
+  options: SatimSimulatorOptions = {}
+): Promise<SatimSimulator> {
+  const host = options.host ?? '127.0.0.1';
+  const basePath = trimTrailingSlash(options.basePath ?? '/payment/rest');
+  const orders = new Map<string, SimulatedOrder>();
+  let origin = '';
+  let faults: FaultSelector | null = options.faults
+    ? createFaultSelector(options.faults)
+    : null;
+  let faultRandom = options.faults?.random;
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      }
+      res.end(error instanceof Error ? error.message : 'Internal error');
+    });
+  });
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', origin);
+    const params =
+      req.method === 'POST'
+        ? new URLSearchParams(await readBody(req))
+        : url.searchParams;
+
+    if (url.pathname.startsWith(basePath + '/')) {
+      await handleApiRequest(url.pathname, params, req, res);
+      return;
+    }
+
+    if (url.pathname.startsWith(PAGE_PATH + '/')) {
+      const page = url.pathname.slice(PAGE_PATH.length + 1);
+      if (req.method === 'GET' && /^payment_(fr|en|ar)\.html$/.test(page)) {
+        renderPaymentPage(res, params.get('mdOrder'));
+        return;
+      }
+      if (req.method === 'POST' && page === 'submit') {
+        const orderId = params.get('mdOrder') ?? '';
+        const order = orders.get(orderId);
+        if (!order || order.status !== OrderStatus.REGISTERED_NOT_PAID) {
+          sendHtml(res, 409, pageHtml('Order unavailable', '<p>This order cannot be paid.</p>'));
+          return;
+        }
+        const result =
+          params.get('action') === 'cancel'
+            ? cancelOrder(order)
+            : payOrder(order, params.get('pan') ?? '');
+        res.writeHead(303, { Location: result });
+        res.end();
+        return;
+      }
+    }
+
+    sendText(res, 404, 'Not found');
+  }
+
+  /**
+   * Answers a REST API call, injecting a fault when one is drawn
+   */
+  async function handleApiRequest(
+    path: string,
+    params: Params,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const fault = faults?.select(path) ?? null;
+
+    if (fault?.type === 'latency') {
+      await new Promise((resolve) => setTimeout(resolve, fault.ms));
+    } else if (fault?.type === 'html' || fault?.type === 'httpError') {
+      sendHtml(res, fault.status ?? 200, MAINTENANCE_PAGE_HTML);
+      return;
+    } else if (fault?.type === 'drop' && !fault.afterProcessing) {
+      req.socket.destroy();
+      return;
+    }
+
+    const body = handleApi(path.slice(basePath.length), params);
+    if (!body) {
+      sendText(res, 404, 'Not found');
+      return;
+    }
+
+    switch (fault?.type) {
+      case 'drop':
+        req.socket.destroy();
+        return;
+      case 'truncatedJson':
+        sendRaw(res, 'application/json; charset=utf-8', truncate(JSON.stringify(body)));
+        return;
+      case 'contentType':
+        sendRaw(res, fault.contentType, JSON.stringify(body));
+        return;
+      case 'errorCode':
+        sendRaw(
+          res,
+          'application/json; charset=utf-8',
+          withErrorCode(JSON.stringify(body), fault.codes, faultRandom)
+        );
+        return;
+      default:
+        sendJson(res, body);
+    }
+  }
+
+  /**
+   * Dispatches a REST API call. Returns null for unknown endpoints.
+   */
+  function handleApi(endpoint: string, params: Params): JsonBody | null {
+    switch (endpoint) {
+      case ENDPOINTS.REGISTER:
+        return register(params, false);
+      case ENDPOINTS.REGISTER_PRE_AUTH:
+        return register(params, true);
+      case ENDPOINTS.CONFIRM:
+        return acknowledge(params);
+      case ENDPOINTS.ORDER_STATUS:
+        return orderStatus(params);
+      case ENDPOINTS.REFUND:
+        return refund(params);
+      case ENDPOINTS.DEPOSIT:
+        return deposit(params);
+      case ENDPOINTS.REVERSE:
+        return reverse(params);
+      default:
+        return null;
+    }
+  }
+
+  function isAuthorized(params: Params): boolean {
+    if (options.userName !== undefined && params.get('userName') !== options.userName) {
+      return false;
+    }
+    if (options.password !== undefined && params.get('password') !== options.password) {
+      return false;
+    }
+    return true;
+  }
+
+  function register(params: Params, preAuth: boolean): JsonBody {
+    const required = ['userName', 'password', 'orderNumber', 'amount', 'returnUrl'];
+    const missing = required.find((key) => !params.get(key));
+    if (missing) {
+      return apiError(4, `Required parameter ${missing} is not specified`);
+    }
+    if (!isAuthorized(params)) {
+      return apiError(5, 'Access denied');
+    }
+
+    const amount = parseMinor(params.get('amount'));
+    if (amount === null || amount === 0) {
+      return apiError(5, 'Amount is invalid');
+    }
+    const currency = params.get('currency') ?? DEFAULTS.CURRENCY;
+    if (currency !== DEFAULTS.CURRENCY) {
+      return apiError(3, 'Unknown currency');
+    }
+
+    const orderNumber = params.get('orderNumber')!;
+    if (findByOrderNumber(orderNumber)) {
+      return apiError(1, 'Order with this number was already processed');
+    }
+
+    const language = parseLanguage(params.get('language'));
+    const order: SimulatedOrder = {
+      orderId: randomBytes(15).toString('base64url'),
+      orderNumber,
+      amount,
+      currency,
+      language,
+      returnUrl: params.get('returnUrl')!,
+      failUrl: params.get('failUrl'),
+      description: params.get('description'),
+      jsonParams: parseJsonParams(params.get('jsonParams')),
+      preAuth,
+      status: OrderStatus.REGISTERED_NOT_PAID,
+      actionCode: null,
+      actionCodeDescription: null,
+      svfeResponse: null,
+      pan: null,
+      approvalCode: null,
+      approvedAmount: 0,
+      depositedAmount: 0,
+      refundedAmount: 0,
+      createdAt: Date.now(),
+      paidAt: null,
+    };
+    orders.set(order.orderId, order);
+
+    return {
+      orderId: order.orderId,
+      formUrl: formUrlFor(order),
+      errorCode: '0',
+    };
+  }
+
+  function acknowledge(params: Params): JsonBody {
+    if (!isAuthorized(params)) {
+      return { ErrorCode: '5', ErrorMessage: 'Access denied' };
+    }
+    const order = orders.get(params.get('mdOrder') ?? '');
+    if (!order) {
+      return { ErrorCode: '6', ErrorMessage: 'Unregistered order Id' };
+    }
+
+    const declined =
+      order.status === OrderStatus.DECLINED ||
+      order.status === OrderStatus.UNKNOWN_DECLINE;
+
+    return {
+      expiration: order.pan ? '202701' : undefined,
+      cardholderName: order.pan ? 'SIMULATOR TEST' : undefined,
+      depositAmount: order.depositedAmount,
+      currency: order.currency,
+      authorizationResponseId: order.approvalCode ?? undefined,
+      approvalCode: order.approvalCode ?? undefined,
+      actionCode: order.actionCode ?? undefined,
+      actionCodeDescription: order.actionCodeDescription ?? undefined,
+      ErrorCode: declined ? '2' : '0',
+      ErrorMessage: declined ? 'Payment is declined' : 'Success',
+      OrderStatus: order.status,
+      OrderNumber: order.orderNumber,
+      Pan: order.pan ?? undefined,
+      Amount: order.amount,
+      Ip: '127.0.0.1',
+      Description: order.description ?? undefined,
+      params: {
+        ...order.jsonParams,
+        ...(order.svfeResponse !== null
+          ? {
+              respCode: order.svfeResponse,
+              respCode_desc: order.actionCodeDescription ?? '',
+            }
+          : {}),
+      },
+      SvfeResponse: order.svfeResponse ?? undefined,
+    };
+  }
+
+  function orderStatus(params: Params): JsonBody {
+    if (!isAuthorized(params)) {
+      return apiError(5, 'Access denied');
+    }
+    const orderId = params.get('orderId');
+    const orderNumber = params.get('orderNumber');
+    if (!orderId && !orderNumber) {
+      return apiError(1, 'orderId or orderNumber is expected');
+    }
+    const order = orderId ? orders.get(orderId) : findByOrderNumber(orderNumber!);
+    if (!order) {
+      return apiError(6, 'Order not found');
+    }
+
+    return {
+      errorCode: '0',
+      errorMessage: 'Success',
+      orderNumber: order.orderNumber,
+      orderStatus: order.status,
+      actionCode: order.actionCode ?? 0,
+      actionCodeDescription: order.actionCodeDescription ?? '',
+      amount: order.amount,
+      currency: order.currency,
+      date: order.createdAt,
+      orderDescription: order.description ?? '',
+      ip: '127.0.0.1',
+      merchantOrderParams: Object.entries(order.jsonParams).map(([name, value]) => ({
+        name,
+        value,
+      })),
+      attributes: [{ name: 'mdOrder', value: order.orderId }],
+      cardAuthInfo: order.pan
+        ? {
+            expiration: '202701',
+            cardholderName: 'SIMULATOR TEST',
+            approvalCode: order.approvalCode ?? '',
+            pan: order.pan,
+          }
+        : undefined,
+      authDateTime: order.paidAt ?? undefined,
+      terminalId: order.jsonParams['force_terminal_id'],
+      paymentAmountInfo: {
+        paymentState: paymentStateOf(order.status),
+        approvedAmount: order.approvedAmount,
+        depositedAmount: order.depositedAmount,
+        refundedAmount: order.refundedAmount,
+      },
+    };
+  }
+
+  function refund(params: Params): JsonBody {
+    if (!isAuthorized(params)) {
+      return apiError(5, 'Access denied');
+    }
+    const order = orders.get(params.get('orderId') ?? '');
+    if (!order) {
+      return apiError(6, 'Unregistered OrderId');
+    }
+    const amount = parseMinor(params.get('amount'));
+    if (amount === null || amount === 0) {
+      return apiError(5, 'Invalid amount');
+    }
+    if (
+      order.status !== OrderStatus.DEPOSITED &&
+      order.status !== OrderStatus.REFUNDED
+    ) {
+      return apiError(7, 'Payment must be in a correct state');
+    }
+    if (amount > order.depositedAmount - order.refundedAmount) {
+      return apiError(5, 'Invalid amount');
+    }
+
+    order.refundedAmount += amount;
+    order.status = OrderStatus.REFUNDED;
+    return { errorCode: '0', errorMessage: 'Success' };
+  }
+
+  function deposit(params: Params): JsonBody {
+    if (!isAuthorized(params)) {
+      return apiError(5, 'Access denied');
+    }
+    const order = orders.get(params.get('orderId') ?? '');
+    if (!order) {
+      return apiError(6, 'Unregistered OrderId');
+    }
+    const requested = parseMinor(params.get('amount'));
+    if (requested === null) {
+      return apiError(5, 'Invalid amount');
+    }
+    if (!order.preAuth || order.status !== OrderStatus.APPROVED) {
+      return apiError(7, 'Payment must be in a correct state');
+    }
+    // SATIM treats 0 as "capture the full authorized amount"
+    const amount = requested === 0 ? order.approvedAmount : requested;
+    if (amount > order.approvedAmount) {
+      return apiError(7, 'Deposit amount exceeds the approved amount');
+    }
+
+    order.depositedAmount = amount;
+    order.status = OrderStatus.DEPOSITED;
+    return { errorCode: '0', errorMessage: 'Success' };
+  }
+
+  function reverse(params: Params): JsonBody {
+    if (!isAuthorized(params)) {
+      return apiError(5, 'Access denied');
+    }
+    const order = orders.get(params.get('orderId') ?? '');
+    if (!order) {
+      return apiError(6, 'Unregistered OrderId');
+    }
+    const reversible =
+      order.status === OrderStatus.APPROVED ||
+      (order.status === OrderStatus.DEPOSITED && order.refundedAmount === 0);
+    if (!reversible) {
+      return apiError(7, 'Reversal is impossible for the current payment state');
+    }
+
+    order.status = OrderStatus.REVERSED;
+    return { errorCode: '0', errorMessage: 'Success' };
+  }
+
+  /**
+   * Applies a card payment to an order and returns the redirect URL
+   */
+  function payOrder(order: SimulatedOrder, pan: string): string {
+    const outcome = findCardOutcome(pan);
+    const digits = pan.replace(/\D/g, '');
+    const approved = outcome.actionCode === 0;
+
+    order.actionCode = outcome.actionCode;
+    order.actionCodeDescription = outcome.actionCodeDescription;
+    order.svfeResponse = outcome.svfeResponse;
+    order.pan = digits.length >= 10 ? `${digits.slice(0, 6)}**${digits.slice(-4)}` : null;
+    order.paidAt = Date.now();
+
+    if (approved) {
+      order.status = order.preAuth ? OrderStatus.APPROVED : OrderStatus.DEPOSITED;
+      order.approvalCode = String(randomInt(100000, 1000000));
+      order.approvedAmount = order.amount;
+      order.depositedAmount = order.preAuth ? 0 : order.amount;
+      return redirectUrlFor(order, order.returnUrl);
+    }
+
+    order.status = outcome.orderStatus;
+    return redirectUrlFor(order, order.failUrl ?? order.returnUrl);
+  }
+
+  /**
+   * Abandons payment; the order stays registered until it expires
+   */
+  function cancelOrder(order: SimulatedOrder): string {
+    return redirectUrlFor(order, order.failUrl ?? order.returnUrl);
+  }
+
+  function renderPaymentPage(res: ServerResponse, orderId: string | null): void {
+    const order = orders.get(orderId ?? '');
+    if (!order) {
+      sendHtml(res, 404, pageHtml('Unknown order', '<p>Order not found.</p>'));
+      return;
+    }
+    if (order.status !== OrderStatus.REGISTERED_NOT_PAID) {
+      sendHtml(res, 409, pageHtml('Order unavailable', '<p>This order was already processed.</p>'));
+      return;
+    }
+
+    const amount = (order.amount / 100).toFixed(2);
+    const body = `
+<p>Order <strong>${escapeHtml(order.orderNumber)}</strong>: ${amount} DZD</p>
+${order.description ? `<p>${escapeHtml(order.description)}</p>` : ''}
+<form method="post" action="${PAGE_PATH}/submit">
+  <input type="hidden" name="mdOrder" value="${escapeHtml(order.orderId)}">
+  <label>Card number <input name="pan" autocomplete="off" value="6280581110007215"></label>
+  <label>Expiry <input name="expiry" value="01/2027"></label>
+  <label>CVV2 <input name="cvv2" value="373"></label>
+  <button type="submit" name="action" value="pay">Pay</button>
+  <button type="submit" name="action" value="cancel">Cancel</button>
+</form>`;
+    sendHtml(res, 200, pageHtml('SATIM simulator', body, order.language));
+  }
+
+  function findByOrderNumber(orderNumber: string): SimulatedOrder | undefined {
+    for (const order of orders.values()) {
+      if (order.orderNumber === orderNumber) {
+        return order;
+      }
+    }
+    return undefined;
+  }
+
+  function formUrlFor(order: SimulatedOrder): string {
+    return `${origin}${PAGE_PATH}/payment_${order.language}.html?mdOrder=${encodeURIComponent(order.orderId)}`;
+  }
+
+  function requireOrder(orderId: string): SimulatedOrder {
+    const order = orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown simulator order: ${orderId}`);
+    }
+    if (order.status !== OrderStatus.REGISTERED_NOT_PAID) {
+      throw new Error(`Simulator order ${orderId} was already processed`);
+    }
+    return order;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  origin = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+
+  return {
+    url: origin,
+    apiBaseUrl: origin + basePath,
+    paymentPageUrl: `${origin}${PAGE_PATH}/payment_{language}.html?mdOrder={mdOrder}`,
+    getOrder: (orderId) => orders.get(orderId),
+    listOrders: () => [...orders.values()],
+    pay: (orderId, pan) => {
+      const order = requireOrder(orderId);
+      const redirectUrl = payOrder(order, pan);
+      return { order, redirectUrl };
+    },
+    cancel: (orderId) => {
+      const order = requireOrder(orderId);
+      return { order, redirectUrl: cancelOrder(order) };
+    },
+    setFaults: (next) => {
+      faults = next ? createFaultSelector(next) : null;
+      faultRandom = next?.random;
+    },
+    reset: () => orders.clear(),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Builds an error body in the register/refund/status format
+ */
+function apiError(code: number, message: string): JsonBody {
+  return { errorCode: String(code), errorMessage: message };
+}
+
+/**
+ * Appends the orderId to a merchant redirect URL, as SATIM does
+ */
+function redirectUrlFor(order: SimulatedOrder, target: string): string {
+  const url = new URL(target);
+  url.searchParams.set('orderId', order.orderId);
+  return url.toString();
+}
+
+/**
+ * Maps an order status to the paymentState label of getOrderStatusExtended.do
+ */
+function paymentStateOf(status: OrderStatusCode): string {
+  switch (status) {
+    case OrderStatus.REGISTERED_NOT_PAID:
+      return 'CREATED';
+    case OrderStatus.APPROVED:
+      return 'APPROVED';
+    case OrderStatus.DEPOSITED:
+      return 'DEPOSITED';
+    case OrderStatus.REVERSED:
+      return 'REVERSED';
+    case OrderStatus.REFUNDED:
+      return 'REFUNDED';
+    default:
+      return 'DECLINED';
+  }
+}
+
+/**
+ * Parses an amount in minor units; null when invalid
+ */
+function parseMinor(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+function parseLanguage(value: string | null): SatimLanguage {
+  return value === 'en' || value === 'ar' || value === 'fr'
+    ? value
+    : DEFAULTS.LANGUAGE;
+}
+
+function parseJsonParams(value: string | null): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    const result: Record<string, string> = {};
+    for (const [key, entry] of Object.entries(parsed)) {
+      if (entry !== undefined && entry !== null) {
+        result[key] = String(entry);
+      }
+    }
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+function trimTrailingSlash(path: string): string {
+  return path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, body: JsonBody): void {
+  sendRaw(res, 'application/json; charset=utf-8', JSON.stringify(body));
+}
+
+function sendRaw(res: ServerResponse, contentType: string, body: string): void {
+  res.writeHead(200, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+function sendText(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text);
+}
+
+function sendHtml(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+function pageHtml(title: string, body: string, language: SatimLanguage = 'fr'): string {
+  const dir = language === 'ar' ? 'rtl' : 'ltr';
+  return `<!doctype html>
+<html lang="${language}" dir="${dir}">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
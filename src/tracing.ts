@@ -0,0 +1,225 @@
+import { SatimApiError, SatimError, TimeoutError } from './errors.js';
+import type {
+  Redactor,
+  SatimSpan,
+  SatimSpanAttributes,
+  SatimSpanAttributeValue,
+  SatimTracer,
+} from './types.js';
+
+/** OpenTelemetry SpanKind.INTERNAL */
+const SPAN_KIND_INTERNAL = 0;
+/** OpenTelemetry SpanKind.CLIENT */
+const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry SpanStatusCode.ERROR */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Span of a traced client call, with the retries made by its requests
+ */
+export interface OperationTrace {
+  span: SatimSpan;
+  retries: number;
+}
+
+/**
+ * Runs a client call inside an operation span named `satim.<method>`.
+ * HTTP attempt spans started while it runs become its children.
+ *
+ * @param tracer - Tracer, or undefined to run fn untraced
+ * @param method - Client method name
+ * @param attributes - Attributes describing the call (redacted by the caller)
+ * @param context - Call context, added redacted as `satim.context.*` attributes
+ * @param redactor - Redactor of the client
+ * @param fn - The call, receiving the operation trace
+ * @returns Result of fn
+ */
+export function traceOperation<T>(
+  tracer: SatimTracer | undefined,
+  method: string,
+  attributes: SatimSpanAttributes,
+  context: Record<string, unknown> | undefined,
+  redactor: Redactor,
+  fn: (trace?: OperationTrace) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+
+  const options = {
+    kind: SPAN_KIND_INTERNAL,
+    attributes: definedAttributes({
+      'satim.operation': method,
+      ...attributes,
+      ...contextAttributes(context, redactor),
+    }),
+  };
+
+  return tracer.startActiveSpan(`satim.${method}`, options, async (span) => {
+    const trace: OperationTrace = { span, retries: 0 };
+    try {
+      const result = await fn(trace);
+      span.setAttributes(
+        definedAttributes({
+          ...resultAttributes(result, redactor),
+          'satim.retry_count': trace.retries,
+        })
+      );
+      return result;
+    } catch (error) {
+      span.setAttribute('satim.retry_count', trace.retries);
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Runs an HTTP attempt inside a client span
+ *
+ * @param tracer - Tracer
+ * @param request - Method, URL (without query string) and endpoint of the attempt
+ * @param attempt - Attempt number (1-based)
+ * @param fn - The attempt, receiving its span to add response attributes
+ * @returns Result of fn
+ */
+export async function traceAttempt<T>(
+  tracer: SatimTracer,
+  request: { method: string; url: string; endpoint: string },
+  attempt: number,
+  fn: (span: SatimSpan) => Promise<T>
+): Promise<T> {
+  const span = tracer.startSpan(`${request.method} ${request.endpoint}`, {
+    kind: SPAN_KIND_CLIENT,
+    attributes: definedAttributes({
+      'http.request.method': request.method,
+      'url.full': request.url,
+      'satim.endpoint': request.endpoint,
+      'satim.attempt': attempt,
+      'http.request.resend_count': attempt > 1 ? attempt - 1 : undefined,
+    }),
+  });
+  try {
+    return await fn(span);
+  } catch (error) {
+    recordError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Records an error on a span and marks it as failed
+ */
+function recordError(span: SatimSpan, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setAttributes(
+    definedAttributes({
+      'error.type': error instanceof SatimError ? error.kind : 'UNKNOWN_ERROR',
+      'satim.error_code':
+        error instanceof SatimApiError ? error.satimErrorCode : undefined,
+      'http.response.status_code':
+        error instanceof SatimError ? error.httpStatus : undefined,
+      'satim.timeout_phase': error instanceof TimeoutError ? error.phase : undefined,
+    })
+  );
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Span attributes identifying the order of a call, partially redacted
+ *
+ * @param order - Order ID and/or order number, as passed to or returned by the call
+ * @param redactor - Redactor of the client
+ * @returns `satim.order_id` and `satim.order_number` attributes
+ */
+export function orderAttributes(
+  order: { orderId?: unknown; orderNumber?: unknown },
+  redactor: Redactor
+): SatimSpanAttributes {
+  return {
+    'satim.order_id':
+      typeof order.orderId === 'string'
+        ? String(redactor.redactValue('orderId', order.orderId))
+        : undefined,
+    'satim.order_number':
+      typeof order.orderNumber === 'string'
+        ? String(redactor.redactValue('orderNumber', order.orderNumber))
+        : undefined,
+  };
+}
+
+/**
+ * Extracts the error code, order status and order ID of a client call result
+ */
+function resultAttributes(result: unknown, redactor: Redactor): SatimSpanAttributes {
+  if (typeof result !== 'object' || result === null) {
+    return {};
+  }
+  const record = result as Record<string, unknown>;
+  return {
+    'satim.error_code': numberOrUndefined(record['errorCode']),
+    'satim.order_status': numberOrUndefined(record['orderStatus']),
+    'satim.order_id': orderAttributes(record, redactor)['satim.order_id'],
+  };
+}
+
+/**
+ * Turns the call context into `satim.context.*` attributes, redacted.
+ * Nested values are skipped.
+ */
+function contextAttributes(
+  context: Record<string, unknown> | undefined,
+  redactor: Redactor
+): SatimSpanAttributes {
+  const attributes: SatimSpanAttributes = {};
+  if (!context) {
+    return attributes;
+  }
+  const redacted = redactor.redactObject(context) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(redacted)) {
+    if (isAttributeValue(value)) {
+      attributes[`satim.context.${key}`] = value;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Drops undefined attributes, which OpenTelemetry rejects
+ */
+function definedAttributes(
+  attributes: SatimSpanAttributes
+): Record<string, SatimSpanAttributeValue> {
+  const defined: Record<string, SatimSpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  return defined;
+}
+
+/**
+ * Checks whether a value can be used as a span attribute
+ */
+function isAttributeValue(value: unknown): value is SatimSpanAttributeValue {
+  return (
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+  );
+}
+
+/**
+ * Returns numbers as is, anything else as undefined
+ */
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
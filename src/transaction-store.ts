@@ -0,0 +1,737 @@
+import { appendFile, readFile, truncate } from 'node:fs/promises';
+import { SatimApiError, TransactionStoreError, ValidationError } from './errors.js';
+import { fromMinorUnits, toMinorUnits } from './amount.js';
+import { OrderStatus } from './types.js';
+import type { SatimClient } from './client.js';
+import type {
+  CallOptions,
+  ConfirmOrderResponse,
+  GetOrderStatusResponse,
+  SatimLanguage,
+  SatimMiddleware,
+  SatimTransaction,
+  SatimTransactionEvent,
+  SatimTransactionStatus,
+  SatimTransactionStore,
+  SqliteDatabase,
+  TransactionStoreOptions,
+} from './types.js';
+
+/**
+ * Applies an event to a transaction. Stores use this to keep their
+ * transactions consistent, whatever the backend.
+ *
+ * @param current - Transaction before the event, undefined for a new order
+ * @param event - Event to apply
+ * @returns New transaction; current is left unchanged
+ */
+export function applyTransactionEvent(
+  current: SatimTransaction | undefined,
+  event: SatimTransactionEvent
+): SatimTransaction {
+  const next: SatimTransaction = current
+    ? {
+        ...current,
+        refunds: [...current.refunds],
+        transitions: [...current.transitions],
+      }
+    : {
+        orderId: event.orderId,
+        orderNumber: null,
+        amount: null,
+        depositedAmount: null,
+        currency: null,
+        status: 'registered',
+        orderStatus: null,
+        refundedAmount: '0',
+        refunds: [],
+        transitions: [],
+        createdAt: event.at,
+        updatedAt: event.at,
+      };
+
+  let status: SatimTransactionStatus | undefined;
+  switch (event.type) {
+    case 'registered':
+      next.orderNumber = event.orderNumber;
+      next.amount = event.amount;
+      next.currency = event.currency;
+      // A late registration record must not undo later transitions
+      status = current ? undefined : 'registered';
+      break;
+    case 'status':
+      next.orderNumber = event.orderNumber ?? next.orderNumber;
+      next.amount = event.amount ?? next.amount;
+      next.currency = event.currency ?? next.currency;
+      next.depositedAmount = event.depositedAmount ?? next.depositedAmount;
+      if (
+        event.refundedAmount !== undefined &&
+        BigInt(event.refundedAmount) > BigInt(next.refundedAmount)
+      ) {
+        next.refundedAmount = event.refundedAmount;
+      }
+      next.orderStatus = event.orderStatus;
+      status = statusFromOrderStatus(event.orderStatus, next);
+      break;
+    case 'refunded':
+      next.refunds.push({ amount: event.amount, at: event.at });
+      next.refundedAmount = (BigInt(next.refundedAmount) + BigInt(event.amount)).toString();
+      status = refundStatus(next);
+      break;
+  }
+
+  if (status === undefined && !current) {
+    status = 'registered';
+  }
+  if (status !== undefined && (!current || status !== current.status)) {
+    next.transitions.push({
+      from: current?.status ?? null,
+      to: status,
+      operation: event.operation,
+      at: event.at,
+    });
+    next.status = status;
+  }
+  next.updatedAt = event.at;
+  return next;
+}
+
+/**
+ * Maps a SATIM order status to a transaction status; undefined for statuses
+ * that do not change the payment state (card binding, recurring...)
+ */
+function statusFromOrderStatus(
+  orderStatus: number,
+  transaction: SatimTransaction
+): SatimTransactionStatus | undefined {
+  switch (orderStatus) {
+    case OrderStatus.REGISTERED_NOT_PAID:
+      return 'registered';
+    case OrderStatus.APPROVED:
+      return 'approved';
+    case OrderStatus.DEPOSITED:
+      return 'paid';
+    case OrderStatus.REVERSED:
+      return 'reversed';
+    case OrderStatus.REFUNDED:
+      // SATIM reports partial refunds as refunded too
+      return BigInt(transaction.refundedAmount) > 0n ? refundStatus(transaction) : 'refunded';
+    case OrderStatus.DECLINED:
+    case OrderStatus.UNKNOWN_DECLINE:
+      return 'declined';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Status of a transaction after refunds, comparing the refunded and captured amounts
+ */
+function refundStatus(transaction: SatimTransaction): SatimTransactionStatus {
+  const captured = transaction.depositedAmount ?? transaction.amount;
+  return captured !== null && BigInt(transaction.refundedAmount) >= BigInt(captured)
+    ? 'refunded'
+    : 'partially_refunded';
+}
+
+/**
+ * Amount of a transaction that can still be refunded, in minor units
+ */
+function refundableAmount(transaction: SatimTransaction): bigint {
+  const captured = transaction.depositedAmount ?? transaction.amount;
+  if (captured === null || !isCaptured(transaction)) {
+    return 0n;
+  }
+  const remaining = BigInt(captured) - BigInt(transaction.refundedAmount);
+  return remaining > 0n ? remaining : 0n;
+}
+
+/**
+ * Whether SATIM captured the funds of a transaction
+ */
+function isCaptured(transaction: SatimTransaction): boolean {
+  return (
+    transaction.status === 'paid' ||
+    transaction.status === 'partially_refunded' ||
+    transaction.status === 'refunded'
+  );
+}
+
+/**
+ * Amount in minor units when SATIM reported a positive one
+ */
+function positiveAmount(amount: number | null): string | undefined {
+  return amount !== null && amount > 0 ? String(amount) : undefined;
+}
+
+/**
+ * Status event for a getOrderStatus response, or undefined when SATIM did not
+ * report an order status
+ */
+function orderStatusEvent(
+  requestedOrderId: string | undefined,
+  response: GetOrderStatusResponse,
+  at: string
+): SatimTransactionEvent | undefined {
+  const orderId = response.orderId ?? requestedOrderId;
+  if (!response.isSuccessful() || !orderId || response.orderStatus === null) {
+    return undefined;
+  }
+  return {
+    type: 'status',
+    operation: 'getOrderStatus',
+    orderId,
+    orderStatus: response.orderStatus,
+    orderNumber: response.orderNumber ?? undefined,
+    amount: response.amount === null ? undefined : String(response.amount),
+    currency: response.currency ?? undefined,
+    depositedAmount: positiveAmount(response.depositedAmount),
+    refundedAmount: positiveAmount(response.refundedAmount),
+    at,
+  };
+}
+
+/**
+ * Creates an in-memory transaction store. Transactions are lost when the
+ * process exits; use it for tests and single-process prototypes.
+ */
+export function createMemoryTransactionStore(): SatimTransactionStore {
+  const transactions = new Map<string, SatimTransaction>();
+
+  return {
+    record(event) {
+      const transaction = applyTransactionEvent(transactions.get(event.orderId), event);
+      transactions.set(event.orderId, transaction);
+      return structuredClone(transaction);
+    },
+    get(orderId) {
+      const transaction = transactions.get(orderId);
+      return transaction && structuredClone(transaction);
+    },
+    findByOrderNumber(orderNumber) {
+      return findByOrderNumber(transactions.values(), orderNumber);
+    },
+    list() {
+      return [...transactions.values()].map((transaction) => structuredClone(transaction));
+    },
+  };
+}
+
+/**
+ * Creates a transaction store appending every event as one JSON line to a
+ * file. The file is read once on first use and transactions are rebuilt from
+ * its events, so it doubles as an audit log. An incomplete last line, left by
+ * a crash while appending, is removed when the file is read. Only one process
+ * may write to the file.
+ *
+ * @param filePath - Path of the JSONL file, created on the first event
+ * @returns Transaction store
+ *
+ * @example
+ * const store = createJsonlTransactionStore('./data/satim-transactions.jsonl');
+ */
+export function createJsonlTransactionStore(filePath: string): SatimTransactionStore {
+  let loading: Promise<Map<string, SatimTransaction>> | undefined;
+  // Appends run one after the other so that the file keeps the event order
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const load = () =>
+    (loading ??= readEvents(filePath).catch((error: unknown) => {
+      // Read again on the next call rather than failing for good
+      loading = undefined;
+      throw error;
+    }));
+
+  return {
+    async record(event) {
+      const transactions = await load();
+      const written = writing.then(async () => {
+        await appendFile(filePath, `${JSON.stringify(event)}\n`, 'utf8');
+        const transaction = applyTransactionEvent(transactions.get(event.orderId), event);
+        transactions.set(event.orderId, transaction);
+        return structuredClone(transaction);
+      });
+      writing = written.catch(() => undefined);
+      return written;
+    },
+    async get(orderId) {
+      await writing;
+      const transaction = (await load()).get(orderId);
+      return transaction && structuredClone(transaction);
+    },
+    async findByOrderNumber(orderNumber) {
+      await writing;
+      return findByOrderNumber((await load()).values(), orderNumber);
+    },
+    async list() {
+      await writing;
+      return [...(await load()).values()].map((transaction) => structuredClone(transaction));
+    },
+  };
+}
+
+/**
+ * Rebuilds transactions from a JSONL event file. An incomplete last line is
+ * truncated away so that the next event starts on a line of its own.
+ */
+async function readEvents(filePath: string): Promise<Map<string, SatimTransaction>> {
+  const transactions = new Map<string, SatimTransaction>();
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return transactions;
+    }
+    throw error;
+  }
+
+  const lines = content.split('\n');
+  // Text after the last newline was not fully written
+  const incomplete = lines.pop() ?? '';
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let event: SatimTransactionEvent;
+    try {
+      event = JSON.parse(line) as SatimTransactionEvent;
+    } catch (error) {
+      throw new Error(`Invalid transaction event on line ${index + 1} of ${filePath}`, {
+        cause: error,
+      });
+    }
+    transactions.set(
+      event.orderId,
+      applyTransactionEvent(transactions.get(event.orderId), event)
+    );
+  });
+  if (incomplete !== '') {
+    await truncate(filePath, Buffer.byteLength(content) - Buffer.byteLength(incomplete));
+  }
+  return transactions;
+}
+
+/**
+ * Creates a transaction store backed by SQLite. Pass an open database from
+ * better-sqlite3 or node:sqlite; the SDK does not depend on either. The
+ * `satim_transactions` and `satim_transaction_events` tables are created if
+ * missing.
+ *
+ * @param db - Open SQLite database
+ * @returns Transaction store
+ *
+ * @example
+ * import Database from 'better-sqlite3';
+ *
+ * const store = createSqliteTransactionStore(new Database('satim.db'));
+ */
+export function createSqliteTransactionStore(db: SqliteDatabase): SatimTransactionStore {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS satim_transactions (
+      order_id TEXT PRIMARY KEY,
+      order_number TEXT,
+      status TEXT NOT NULL,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS satim_transactions_order_number
+      ON satim_transactions (order_number);
+    CREATE TABLE IF NOT EXISTS satim_transaction_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      data TEXT NOT NULL,
+      at TEXT NOT NULL
+    );
+  `);
+
+  const selectById = db.prepare('SELECT data FROM satim_transactions WHERE order_id = ?');
+  const selectByOrderNumber = db.prepare(
+    'SELECT data FROM satim_transactions WHERE order_number = ? ORDER BY updated_at DESC'
+  );
+  const selectAll = db.prepare('SELECT data FROM satim_transactions ORDER BY updated_at');
+  const upsert = db.prepare(`
+    INSERT INTO satim_transactions (order_id, order_number, status, data, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (order_id) DO UPDATE SET
+      order_number = excluded.order_number,
+      status = excluded.status,
+      data = excluded.data,
+      updated_at = excluded.updated_at
+  `);
+  const insertEvent = db.prepare(
+    'INSERT INTO satim_transaction_events (order_id, type, data, at) VALUES (?, ?, ?, ?)'
+  );
+
+  const parse = (row: unknown): SatimTransaction =>
+    JSON.parse((row as { data: string }).data) as SatimTransaction;
+  // get() returns undefined when no row matches
+  const parseFound = (row: unknown): SatimTransaction | undefined =>
+    row ? parse(row) : undefined;
+
+  return {
+    record(event) {
+      db.exec('BEGIN');
+      try {
+        const current = parseFound(selectById.get(event.orderId));
+        const transaction = applyTransactionEvent(current, event);
+        upsert.run(
+          transaction.orderId,
+          transaction.orderNumber,
+          transaction.status,
+          JSON.stringify(transaction),
+          transaction.updatedAt
+        );
+        insertEvent.run(event.orderId, event.type, JSON.stringify(event), event.at);
+        db.exec('COMMIT');
+        return transaction;
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    get(orderId) {
+      return parseFound(selectById.get(orderId));
+    },
+    findByOrderNumber(orderNumber) {
+      return parseFound(selectByOrderNumber.get(orderNumber));
+    },
+    list() {
+      return selectAll.all().map(parse);
+    },
+  };
+}
+
+/**
+ * Finds the most recently updated transaction with an order number
+ */
+function findByOrderNumber(
+  transactions: Iterable<SatimTransaction>,
+  orderNumber: string
+): SatimTransaction | undefined {
+  let found: SatimTransaction | undefined;
+  for (const transaction of transactions) {
+    if (
+      transaction.orderNumber === orderNumber &&
+      (!found || transaction.updatedAt >= found.updatedAt)
+    ) {
+      found = transaction;
+    }
+  }
+  return found && structuredClone(found);
+}
+
+/**
+ * Client recording its calls in a transaction store and checking refunds
+ * against the recorded balance of the order
+ */
+export interface TransactionStoreClient extends SatimClient {
+  /**
+   * Returns how much of an order can still be refunded: the captured amount
+   * minus the refunds, or 0 if the order is not paid. The order is looked up
+   * with getOrderStatus() first, so refunds SATIM applied without this client
+   * recording them are included.
+   *
+   * @param orderId - Order ID
+   * @param options - Language override, or call options for the status lookup
+   * @returns Refundable amount in DZD
+   */
+  getRefundableAmount(
+    orderId: string,
+    options?: SatimLanguage | CallOptions
+  ): Promise<number>;
+
+  /**
+   * Adds middleware to the wrapped client
+   *
+   * @returns This client, for chaining
+   */
+  use(middleware: SatimMiddleware): TransactionStoreClient;
+}
+
+/**
+ * Wraps a client so that the results of its calls are recorded in a
+ * transaction store: registrations, confirmations (including declines),
+ * status lookups, deposits, reversals and refunds.
+ *
+ * Only successful calls and declines are recorded. Recording happens after
+ * the SATIM call, so when it fails the call has already gone through: unless
+ * options.onError handles the failure, a TransactionStoreError is thrown with
+ * the result of the call in `response`. Do not retry a call that threw it; a
+ * retried refund would refund the customer twice.
+ *
+ * Before a refund the order is looked up with getOrderStatus() and the refund
+ * is checked against the captured amount minus the refunds, as recorded or as
+ * reported by SATIM, whichever is higher. Refunds of the same order run one at
+ * a time so that two of them cannot both pass the check.
+ *
+ * @param client - Client to wrap
+ * @param store - Where transactions are recorded
+ * @param options - Error handling
+ * @returns Client with the same methods, recording their results
+ *
+ * @example
+ * const client = withTransactionStore(
+ *   createSatimClient(fromEnv()),
+ *   createJsonlTransactionStore('./satim-transactions.jsonl')
+ * );
+ */
+export function withTransactionStore(
+  client: SatimClient,
+  store: SatimTransactionStore,
+  options: TransactionStoreOptions = {}
+): TransactionStoreClient {
+  const record = async (event: SatimTransactionEvent, response: unknown) => {
+    try {
+      await store.record(event);
+    } catch (error) {
+      if (options.onError) {
+        options.onError(error, event);
+        return;
+      }
+      throw new TransactionStoreError(
+        `The ${event.operation} result could not be recorded in the transaction store`,
+        response,
+        event,
+        error instanceof Error ? error : undefined
+      );
+    }
+  };
+  const now = () => new Date().toISOString();
+  // Last refund of each order, chained so that refunds run one at a time
+  const refunds = new Map<string, Promise<unknown>>();
+
+  const recordConfirmation = (
+    orderId: string,
+    confirmation: ConfirmOrderResponse,
+    response: unknown
+  ) =>
+    confirmation.orderStatus === null
+      ? undefined
+      : record(
+          {
+            type: 'status',
+            operation: 'confirm',
+            orderId,
+            orderStatus: confirmation.orderStatus,
+            orderNumber: confirmation.orderNumber ?? undefined,
+            amount: confirmation.amount === null ? undefined : String(confirmation.amount),
+            currency: confirmation.raw.currency,
+            depositedAmount: positiveAmount(confirmation.depositAmount),
+            at: now(),
+          },
+          response
+        );
+
+  const recordDecline = (orderId: string, response: unknown) =>
+    record(
+      {
+        type: 'status',
+        operation: 'confirm',
+        orderId,
+        orderStatus: OrderStatus.DECLINED,
+        at: now(),
+      },
+      response
+    );
+
+  const getRefundable = async (
+    orderId: string,
+    callOptions?: SatimLanguage | CallOptions
+  ): Promise<bigint> => {
+    // SATIM's figures include refunds that went through without being
+    // recorded, e.g. when the response to an earlier refund was lost
+    const status = await client.getOrderStatus({ orderId }, callOptions);
+    const event = orderStatusEvent(orderId, status, now());
+    let transaction = await store.get(orderId);
+    if (event) {
+      await record(event, status);
+      transaction = applyTransactionEvent(transaction, event);
+    }
+    return transaction ? refundableAmount(transaction) : 0n;
+  };
+
+  const refund = async (
+    orderId: string,
+    amountDzd: number | string | bigint,
+    callOptions?: SatimLanguage | CallOptions
+  ) => {
+    const amount = toMinorUnits(amountDzd);
+    const refundable = await getRefundable(orderId, callOptions);
+    if (BigInt(amount) > refundable) {
+      const details = {
+        orderId,
+        amount: fromMinorUnits(amount),
+        refundable: fromMinorUnits(refundable.toString()),
+      };
+      throw new ValidationError(
+        `Refund of ${details.amount} DZD exceeds the refundable amount of ${details.refundable} DZD`,
+        'REFUND_EXCEEDS_BALANCE',
+        details
+      );
+    }
+
+    const response = await client.refund(orderId, amountDzd, callOptions);
+    if (response.isSuccessful()) {
+      await record({ type: 'refunded', operation: 'refund', orderId, amount, at: now() }, response);
+    }
+    return response;
+  };
+
+  const wrapped: TransactionStoreClient = {
+    ...client,
+
+    async register(params, callOptions) {
+      const response = await client.register(params, callOptions);
+      if (response.isSuccessful() && response.orderId) {
+        await record(
+          {
+            type: 'registered',
+            operation: 'register',
+            orderId: response.orderId,
+            orderNumber: params.orderNumber,
+            amount: toMinorUnits(params.amount),
+            currency: params.currency ?? null,
+            at: now(),
+          },
+          response
+        );
+      }
+      return response;
+    },
+
+    async registerPreAuth(params, callOptions) {
+      const response = await client.registerPreAuth(params, callOptions);
+      if (response.isSuccessful() && response.orderId) {
+        await record(
+          {
+            type: 'registered',
+            operation: 'registerPreAuth',
+            orderId: response.orderId,
+            orderNumber: params.orderNumber,
+            amount: toMinorUnits(params.amount),
+            currency: params.currency ?? null,
+            at: now(),
+          },
+          response
+        );
+      }
+      return response;
+    },
+
+    async confirm(mdOrder, callOptions) {
+      try {
+        const response = await client.confirm(mdOrder, callOptions);
+        await recordConfirmation(mdOrder, response, response);
+        return response;
+      } catch (error) {
+        // Declined confirmations are thrown with the order status in the details
+        const orderStatus =
+          error instanceof SatimApiError ? error.details?.['orderStatus'] : undefined;
+        if (typeof orderStatus === 'number') {
+          await record(
+            {
+              type: 'status',
+              operation: 'confirm',
+              orderId: mdOrder,
+              orderStatus,
+              at: now(),
+            },
+            error
+          );
+        }
+        throw error;
+      }
+    },
+
+    async verifyPayment(mdOrder, expected, callOptions) {
+      const result = await client.verifyPayment(mdOrder, expected, callOptions);
+      if (result.confirmation) {
+        await recordConfirmation(mdOrder, result.confirmation, result);
+      } else if (result.status === 'declined') {
+        await recordDecline(mdOrder, result);
+      }
+      return result;
+    },
+
+    async handleReturn(request, callOptions) {
+      const result = await client.handleReturn(request, callOptions);
+      if (result.status !== 'error') {
+        if (result.confirmation) {
+          await recordConfirmation(result.orderId, result.confirmation, result);
+        } else if (result.status === 'declined') {
+          await recordDecline(result.orderId, result);
+        }
+      }
+      return result;
+    },
+
+    async getOrderStatus(params, callOptions) {
+      const response = await client.getOrderStatus(params, callOptions);
+      const event = orderStatusEvent(params.orderId, response, now());
+      if (event) {
+        await record(event, response);
+      }
+      return response;
+    },
+
+    async deposit(orderId, amountDzd, callOptions) {
+      const response = await client.deposit(orderId, amountDzd, callOptions);
+      if (response.isSuccessful()) {
+        await record(
+          {
+            type: 'status',
+            operation: 'deposit',
+            orderId,
+            orderStatus: OrderStatus.DEPOSITED,
+            depositedAmount: toMinorUnits(amountDzd),
+            at: now(),
+          },
+          response
+        );
+      }
+      return response;
+    },
+
+    async reverse(orderId, callOptions) {
+      const response = await client.reverse(orderId, callOptions);
+      if (response.isSuccessful()) {
+        await record(
+          {
+            type: 'status',
+            operation: 'reverse',
+            orderId,
+            orderStatus: OrderStatus.REVERSED,
+            at: now(),
+          },
+          response
+        );
+      }
+      return response;
+    },
+
+    refund(orderId, amountDzd, callOptions) {
+      const previous = refunds.get(orderId) ?? Promise.resolve();
+      const result = previous.then(() => refund(orderId, amountDzd, callOptions));
+      const settled = result.catch(() => undefined);
+      refunds.set(orderId, settled);
+      void settled.then(() => {
+        if (refunds.get(orderId) === settled) {
+          refunds.delete(orderId);
+        }
+      });
+      return result;
+    },
+
+    async getRefundableAmount(orderId, callOptions) {
+      return fromMinorUnits((await getRefundable(orderId, callOptions)).toString());
+    },
+
+    use(middleware) {
+      client.use(middleware);
+      return wrapped;
+    },
+  };
+  return wrapped;
+}
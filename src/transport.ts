@@ -0,0 +1,60 @@
+import { ConfigError } from './errors.js';
+
+/**
+ * Fetch function used to send requests to the Satim API
+ */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Creates a fetch function that enforces a connect timeout (DNS lookup, TCP
+ * connection and TLS handshake) through a dedicated undici agent.
+ *
+ * undici is an optional peer dependency, loaded on the first request, so
+ * clients that never send one do not pay for it.
+ *
+ * @param connectTimeoutMs - Connect timeout in milliseconds
+ * @returns Fetch function
+ */
+export function createConnectTimeoutFetch(connectTimeoutMs: number): FetchFn {
+  let transport: Promise<FetchFn> | undefined;
+
+  return async (url, init) => {
+    transport ??= loadTransport(connectTimeoutMs);
+    return (await transport)(url, init);
+  };
+}
+
+/**
+ * Loads undici and binds its fetch to an agent with the connect timeout
+ */
+async function loadTransport(connectTimeoutMs: number): Promise<FetchFn> {
+  let undici: typeof import('undici');
+  try {
+    undici = await import('undici');
+  } catch {
+    throw new ConfigError(
+      'http.connectTimeoutMs requires the undici package: install it, or leave connectTimeoutMs at its default'
+    );
+  }
+  const dispatcher = new undici.Agent({ connect: { timeout: connectTimeoutMs } });
+
+  return async (url, init) => {
+    const response = await undici.fetch(url, {
+      ...(init as Parameters<typeof undici.fetch>[1]),
+      dispatcher,
+    });
+    return response as unknown as Response;
+  };
+}
+
+/**
+ * Checks whether a fetch failure is an undici connect timeout
+ */
+export function isConnectTimeout(error: unknown): boolean {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return (
+    typeof cause === 'object' &&
+    cause !== null &&
+    (cause as { code?: unknown }).code === 'UND_ERR_CONNECT_TIMEOUT'
+  );
+}
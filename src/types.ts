@@ -1,3 +1,5 @@
+import type { SatimError, SatimOperation } from './errors.js';
+
 /**
  * Supported languages for Satim API
  */
@@ -16,6 +18,8 @@ export interface SatimLogger {
   info(obj: Record<string, unknown>, msg?: string): void;
   warn(obj: Record<string, unknown>, msg?: string): void;
   error(obj: Record<string, unknown>, msg?: string): void;
+  /** Creates a logger adding bindings to every entry (built-in logger and adapters) */
+  child?(bindings: Record<string, unknown>): SatimLogger;
 }
 
 /**
@@ -23,6 +27,407 @@ export interface SatimLogger {
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Output format of the built-in logger
+ * - text: `[time] [satim] [LEVEL] message: {...}` lines
+ * - json: one JSON object per line (JSON lines), written to stdout
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Pino or bunyan logger, as accepted by fromPino() and fromBunyan().
+ * Both take the merge object first and the message second.
+ */
+export interface PinoLikeLogger {
+  debug(obj: Record<string, unknown>, msg?: string): void;
+  info(obj: Record<string, unknown>, msg?: string): void;
+  warn(obj: Record<string, unknown>, msg?: string): void;
+  error(obj: Record<string, unknown>, msg?: string): void;
+  child(bindings: Record<string, unknown>): PinoLikeLogger;
+}
+
+/**
+ * Bunyan logger, as accepted by fromBunyan()
+ */
+export type BunyanLikeLogger = PinoLikeLogger;
+
+/**
+ * Winston logger, as accepted by fromWinston()
+ */
+export interface WinstonLikeLogger {
+  log(level: string, message: string, meta: Record<string, unknown>): unknown;
+  child(defaultMeta: Record<string, unknown>): WinstonLikeLogger;
+  /** Levels of the logger, used to detect syslog levels (`warning`) */
+  levels?: Record<string, number>;
+}
+
+/**
+ * Options of the logger adapters
+ */
+export interface LoggerAdapterOptions {
+  /** Level or method name of the wrapped logger for each SDK level, e.g. `{ warn: 'warning' }` */
+  levels?: Partial<Record<LogLevel, string>>;
+}
+
+/**
+ * When a failed call may be repeated
+ *
+ * - 'always': retry any transient failure
+ * - 'never': never retry
+ * - 'idempotent': retry only when the call has an idempotencyKey
+ * - 'verify': retry only after an order status lookup shows the failed attempt
+ *   had no effect (supported for refund, deposit and reverse)
+ */
+export type RetryRule = 'always' | 'never' | 'idempotent' | 'verify';
+
+/**
+ * Options accepted by every SatimClient method
+ */
+export interface CallOptions {
+  /** Aborts the call, including queued requests, retries and backoff delays */
+  signal?: AbortSignal;
+  /** Timeout of each HTTP attempt in milliseconds (default: http.timeoutMs) */
+  timeoutMs?: number;
+  /** Language of this call (default: the client's language) */
+  language?: SatimLanguage;
+  /** Free-form data passed to the hooks and added (redacted) to the logs, e.g. a request ID */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Request context set with runWithContext(), attached to the logs, hooks,
+ * error details and spans of every call made in its scope
+ */
+export interface SatimRequestContext {
+  /** ID tying SDK activity to the request of your application that caused it */
+  correlationId?: string;
+  /** Merchant on whose behalf the calls are made */
+  merchantId?: string;
+  /** Any other values to propagate */
+  [key: string]: unknown;
+}
+
+/**
+ * Information passed to the onRetry hook
+ */
+export interface RetryInfo {
+  /** The API endpoint being called */
+  endpoint: string;
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** The error that caused the retry */
+  error: SatimError;
+  /** Context of the call */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Retry configuration options
+ */
+export interface RetryConfig {
+  /** Maximum attempts per call, including the first one (default: 1, i.e. no retries) */
+  maxAttempts?: number;
+  /** Initial backoff delay in milliseconds, doubled on each retry (default: 200) */
+  baseDelayMs?: number;
+  /** Maximum backoff delay in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses considered transient (default: 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /**
+   * Per-operation retry rules, merged over the defaults:
+   * confirm and getOrderStatus 'always', register and registerPreAuth 'idempotent',
+   * refund, deposit and reverse 'verify'.
+   */
+  rules?: Partial<Record<SatimOperation, RetryRule>>;
+  /**
+   * Hook called before each retry.
+   * Useful for logging or metrics.
+   */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Rate limit for calls to the Satim API
+ */
+export interface RateLimitConfig {
+  /** Sustained request rate (token bucket refill rate); unlimited when omitted */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once before the rate applies (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /** Maximum requests in flight at the same time; unlimited when omitted */
+  maxConcurrent?: number;
+}
+
+/**
+ * Rate limiting configuration. The top-level limits are shared by all
+ * operations; per-operation limits apply on top of them.
+ */
+export interface HttpRateLimitConfig extends RateLimitConfig {
+  /** Additional limits per operation */
+  operations?: Partial<Record<SatimOperation, RateLimitConfig>>;
+}
+
+/**
+ * Information about a request attempt passed to the onRequest/onResponse hooks
+ */
+export interface RequestAttemptInfo {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Calls already waiting for the rate limiter when this attempt was queued */
+  queueDepth: number;
+  /** Time spent waiting for the rate limiter in milliseconds */
+  queueWaitMs: number;
+  /** Context of the call */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Circuit breaker state
+ *
+ * - 'closed': requests flow normally
+ * - 'open': requests fail fast with CircuitOpenError
+ * - 'half-open': a limited number of trial requests decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Information passed to the circuit breaker onStateChange hook
+ */
+export interface CircuitStateChange {
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+}
+
+/**
+ * Circuit breaker configuration. The circuit opens on consecutive transport
+ * failures (HttpError, TimeoutError) or when the error rate is too high.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Failure ratio (0-1) in the window that opens the circuit (default: 0.5) */
+  errorRateThreshold?: number;
+  /** Requests needed in the window before the error rate applies (default: 10) */
+  minimumRequests?: number;
+  /** Error rate window in milliseconds, tracked in 10 buckets (default: 60000) */
+  windowMs?: number;
+  /** Time the circuit stays open before letting a trial request through (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Trial requests allowed at once while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Hook called on every state change */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Outcome of one request admitted by the circuit breaker.
+ * Only the first call counts; later calls are ignored.
+ */
+export interface CircuitPermit {
+  /** The request reached SATIM and got a response */
+  success(): void;
+  /** The request failed at the transport level */
+  failure(): void;
+  /** The request never reached SATIM; does not count either way */
+  release(): void;
+}
+
+/**
+ * Circuit breaker created by createCircuitBreaker()
+ */
+export interface CircuitBreaker {
+  /** Current state */
+  getState(): CircuitState;
+  /** Milliseconds until an open circuit lets a trial request through (0 when not open) */
+  getRetryAfterMs(): number;
+  /** Admits one request, or returns null when the circuit rejects it */
+  tryAcquire(): CircuitPermit | null;
+  /** Closes the circuit and clears its statistics */
+  reset(): void;
+}
+
+/**
+ * Metric labels
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives the metrics recorded by createMetricsMiddleware().
+ * Implement it to send metrics to StatsD, OpenTelemetry or another backend.
+ */
+export interface MetricsSink {
+  /** Adds value (default: 1) to a counter */
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  /** Records an observation in a histogram */
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Metrics sink that keeps metrics in memory and renders them for Prometheus
+ */
+export interface PrometheusRegistry extends MetricsSink {
+  /** Content type of the rendered metrics */
+  readonly contentType: string;
+  /** Renders all metrics in the Prometheus text exposition format */
+  render(): string;
+  /** Clears all metrics */
+  reset(): void;
+}
+
+/**
+ * Options for createPrometheusRegistry
+ */
+export interface PrometheusRegistryOptions {
+  /** Upper bounds of histogram buckets (default: DEFAULTS.METRICS_DURATION_BUCKETS) */
+  buckets?: readonly number[];
+}
+
+/**
+ * HTTP attempt described in diagnostics channel messages, redacted
+ */
+export interface SatimDiagnosticsRequest {
+  /** SDK operation making the request */
+  operation: SatimOperation;
+  /** Endpoint path */
+  endpoint: string;
+  /** HTTP method */
+  method: HttpMethod;
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Request parameters, redacted */
+  params: Record<string, unknown>;
+  /** Call context, redacted */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Message published on `satim:request:start` before an attempt
+ */
+export interface SatimRequestStartMessage {
+  request: SatimDiagnosticsRequest;
+}
+
+/**
+ * Message published on `satim:request:end` after an attempt got a response
+ */
+export interface SatimRequestEndMessage {
+  /** Same object as in the start message */
+  request: SatimDiagnosticsRequest;
+  /** HTTP status code */
+  statusCode: number;
+  /** Duration of the attempt in milliseconds */
+  durationMs: number;
+  /** SATIM error code of the response, if any */
+  satimErrorCode?: number;
+}
+
+/**
+ * Message published on `satim:request:error` when an attempt failed
+ */
+export interface SatimRequestErrorMessage {
+  /** Same object as in the start message */
+  request: SatimDiagnosticsRequest;
+  /** Error thrown by the attempt */
+  error: unknown;
+  /** Duration of the attempt in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Message published on `satim:request:retry` before a failed attempt is retried
+ */
+export interface SatimRequestRetryMessage {
+  /** The attempt that failed */
+  request: SatimDiagnosticsRequest;
+  /** Error of the failed attempt */
+  error: SatimError;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Span attribute value
+ */
+export type SatimSpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes; undefined values are skipped
+ */
+export type SatimSpanAttributes = Record<string, SatimSpanAttributeValue | undefined>;
+
+/**
+ * Options for starting a span (subset of OpenTelemetry SpanOptions)
+ */
+export interface SatimSpanOptions {
+  /** Span kind, as OpenTelemetry SpanKind (0 = internal, 2 = client) */
+  kind?: number;
+  /** Initial attributes */
+  attributes?: SatimSpanAttributes;
+}
+
+/**
+ * Span created by a SatimTracer (subset of the OpenTelemetry Span API)
+ */
+export interface SatimSpan {
+  setAttribute(key: string, value: SatimSpanAttributeValue): unknown;
+  setAttributes(attributes: SatimSpanAttributes): unknown;
+  addEvent(name: string, attributes?: SatimSpanAttributes): unknown;
+  recordException(exception: Error): unknown;
+  /** Status code as OpenTelemetry SpanStatusCode (2 = error) */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Tracer used to trace Satim calls. An OpenTelemetry Tracer from
+ * `trace.getTracer()` fits this interface.
+ */
+export interface SatimTracer {
+  /** Starts a span that is a child of the active span */
+  startSpan(name: string, options?: SatimSpanOptions): SatimSpan;
+  /** Starts a span and makes it the active span while fn runs */
+  startActiveSpan<T>(
+    name: string,
+    options: SatimSpanOptions,
+    fn: (span: SatimSpan) => T
+  ): T;
+}
+
+/**
+ * Request passed through the middleware pipeline.
+ * params and headers may be modified before calling next().
+ */
+export interface SatimMiddlewareRequest {
+  /** SDK operation making the call */
+  readonly operation: SatimOperation;
+  /** Endpoint path */
+  readonly endpoint: string;
+  /** Request parameters, including the merchant credentials - never log them as is */
+  params: Record<string, string>;
+  /** Extra HTTP headers sent with each attempt */
+  headers: Record<string, string>;
+  /** Context from the call options */
+  readonly context?: Record<string, unknown>;
+}
+
+/**
+ * Middleware around Satim API calls, registered with client.use().
+ *
+ * next() sends the request (including retries) and resolves with the parsed
+ * SATIM response. Return it, a transformed copy, or skip next() and return a
+ * response of your own, e.g. from a cache.
+ */
+export type SatimMiddleware = (
+  request: SatimMiddlewareRequest,
+  next: () => Promise<unknown>
+) => Promise<unknown>;
+
 /**
  * HTTP configuration options
  */
@@ -31,12 +436,22 @@ export interface HttpConfig {
   method?: HttpMethod;
   /** Request timeout in milliseconds (default: 30000) */
   timeoutMs?: number;
-  /** Connection timeout in milliseconds (default: 10000) - best effort */
+  /**
+   * Connection timeout in milliseconds, covering the DNS lookup, TCP connection
+   * and TLS handshake (default: 10000). Other values send requests through an
+   * undici agent with this connect timeout, which needs the optional `undici`
+   * package. Ignored when a custom fetch is provided.
+   */
   connectTimeoutMs?: number;
+  /** Time allowed for the response headers after the request is sent, in milliseconds */
+  headersTimeoutMs?: number;
+  /** Time allowed for reading the response body once headers arrived, in milliseconds */
+  bodyTimeoutMs?: number;
   /**
    * Custom fetch function for making HTTP requests.
    * Use this to integrate with custom HTTP clients or add middleware.
-   * If not provided, the global fetch is used.
+   * If not provided, the global fetch is used. A custom fetch ignores
+   * connectTimeoutMs; configure the connect timeout in the fetch itself.
    */
   fetch?: (url: string, init: RequestInit) => Promise<Response>;
   /**
@@ -44,15 +459,37 @@ export interface HttpConfig {
    * Useful for logging, metrics, or request modification.
    * @param endpoint - The API endpoint being called
    * @param params - The request parameters (sensitive data redacted)
+   * @param info - Attempt number, rate limiter queue depth/wait time and call context
    */
-  onRequest?: (endpoint: string, params: Record<string, string>) => void;
+  onRequest?: (
+    endpoint: string,
+    params: Record<string, string>,
+    info: RequestAttemptInfo
+  ) => void;
   /**
    * Hook called after each response is received.
    * Useful for logging, metrics, or response inspection.
    * @param endpoint - The API endpoint that was called
-   * @param response - The parsed response data
+   * @param response - The parsed response data, redacted unless redaction.redactHookResponses is false
+   * @param info - Attempt number, rate limiter queue depth/wait time and call context
+   */
+  onResponse?: (endpoint: string, response: unknown, info: RequestAttemptInfo) => void;
+  /**
+   * Retry policy for transient failures (network errors, timeouts, 5xx).
+   * Disabled unless maxAttempts is greater than 1.
+   */
+  retry?: RetryConfig;
+  /**
+   * Client-side rate limiting and concurrency control.
+   * Calls over the limit wait in a FIFO queue; the wait counts towards timeoutMs.
    */
-  onResponse?: (endpoint: string, response: unknown) => void;
+  rateLimit?: HttpRateLimitConfig;
+  /**
+   * Circuit breaker that fails fast while SATIM is unreachable.
+   * Pass a configuration, or a breaker from createCircuitBreaker() to share
+   * its state between clients.
+   */
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker;
 }
 
 /**
@@ -63,9 +500,12 @@ export interface LoggerConfig {
   enableDevLogging?: boolean;
   /** Log level (default: 'info') */
   level?: LogLevel;
+  /** Output format of the built-in logger (default: 'text') */
+  format?: LogFormat;
   /**
    * Custom logger instance implementing SatimLogger interface.
-   * Use this to integrate with logging frameworks like winston, pino, or bunyan.
+   * Use this to integrate with logging frameworks like winston, pino, or bunyan,
+   * e.g. with the fromPino(), fromWinston() and fromBunyan() adapters.
    * When provided, this takes precedence over enableDevLogging and level.
    *
    * @example
@@ -80,6 +520,60 @@ export interface LoggerConfig {
   customLogger?: SatimLogger;
 }
 
+/**
+ * Redaction rules applied on top of the SDK defaults to logs, hook payloads,
+ * diagnostics messages, span attributes and error details.
+ * Keys match case-insensitively.
+ */
+export interface RedactionPolicy {
+  /** Additional keys whose values are fully redacted */
+  redactKeys?: string[];
+  /** Additional keys whose values show only their last characters */
+  partialKeys?: string[];
+  /** Keys that are never redacted, removed from the defaults and the lists above */
+  allowKeys?: string[];
+  /** Characters shown at the end of partially redacted values (default: 6, 0 redacts fully) */
+  partialShowChars?: number;
+  /** Patterns whose matches are redacted in every string value, e.g. `/\b\d{13,19}\b/` for PAN-like numbers */
+  valuePatterns?: RegExp[];
+  /**
+   * Mask card data found in any string: Luhn-valid card numbers to their
+   * first 6 and last 4 digits, labelled security codes and expiry dates (default: true)
+   */
+  detectCardData?: boolean;
+  /** Redact the response passed to onResponse (default: true); false passes the raw response */
+  redactHookResponses?: boolean;
+}
+
+/**
+ * Fields accepted by Redactor.createSafeLogData()
+ */
+export interface SafeLogInput {
+  endpoint?: string;
+  method?: string;
+  durationMs?: number;
+  statusCode?: number;
+  errorCode?: number;
+  orderId?: string;
+  mdOrder?: string;
+}
+
+/**
+ * Redaction functions built from a RedactionPolicy
+ */
+export interface Redactor {
+  /** Redacts a value according to its key */
+  redactValue(key: string, value: unknown): unknown;
+  /** Redacts an object, recursing into nested objects and arrays */
+  redactObject(obj: unknown): unknown;
+  /** Redacts error details like redactObject, but leaves partially redacted keys (order IDs) as they are */
+  redactDetails(details: Record<string, unknown>): Record<string, unknown>;
+  /** Redacts sensitive query parameters of a URL */
+  redactUrl(url: string): string;
+  /** Picks the fields that are safe to log, partially redacting order IDs */
+  createSafeLogData(data: SafeLogInput): Record<string, unknown>;
+}
+
 /**
  * Satim client configuration
  */
@@ -96,10 +590,25 @@ export interface SatimConfig {
   language?: SatimLanguage;
   /** Currency code according to ISO 4217 (default: '012' for DZD) */
   currency?: string;
+  /**
+   * Payment page URL template used to rebuild `formUrl` for orders recovered
+   * by `recoverExisting`. `{mdOrder}` and `{language}` are substituted.
+   * Read from SATIM_PAYMENT_PAGE_URL by fromEnv().
+   *
+   * @example 'https://test2.satim.dz/payment/merchants/merchant1/payment_{language}.html?mdOrder={mdOrder}'
+   */
+  paymentPageUrl?: string;
   /** HTTP configuration */
   http?: HttpConfig;
   /** Logger configuration */
   logger?: LoggerConfig;
+  /** Redaction rules for logs, hooks, diagnostics, spans and error details */
+  redaction?: RedactionPolicy;
+  /**
+   * Tracer for spans around each client call and each HTTP attempt,
+   * e.g. `trace.getTracer('@bakissation/satim')` from @opentelemetry/api
+   */
+  tracer?: SatimTracer;
 }
 
 /**
@@ -166,6 +675,15 @@ export interface RegisterOrderParams {
    * Sent as 'externalRequestId' in the API request.
    */
   idempotencyKey?: string;
+  /**
+   * Opt-in recovery for ambiguous registrations.
+   * When the request times out or SATIM answers error code 1 (order already
+   * processed), the order is looked up by orderNumber and returned if it is
+   * still payable with the same amount, instead of throwing.
+   * Set `paymentPageUrl` in the client config (SATIM_PAYMENT_PAGE_URL with
+   * fromEnv) so `formUrl` can be rebuilt.
+   */
+  recoverExisting?: boolean;
 }
 
 /**
@@ -194,6 +712,8 @@ export interface RegisterOrderResponse {
   orderId: string | null;
   /** URL of the payment page for customer redirect */
   formUrl: string | null;
+  /** True when an existing order was returned by `recoverExisting` instead of a new registration */
+  recovered: boolean;
   /** Check if registration was successful */
   isSuccessful(): boolean;
 }
@@ -256,6 +776,8 @@ export interface ConfirmOrderResponse {
   raw: ConfirmOrderRawResponse;
   /** Normalized error code as number */
   errorCode: number;
+  /** Error message */
+  errorMessage: string | null;
   /** Normalized order status as number */
   orderStatus: number | null;
   /** Normalized amount as number */
@@ -264,8 +786,14 @@ export interface ConfirmOrderResponse {
   orderNumber: string | null;
   /** Masked card number */
   pan: string | null;
+  /** Processing system action code (0 when approved) */
+  actionCode: number | null;
   /** Action code description */
   actionCodeDescription: string | null;
+  /** SVFE (ISO 8583) response code */
+  svfeResponse: string | null;
+  /** Why the payment was declined; null unless the order is declined */
+  declineReason: DeclineReasonCode | null;
   /** Authorization response ID */
   authorizationResponseId: string | null;
   /** IPS authorization/approval code */
@@ -292,6 +820,285 @@ export interface ConfirmOrderResponse {
   isSuccessful(): boolean;
   /** Check if order was paid (status 2) */
   isPaid(): boolean;
+  /** Check if the customer may retry a declined payment with the same card */
+  canRetryWithSameCard(): boolean;
+}
+
+/**
+ * Values a paid order must match, as they were registered
+ */
+export interface VerifyPaymentParams {
+  /** Registered amount in DZD (same format as `register`) */
+  expectedAmount: number | string | bigint;
+  /** Registered merchant order number */
+  expectedOrderNumber: string;
+  /** ISO 4217 numeric currency code (default: the client's currency) */
+  expectedCurrency?: string;
+}
+
+/**
+ * Confirmed value that differs from the expected one
+ */
+export interface PaymentMismatch {
+  /** Field that differs */
+  field: 'amount' | 'orderNumber' | 'currency';
+  /** Expected value (amount in minor units) */
+  expected: string;
+  /** Confirmed value (amount in minor units) */
+  actual: string | null;
+}
+
+/**
+ * Order is paid and matches the expected amount, order number and currency
+ */
+export interface PaymentVerifiedPaid {
+  status: 'paid';
+  /** Confirmation the verdict is based on */
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Order is paid but differs from what was registered. Do not fulfil it.
+ */
+export interface PaymentVerifiedMismatch {
+  status: 'mismatch';
+  /** Every field that differs */
+  mismatches: PaymentMismatch[];
+  /** Confirmation the verdict is based on */
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Order is not paid (not yet paid, only pre-authorized, reversed or refunded)
+ */
+export interface PaymentVerifiedUnpaid {
+  status: 'unpaid';
+  /** Current order status */
+  orderStatus: number | null;
+  /** Confirmation the verdict is based on */
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Payment was declined
+ */
+export interface PaymentVerifiedDeclined {
+  status: 'declined';
+  /** Why the payment was declined */
+  declineReason: DeclineReasonCode;
+  /** Processing system action code */
+  actionCode: number | null;
+  /** Confirmation, or null when SATIM reported the decline as error code 2 */
+  confirmation: ConfirmOrderResponse | null;
+}
+
+/**
+ * Verdict of `verifyPayment`
+ */
+export type VerifyPaymentResult =
+  | PaymentVerifiedPaid
+  | PaymentVerifiedMismatch
+  | PaymentVerifiedUnpaid
+  | PaymentVerifiedDeclined;
+
+/**
+ * Options for `handleReturn`
+ */
+export interface HandleReturnOptions extends CallOptions {
+  /** Language of the confirmation and of the returned message (default: the client's language) */
+  language?: SatimLanguage;
+}
+
+/**
+ * Customer returned after paying; order status 2
+ */
+export interface ReturnPaid {
+  status: 'paid';
+  orderId: string;
+  /** Localized message to show the customer */
+  message: string;
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Customer returned after a declined payment
+ */
+export interface ReturnDeclined {
+  status: 'declined';
+  orderId: string;
+  /** Localized message to show the customer */
+  message: string;
+  /** Why the payment was declined */
+  declineReason: DeclineReasonCode;
+  /** Whether offering to pay again with the same card makes sense */
+  canRetryWithSameCard: boolean;
+  /** Confirmation, or null when SATIM reported the decline as error code 2 */
+  confirmation: ConfirmOrderResponse | null;
+}
+
+/**
+ * Customer returned without paying (order still registered), or the order was
+ * reversed or refunded
+ */
+export interface ReturnCancelled {
+  status: 'cancelled';
+  orderId: string;
+  /** Localized message to show the customer */
+  message: string;
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Funds of a pre-authorized order are on hold (order status 1), waiting for
+ * deposit() or reverse(). The customer has completed the payment.
+ */
+export interface ReturnAuthorized {
+  status: 'authorized';
+  orderId: string;
+  /** Localized message to show the customer */
+  message: string;
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * Payment is not final yet
+ */
+export interface ReturnPending {
+  status: 'pending';
+  orderId: string;
+  /** Localized message to show the customer */
+  message: string;
+  /** Current order status */
+  orderStatus: number | null;
+  confirmation: ConfirmOrderResponse;
+}
+
+/**
+ * The return URL was invalid or the confirmation failed
+ */
+export interface ReturnError {
+  status: 'error';
+  /** Order ID from the return URL, null when missing or invalid */
+  orderId: string | null;
+  /** Localized message to show the customer */
+  message: string;
+  /** Underlying SDK error */
+  error: SatimError;
+}
+
+/**
+ * Outcome of a customer returning from the SATIM payment page
+ */
+export type ReturnResult =
+  | ReturnPaid
+  | ReturnAuthorized
+  | ReturnDeclined
+  | ReturnCancelled
+  | ReturnPending
+  | ReturnError;
+
+/**
+ * Secret used to sign return-URL state tokens
+ */
+export interface ReturnStateKey {
+  /** Key identifier embedded in tokens, so verification picks the right secret */
+  id: string;
+  /** HMAC secret, at least 32 bytes */
+  secret: string | Uint8Array;
+}
+
+/**
+ * Records used token nonces so a token is accepted only once
+ */
+export interface ReturnStateNonceStore {
+  /**
+   * Marks a nonce as used
+   *
+   * @param nonce - Token nonce
+   * @param expiresAt - Token expiry (epoch milliseconds); the nonce can be forgotten after it
+   * @returns true the first time a nonce is seen, false for a replay
+   */
+  consume(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Options for createMemoryNonceStore
+ */
+export interface MemoryNonceStoreOptions {
+  /** Clock returning epoch milliseconds, as passed to the signer (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Options for createReturnStateSigner
+ */
+export interface ReturnStateOptions {
+  /**
+   * Signing keys. The first key signs new tokens; every key is accepted for
+   * verification, so add the new key first and drop the old one once tokens
+   * signed with it have expired.
+   */
+  keys: ReturnStateKey[];
+  /** Token lifetime in seconds, a positive integer (default: 3600) */
+  ttlSeconds?: number;
+  /** Query parameter carrying the token (default: 'state') */
+  paramName?: string;
+  /**
+   * Store used to reject replayed tokens (default: in-memory, per process).
+   * Use a shared store when several instances handle returns; null disables replay protection.
+   */
+  nonceStore?: ReturnStateNonceStore | null;
+  /** Clock returning epoch milliseconds, also used by the default nonce store (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Order data bound into a return-URL state token
+ */
+export interface ReturnStateParams {
+  /** Your internal order reference */
+  reference: string;
+  /** Merchant order number sent to register */
+  orderNumber: string;
+  /** Amount in DZD (same format as `register`) */
+  amount: number | string | bigint;
+}
+
+/**
+ * Contents of a verified return-URL state token
+ */
+export interface VerifiedReturnState {
+  /** Your internal order reference */
+  reference: string;
+  /** Merchant order number */
+  orderNumber: string;
+  /** Amount in DZD as a decimal string (e.g. '1003.20'), usable as `verifyPayment` expectedAmount */
+  amount: string;
+  /** Amount in minor units */
+  amountMinor: string;
+  /** SATIM order ID from the return URL, when verifying a URL or request */
+  orderId: string | null;
+  /** Key that signed the token */
+  keyId: string;
+  /** Issue time (epoch milliseconds) */
+  issuedAt: number;
+  /** Expiry time (epoch milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Signs and verifies return-URL state tokens
+ */
+export interface ReturnStateSigner {
+  /** Creates a signed token for an order */
+  sign(params: ReturnStateParams): string;
+  /** Adds a signed token to a return or fail URL */
+  buildReturnUrl(url: string, params: ReturnStateParams): string;
+  /**
+   * Verifies a token, or the token in a return URL or request.
+   * Throws ValidationError for forged, expired or replayed tokens.
+   */
+  verify(input: string | URL | Request): Promise<VerifiedReturnState>;
 }
 
 /**
@@ -318,6 +1125,338 @@ export interface RefundOrderResponse {
   isSuccessful(): boolean;
 }
 
+/**
+ * Raw response from deposit.do endpoint
+ */
+export interface DepositOrderRawResponse {
+  /** Error code (0 for success) */
+  errorCode?: number | string;
+  /** Error message */
+  errorMessage?: string;
+}
+
+/**
+ * Normalized response from deposit.do endpoint
+ */
+export interface DepositOrderResponse {
+  /** Raw response from API */
+  raw: DepositOrderRawResponse;
+  /** Normalized error code as number */
+  errorCode: number;
+  /** Error message if any */
+  errorMessage: string | null;
+  /** Check if deposit was successful */
+  isSuccessful(): boolean;
+}
+
+/**
+ * Raw response from reverse.do endpoint
+ */
+export interface ReverseOrderRawResponse {
+  /** Error code (0 for success) */
+  errorCode?: number | string;
+  /** Error message */
+  errorMessage?: string;
+}
+
+/**
+ * Normalized response from reverse.do endpoint
+ */
+export interface ReverseOrderResponse {
+  /** Raw response from API */
+  raw: ReverseOrderRawResponse;
+  /** Normalized error code as number */
+  errorCode: number;
+  /** Error message if any */
+  errorMessage: string | null;
+  /** Check if reversal was successful */
+  isSuccessful(): boolean;
+}
+
+/**
+ * Parameters for looking up an order status.
+ * Exactly one of orderId or orderNumber must be provided.
+ */
+export type GetOrderStatusParams =
+  | {
+      /** Order ID generated by EPG (returned from register) */
+      orderId: string;
+      orderNumber?: never;
+    }
+  | {
+      /** Order number in the merchant's system */
+      orderNumber: string;
+      orderId?: never;
+    };
+
+/**
+ * Name/value pair as returned in getOrderStatusExtended.do lists
+ */
+export interface SatimNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Raw response from getOrderStatusExtended.do endpoint
+ */
+export interface GetOrderStatusRawResponse {
+  /** Error code (0 for success) */
+  errorCode?: number | string;
+  /** Error message */
+  errorMessage?: string;
+  /** Order number in merchant's system */
+  orderNumber?: string;
+  /** Order status */
+  orderStatus?: number | string;
+  /** Processing system authorization code */
+  actionCode?: number | string;
+  /** Action code description */
+  actionCodeDescription?: string;
+  /** Amount in minor units */
+  amount?: number | string;
+  /** Currency code */
+  currency?: string;
+  /** Order registration date (epoch milliseconds) */
+  date?: number | string;
+  /** Order description */
+  orderDescription?: string;
+  /** Customer IP address */
+  ip?: string;
+  /** Merchant parameters passed at registration */
+  merchantOrderParams?: SatimNameValue[];
+  /** Order attributes (contains mdOrder) */
+  attributes?: SatimNameValue[];
+  /** Card authorization details */
+  cardAuthInfo?: {
+    /** Card expiration date (YYYYMM format) */
+    expiration?: string;
+    /** Name of the cardholder */
+    cardholderName?: string;
+    /** IPS authorization code */
+    approvalCode?: string;
+    /** Masked card number */
+    pan?: string;
+    [key: string]: unknown;
+  };
+  /** Authorization date (epoch milliseconds) */
+  authDateTime?: number | string;
+  /** Terminal ID */
+  terminalId?: string;
+  /** Authorization reference number */
+  authRefNum?: string;
+  /** Amounts processed on the order, in minor units */
+  paymentAmountInfo?: {
+    /** Payment state label */
+    paymentState?: string;
+    /** Approved (authorized) amount */
+    approvedAmount?: number | string;
+    /** Deposited (captured) amount */
+    depositedAmount?: number | string;
+    /** Refunded amount */
+    refundedAmount?: number | string;
+    [key: string]: unknown;
+  };
+  /** Issuing bank information */
+  bankInfo?: {
+    bankName?: string;
+    bankCountryCode?: string;
+    bankCountryName?: string;
+    [key: string]: unknown;
+  };
+  /** Allow additional unknown fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Normalized response from getOrderStatusExtended.do endpoint
+ */
+export interface GetOrderStatusResponse {
+  /** Raw response from API */
+  raw: GetOrderStatusRawResponse;
+  /** Normalized error code as number */
+  errorCode: number;
+  /** Error message if any */
+  errorMessage: string | null;
+  /** Order ID generated by EPG (from the mdOrder attribute or the request) */
+  orderId: string | null;
+  /** Order number */
+  orderNumber: string | null;
+  /** Normalized order status as number */
+  orderStatus: number | null;
+  /** Normalized action code as number */
+  actionCode: number | null;
+  /** Action code description */
+  actionCodeDescription: string | null;
+  /** Why the payment was declined; null unless the order is declined */
+  declineReason: DeclineReasonCode | null;
+  /** Normalized amount in minor units */
+  amount: number | null;
+  /** Currency code */
+  currency: string | null;
+  /** Order description */
+  description: string | null;
+  /** Masked card number */
+  pan: string | null;
+  /** Name of the cardholder */
+  cardholderName: string | null;
+  /** IPS authorization/approval code */
+  approvalCode: string | null;
+  /** Approved amount in minor units */
+  approvedAmount: number | null;
+  /** Deposited amount in minor units */
+  depositedAmount: number | null;
+  /** Refunded amount in minor units */
+  refundedAmount: number | null;
+  /** Payment state label */
+  paymentState: string | null;
+  /** Merchant parameters passed at registration, as a key/value map */
+  merchantOrderParams: Record<string, string>;
+  /** Check if the status lookup was successful */
+  isSuccessful(): boolean;
+  /** Check if order was paid (status 2) */
+  isPaid(): boolean;
+  /** Check if the customer may retry a declined payment with the same card */
+  canRetryWithSameCard(): boolean;
+}
+
+/**
+ * Lifecycle state of a recorded transaction
+ * - registered: order created, not paid yet
+ * - approved: pre-authorized amount held on the card
+ * - paid: amount captured
+ * - declined: payment declined
+ * - reversed: pre-authorization or payment cancelled
+ * - partially_refunded / refunded: part or all of the captured amount refunded
+ */
+export type SatimTransactionStatus =
+  | 'registered'
+  | 'approved'
+  | 'paid'
+  | 'declined'
+  | 'reversed'
+  | 'partially_refunded'
+  | 'refunded';
+
+/**
+ * Something that happened to an order, as recorded in a transaction store.
+ * Amounts are in minor units; `at` is an ISO 8601 timestamp.
+ */
+export type SatimTransactionEvent =
+  | {
+      type: 'registered';
+      operation: 'register' | 'registerPreAuth';
+      orderId: string;
+      orderNumber: string;
+      amount: string;
+      currency: string | null;
+      at: string;
+    }
+  | {
+      type: 'status';
+      operation: SatimOperation;
+      orderId: string;
+      /** SATIM order status reported by the call */
+      orderStatus: number;
+      orderNumber?: string;
+      amount?: string;
+      currency?: string;
+      /** Amount captured by SATIM */
+      depositedAmount?: string;
+      /** Amount SATIM reports as refunded, including refunds made elsewhere */
+      refundedAmount?: string;
+      at: string;
+    }
+  | {
+      type: 'refunded';
+      operation: 'refund';
+      orderId: string;
+      amount: string;
+      at: string;
+    };
+
+/**
+ * Status change of a recorded transaction
+ */
+export interface SatimStatusTransition {
+  from: SatimTransactionStatus | null;
+  to: SatimTransactionStatus;
+  operation: SatimOperation;
+  at: string;
+}
+
+/**
+ * What a transaction store knows about an order. Amounts are in minor units.
+ */
+export interface SatimTransaction {
+  orderId: string;
+  /** Merchant order number; null when the order was first seen after registration */
+  orderNumber: string | null;
+  /** Registered (or confirmed) amount */
+  amount: string | null;
+  /** Captured amount, when SATIM reported it; refunds are limited to it */
+  depositedAmount: string | null;
+  currency: string | null;
+  status: SatimTransactionStatus;
+  /** Last SATIM order status seen */
+  orderStatus: number | null;
+  /** Sum of the recorded refunds, or the refunded amount SATIM reported if higher */
+  refundedAmount: string;
+  refunds: Array<{ amount: string; at: string }>;
+  transitions: SatimStatusTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage for transactions, fed by withTransactionStore()
+ */
+export interface SatimTransactionStore {
+  /**
+   * Records an event, creating the transaction on its first event
+   *
+   * @returns The transaction after the event
+   */
+  record(event: SatimTransactionEvent): SatimTransaction | Promise<SatimTransaction>;
+  /** Looks a transaction up by SATIM order ID */
+  get(orderId: string): SatimTransaction | undefined | Promise<SatimTransaction | undefined>;
+  /** Looks a transaction up by merchant order number */
+  findByOrderNumber(
+    orderNumber: string
+  ): SatimTransaction | undefined | Promise<SatimTransaction | undefined>;
+  /** Lists all transactions */
+  list(): SatimTransaction[] | Promise<SatimTransaction[]>;
+}
+
+/**
+ * Options for withTransactionStore
+ */
+export interface TransactionStoreOptions {
+  /**
+   * Called when recording fails. By default a TransactionStoreError carrying
+   * the call's response is thrown, even though the SATIM call itself succeeded.
+   */
+  onError?: (error: unknown, event: SatimTransactionEvent) => void;
+}
+
+/**
+ * SQLite statement, as returned by better-sqlite3 and node:sqlite
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Synchronous SQLite database such as a better-sqlite3 `Database` or a
+ * node:sqlite `DatabaseSync`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
 /**
  * Order status codes from Satim
  */
@@ -337,3 +1476,29 @@ export const OrderStatus = {
 } as const;
 
 export type OrderStatusCode = (typeof OrderStatus)[keyof typeof OrderStatus];
+
+/**
+ * Why a card payment was declined, derived from the SATIM action code
+ */
+export const DeclineReason = {
+  /** Not enough balance on the card account */
+  INSUFFICIENT_FUNDS: 'insufficient_funds',
+  /** Wrong card number, CVV2, expiry date or PIN entered */
+  INVALID_CARD_DATA: 'invalid_card_data',
+  /** Card past its expiry date */
+  CARD_EXPIRED: 'card_expired',
+  /** Card blocked, restricted, lost or stolen */
+  CARD_BLOCKED: 'card_blocked',
+  /** 3-D Secure authentication failed */
+  AUTHENTICATION_FAILED: 'authentication_failed',
+  /** Issuing bank or processing system unavailable */
+  ISSUER_UNAVAILABLE: 'issuer_unavailable',
+  /** Amount or frequency limit of the card exceeded */
+  LIMIT_EXCEEDED: 'limit_exceeded',
+  /** Payment not completed in time */
+  TIMEOUT: 'timeout',
+  /** Declined for a reason not covered above */
+  OTHER: 'other',
+} as const;
+
+export type DeclineReasonCode = (typeof DeclineReason)[keyof typeof DeclineReason];
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import {
+  HttpError,
+  RequestAbortedError,
+  TimeoutError,
+} from '../src/errors.js';
+import type { RequestAttemptInfo, RetryInfo } from '../src/types.js';
+import {
+  createClient,
+  createTestConfig,
+  hangingFetch,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+const REGISTER_PARAMS = {
+  orderNumber: 'ORD001',
+  amount: 5000,
+  returnUrl: 'https://shop.dz/return',
+  udf1: 'INV001',
+};
+
+describe('per-call options', () => {
+  it('aborts an in-flight call with the caller signal', async () => {
+    const fetch = vi.fn(hangingFetch);
+    const client = createClient({
+      fetch,
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const controller = new AbortController();
+
+    const call = client.confirm('order', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort(new Error('client went away'));
+    const error = await call.catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect(error).toMatchObject({
+      kind: 'ABORT_ERROR',
+      code: 'REQUEST_ABORTED',
+      attempts: 1,
+    });
+    expect((error as Error).cause).toMatchObject({ message: 'client went away' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('does not send a request when the signal is already aborted', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const client = createClient({ fetch });
+
+    await expect(
+      client.confirm('order', { signal: AbortSignal.abort() })
+    ).rejects.toMatchObject({ code: 'REQUEST_ABORTED', attempts: 0 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('aborts during the retry backoff', async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    const onRetry = vi.fn();
+    const client = createClient({
+      fetch,
+      retry: { maxAttempts: 3, baseDelayMs: 10000, jitter: false, onRetry },
+    });
+    const controller = new AbortController();
+
+    const call = client.confirm('order', { signal: controller.signal });
+    await vi.waitFor(() => expect(onRetry).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({ code: 'REQUEST_ABORTED', attempts: 1 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts calls waiting for the rate limiter', async () => {
+    const fetch = vi.fn(hangingFetch);
+    const client = createClient({ fetch, rateLimit: { maxConcurrent: 1 } });
+    const first = new AbortController();
+    const queued = new AbortController();
+
+    const holding = client.confirm('first', { signal: first.signal });
+    const waiting = client.confirm('queued', { signal: queued.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    queued.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    first.abort();
+    await expect(holding).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('overrides the timeout per call', async () => {
+    const client = createClient({ fetch: hangingFetch });
+
+    const error = await client
+      .register(REGISTER_PARAMS, { timeoutMs: 20 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(20);
+  });
+
+  it('sends the language of the call', async () => {
+    const bodies: URLSearchParams[] = [];
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      bodies.push(new URLSearchParams(String(init.body)));
+      return new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+    });
+    const client = createClient({ fetch });
+
+    await client.confirm('order', { language: 'ar' });
+    await client.confirm('order', 'en');
+    await client.confirm('order');
+
+    expect(bodies.map((body) => body.get('language'))).toEqual(['ar', 'en', 'fr']);
+  });
+
+  it('passes the context to hooks and logs it redacted', async () => {
+    const requests: RequestAttemptInfo[] = [];
+    const responses: RequestAttemptInfo[] = [];
+    const retries: RetryInfo[] = [];
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(JSON.stringify(MOCK_REGISTER_SUCCESS)));
+    const client = createSatimClient(
+      createTestConfig({
+        http: {
+          fetch,
+          retry: {
+            maxAttempts: 2,
+            baseDelayMs: 1,
+            onRetry: (info) => retries.push(info),
+          },
+          onRequest: (_endpoint, _params, info) => requests.push(info),
+          onResponse: (_endpoint, _response, info) => responses.push(info),
+        },
+        logger: { customLogger: logger },
+      })
+    );
+    const context = { requestId: 'req-42', password: 'hunter2' };
+
+    await client.register(
+      { ...REGISTER_PARAMS, idempotencyKey: 'ORD001-1' },
+      { context }
+    );
+
+    expect(requests.map((info) => info.context)).toEqual([context, context]);
+    expect(responses[0]!.context).toBe(context);
+    expect(retries[0]!.context).toBe(context);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        context: { requestId: 'req-42', password: '[REDACTED]' },
+      }),
+      'Satim API request completed'
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        context: expect.objectContaining({ requestId: 'req-42' }),
+      }),
+      'Satim API request failed with network error'
+    );
+  });
+
+  it('keeps transport errors distinct from aborts', async () => {
+    const client = createClient({
+      fetch: async () => new Response('Bad Gateway', { status: 502 }),
+    });
+
+    await expect(
+      client.refund('order', 100, { signal: new AbortController().signal })
+    ).rejects.toBeInstanceOf(HttpError);
+  });
+});
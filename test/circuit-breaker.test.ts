@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { createCircuitBreaker } from '../src/circuit-breaker.js';
+import { describe as describeSatim } from '../src/describe.js';
+import {
+  CircuitOpenError,
+  ConfigError,
+  HttpError,
+  SatimApiError,
+  TimeoutError,
+} from '../src/errors.js';
+import type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  SatimLogger,
+} from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
+
+type Outcome = 'ok' | 'down' | 'http500' | 'apiError';
+
+/**
+ * Creates a fetch stub that answers according to the current outcome
+ */
+function createSwitchableFetch(initial: Outcome = 'ok') {
+  const state = { outcome: initial };
+  const fetch = vi.fn(async () => {
+    switch (state.outcome) {
+      case 'down':
+        throw new TypeError('fetch failed');
+      case 'http500':
+        return new Response('Internal Server Error', { status: 500 });
+      case 'apiError':
+        return new Response(
+          JSON.stringify({ ErrorCode: '6', ErrorMessage: 'Unknown order' })
+        );
+      default:
+        return new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+    }
+  });
+  return { fetch, state };
+}
+
+function createBreakerClient(
+  fetch: (url: string, init: RequestInit) => Promise<Response>,
+  circuitBreaker: CircuitBreakerConfig | CircuitBreaker,
+  overrides: { logger?: SatimLogger; maxAttempts?: number } = {}
+) {
+  return createSatimClient(
+    createTestConfig({
+      http: {
+        fetch,
+        circuitBreaker,
+        retry: { maxAttempts: overrides.maxAttempts ?? 1, baseDelayMs: 1, jitter: false },
+      },
+      logger: overrides.logger
+        ? { customLogger: overrides.logger }
+        : { enableDevLogging: false },
+    })
+  );
+}
+
+async function failures(count: number, call: () => Promise<unknown>) {
+  for (let i = 0; i < count; i++) {
+    await expect(call()).rejects.toBeInstanceOf(HttpError);
+  }
+}
+
+describe('circuit breaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive transport failures and fails fast', async () => {
+    const { fetch, state } = createSwitchableFetch('down');
+    const client = createBreakerClient(fetch, {
+      failureThreshold: 3,
+      resetTimeoutMs: 10000,
+    });
+
+    await failures(3, () => client.confirm('order'));
+    expect(client.getCircuitState()).toBe('open');
+
+    state.outcome = 'ok';
+    const error = await client.confirm('order').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({
+      kind: 'CIRCUIT_OPEN_ERROR',
+      code: 'CIRCUIT_OPEN',
+      attempts: 0,
+    });
+    expect((error as CircuitOpenError).retryAfterMs).toBeGreaterThan(9000);
+    expect(describeSatim(error, 'en')).toMatch(/temporarily unavailable/);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not count SATIM error codes or successes as failures', async () => {
+    const { fetch, state } = createSwitchableFetch('http500');
+    const client = createBreakerClient(fetch, { failureThreshold: 2 });
+
+    await failures(1, () => client.confirm('order'));
+    state.outcome = 'apiError';
+    await expect(client.confirm('order')).rejects.toBeInstanceOf(SatimApiError);
+    state.outcome = 'http500';
+    await failures(1, () => client.confirm('order'));
+
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('opens when the error rate in the window is too high', async () => {
+    const { fetch, state } = createSwitchableFetch();
+    const client = createBreakerClient(fetch, {
+      failureThreshold: 100,
+      errorRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    for (const outcome of ['ok', 'down', 'ok'] as const) {
+      state.outcome = outcome;
+      await client.confirm('order').catch(() => undefined);
+    }
+    expect(client.getCircuitState()).toBe('closed');
+
+    state.outcome = 'down';
+    await failures(1, () => client.confirm('order'));
+
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  it('closes again after a successful trial request', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { fetch, state } = createSwitchableFetch('down');
+    const onStateChange = vi.fn();
+    const client = createBreakerClient(fetch, {
+      failureThreshold: 1,
+      resetTimeoutMs: 5000,
+      onStateChange,
+    });
+
+    await failures(1, () => client.confirm('order'));
+    vi.advanceTimersByTime(5000);
+    expect(client.getCircuitState()).toBe('half-open');
+
+    state.outcome = 'ok';
+    await expect(client.confirm('order')).resolves.toBeDefined();
+
+    expect(client.getCircuitState()).toBe('closed');
+    expect(onStateChange.mock.calls.map(([change]) => change)).toEqual([
+      { from: 'closed', to: 'open' },
+      { from: 'open', to: 'half-open' },
+      { from: 'half-open', to: 'closed' },
+    ]);
+  });
+
+  it('reopens when the trial request fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { fetch } = createSwitchableFetch('down');
+    const client = createBreakerClient(fetch, {
+      failureThreshold: 1,
+      resetTimeoutMs: 5000,
+    });
+
+    await failures(1, () => client.confirm('order'));
+    vi.advanceTimersByTime(5000);
+    await failures(1, () => client.confirm('order'));
+
+    expect(client.getCircuitState()).toBe('open');
+    await expect(client.confirm('order')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a limited number of trial requests through while half-open', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    breaker.tryAcquire()!.failure();
+    expect(breaker.getRetryAfterMs()).toBe(1000);
+    vi.advanceTimersByTime(1000);
+
+    const trial = breaker.tryAcquire();
+    expect(trial).not.toBeNull();
+    expect(breaker.tryAcquire()).toBeNull();
+    trial!.release();
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).not.toBeNull();
+  });
+
+  it('stops retrying once the circuit opens', async () => {
+    const { fetch } = createSwitchableFetch('down');
+    const client = createBreakerClient(
+      fetch,
+      { failureThreshold: 2 },
+      { maxAttempts: 5 }
+    );
+
+    const error = await client.confirm('order').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).attempts).toBe(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('can be shared between clients', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    const down = createSwitchableFetch('down');
+    const up = createSwitchableFetch('ok');
+    const first = createBreakerClient(down.fetch, breaker);
+    const second = createBreakerClient(up.fetch, breaker);
+
+    await failures(1, () => first.confirm('order'));
+
+    expect(second.getCircuitState()).toBe('open');
+    await expect(second.confirm('order')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(up.fetch).not.toHaveBeenCalled();
+
+    breaker.reset();
+    await expect(second.confirm('order')).resolves.toBeDefined();
+  });
+
+  it('does not count errors raised before the request is sent', async () => {
+    const { fetch } = createSwitchableFetch('ok');
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    const client = createSatimClient(
+      createTestConfig({
+        http: {
+          fetch,
+          circuitBreaker: breaker,
+          onRequest: () => {
+            throw new Error('hook failed');
+          },
+        },
+        logger: { enableDevLogging: false },
+      })
+    );
+
+    await expect(client.confirm('order')).rejects.toThrow();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('counts timeouts and logs state changes', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetch = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () =>
+          reject(new DOMException('aborted', 'AbortError'))
+        );
+      });
+    const client = createSatimClient(
+      createTestConfig({
+        http: { fetch, timeoutMs: 20, circuitBreaker: { failureThreshold: 1 } },
+        logger: { customLogger: logger },
+      })
+    );
+
+    await expect(client.confirm('order')).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(client.getCircuitState()).toBe('open');
+    expect(logger.warn).toHaveBeenCalledWith(
+      { from: 'closed', to: 'open' },
+      'Satim circuit breaker opened'
+    );
+  });
+
+  it('reports closed without a circuit breaker', () => {
+    const client = createSatimClient(createTestConfig());
+
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('opens on the error rate after a long run of successes has expired', async () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker({
+      failureThreshold: 100,
+      minimumRequests: 2,
+      windowMs: 60000,
+    });
+    // One success every 10ms for ten minutes, then a quiet window
+    for (let i = 0; i < 60000; i++) {
+      breaker.tryAcquire()!.success();
+      vi.advanceTimersByTime(10);
+    }
+    vi.advanceTimersByTime(60000);
+
+    breaker.tryAcquire()!.success();
+    breaker.tryAcquire()!.failure();
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('rejects invalid thresholds', () => {
+    expect(() => createCircuitBreaker({ windowMs: 0 })).toThrow(ConfigError);
+    expect(() => createCircuitBreaker({ failureThreshold: 0 })).toThrow(ConfigError);
+    expect(() => createCircuitBreaker({ errorRateThreshold: 1.5 })).toThrow(ConfigError);
+    expect(() => createCircuitBreaker({ halfOpenMaxRequests: 0 })).toThrow(ConfigError);
+  });
+});
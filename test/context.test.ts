@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createSatimClient } from '../src/client.js';
+import { getContext, runWithContext } from '../src/context.js';
+import { HttpError, ValidationError } from '../src/errors.js';
+import type { SatimLogger, SatimSpanAttributes, SatimTracer } from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
+
+function createLoggerSpy(): SatimLogger & { calls: Array<Record<string, unknown>> } {
+  const calls: Array<Record<string, unknown>> = [];
+  const record = (obj: Record<string, unknown>) => {
+    calls.push(obj);
+  };
+  return { calls, debug: record, info: record, warn: record, error: record };
+}
+
+describe('request context', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scopes values to the callback and its async continuations', async () => {
+    expect(getContext()).toBeUndefined();
+
+    await runWithContext({ correlationId: 'corr-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(getContext()).toEqual({ correlationId: 'corr-1' });
+
+      runWithContext({ merchantId: 'shop-1' }, () => {
+        expect(getContext()).toEqual({ correlationId: 'corr-1', merchantId: 'shop-1' });
+      });
+      expect(getContext()).toEqual({ correlationId: 'corr-1' });
+    });
+
+    expect(getContext()).toBeUndefined();
+  });
+
+  it('attaches the context to logs and hooks, with call context taking precedence', async () => {
+    const logger = createLoggerSpy();
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const client = createSatimClient(
+      createTestConfig({
+        http: {
+          fetch: async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)),
+          onRequest,
+          onResponse,
+        },
+        logger: { customLogger: logger },
+      })
+    );
+
+    await runWithContext({ correlationId: 'corr-1', merchantId: 'shop-1' }, () =>
+      client.confirm('V721uPPfNNofVQAAABL3', { context: { merchantId: 'shop-2' } })
+    );
+
+    const expected = { correlationId: 'corr-1', merchantId: 'shop-2' };
+    expect(onRequest.mock.calls[0]![2].context).toEqual(expected);
+    expect(onResponse.mock.calls[0]![2].context).toEqual(expected);
+    expect(logger.calls.length).toBeGreaterThan(0);
+    for (const entry of logger.calls) {
+      expect(entry['context']).toEqual(expected);
+    }
+  });
+
+  it('adds the context to the default logger output and to error details', async () => {
+    const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = createSatimClient(
+      createTestConfig({
+        http: { fetch: async () => new Response('Bad Gateway', { status: 502 }) },
+        logger: { enableDevLogging: true, level: 'warn' },
+      })
+    );
+
+    const error = await runWithContext({ correlationId: 'corr-2' }, () =>
+      client.confirm('V721uPPfNNofVQAAABL3').catch((e: unknown) => e)
+    );
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).details).toEqual({ context: { correlationId: 'corr-2' } });
+    expect(String(consoleSpy.mock.calls[0]![0])).toContain('"correlationId":"corr-2"');
+
+    const validation = runWithContext({ correlationId: 'corr-3', password: 'secret' }, () =>
+      new ValidationError('Invalid', 'INVALID', { field: 'amount' })
+    );
+    expect(validation.details).toEqual({
+      field: 'amount',
+      context: { correlationId: 'corr-3', password: '[REDACTED]' },
+    });
+    expect(new ValidationError('Invalid', 'INVALID').details).toBeUndefined();
+  });
+
+  it('adds the context to trace spans', async () => {
+    const attributes: SatimSpanAttributes[] = [];
+    const active = new AsyncLocalStorage<boolean>();
+    const span = {
+      setAttribute: () => {},
+      setAttributes: () => {},
+      addEvent: () => {},
+      recordException: () => {},
+      setStatus: () => {},
+      end: () => {},
+    };
+    const tracer: SatimTracer = {
+      startSpan: (_name, options) => {
+        attributes.push({ ...options?.attributes });
+        return span;
+      },
+      startActiveSpan: (_name, options, fn) => {
+        attributes.push({ ...options?.attributes });
+        return active.run(true, () => fn(span));
+      },
+    };
+    const client = createSatimClient({
+      ...createTestConfig({
+        http: { fetch: async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)) },
+        logger: { enableDevLogging: false },
+      }),
+      tracer,
+    });
+
+    await runWithContext({ correlationId: 'corr-4', merchantId: 'shop-1' }, () =>
+      client.confirm('V721uPPfNNofVQAAABL3')
+    );
+
+    expect(attributes[0]).toMatchObject({
+      'satim.context.correlationId': 'corr-4',
+      'satim.context.merchantId': 'shop-1',
+    });
+  });
+});
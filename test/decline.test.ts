@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { MockAgent, type Dispatcher } from 'undici';
+import { createSatimClient } from '../src/client.js';
+import { SatimApiError } from '../src/errors.js';
+import { classifyDecline, isRetryableDecline } from '../src/decline.js';
+import { DeclineReason } from '../src/types.js';
+import { startSatimSimulator, SIMULATOR_TEST_CARDS } from '../src/simulator/index.js';
+import type { SatimSimulator } from '../src/simulator/index.js';
+import {
+  createTestConfig,
+  createMockAgent,
+  setupMockAgent,
+  restoreDispatcher,
+  mockPool,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_ORDER_STATUS_SUCCESS,
+} from './helpers.js';
+
+const MOCK_CONFIRM_DECLINED = {
+  ...MOCK_CONFIRM_SUCCESS,
+  actionCode: 116,
+  actionCodeDescription: 'Votre solde est insuffisant',
+  ErrorCode: '2',
+  ErrorMessage: 'Payment is declined',
+  OrderStatus: 6,
+  params: { respCode: '51', respCode_desc: 'Votre solde est insuffisant' },
+  SvfeResponse: '51',
+};
+
+describe('classifyDecline', () => {
+  it.each([
+    [116, DeclineReason.INSUFFICIENT_FUNDS],
+    [71015, DeclineReason.INVALID_CARD_DATA],
+    [111, DeclineReason.INVALID_CARD_DATA],
+    [101, DeclineReason.CARD_EXPIRED],
+    [100, DeclineReason.CARD_BLOCKED],
+    [208, DeclineReason.CARD_BLOCKED],
+    [-2006, DeclineReason.AUTHENTICATION_FAILED],
+    [910, DeclineReason.ISSUER_UNAVAILABLE],
+    [121, DeclineReason.LIMIT_EXCEEDED],
+    [-2007, DeclineReason.TIMEOUT],
+  ])('maps action code %i to %s', (actionCode, reason) => {
+    expect(classifyDecline(actionCode)).toBe(reason);
+  });
+
+  it('falls back to the SVFE response code for unknown action codes', () => {
+    expect(classifyDecline(99999, '51')).toBe(DeclineReason.INSUFFICIENT_FUNDS);
+    expect(classifyDecline(null, '82')).toBe(DeclineReason.INVALID_CARD_DATA);
+  });
+
+  it('returns OTHER when neither code is known', () => {
+    expect(classifyDecline(99999, '99')).toBe(DeclineReason.OTHER);
+    expect(classifyDecline(null)).toBe(DeclineReason.OTHER);
+  });
+
+  it('only allows retrying with the same card for transient or data-entry declines', () => {
+    expect(isRetryableDecline(DeclineReason.INVALID_CARD_DATA)).toBe(true);
+    expect(isRetryableDecline(DeclineReason.ISSUER_UNAVAILABLE)).toBe(true);
+    expect(isRetryableDecline(DeclineReason.TIMEOUT)).toBe(true);
+    expect(isRetryableDecline(DeclineReason.AUTHENTICATION_FAILED)).toBe(true);
+    expect(isRetryableDecline(DeclineReason.INSUFFICIENT_FUNDS)).toBe(false);
+    expect(isRetryableDecline(DeclineReason.CARD_BLOCKED)).toBe(false);
+    expect(isRetryableDecline(DeclineReason.CARD_EXPIRED)).toBe(false);
+    expect(isRetryableDecline(null)).toBe(false);
+  });
+});
+
+describe('decline details in responses', () => {
+  let agent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    agent = createMockAgent();
+    originalDispatcher = setupMockAgent(agent);
+  });
+
+  afterEach(async () => {
+    restoreDispatcher(originalDispatcher);
+    await agent.close();
+  });
+
+  it('exposes action code and SVFE response of a paid order', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/public/acknowledgeTransaction.do', method: 'POST' })
+      .reply(200, MOCK_CONFIRM_SUCCESS, { headers: { 'content-type': 'application/json' } });
+
+    const client = createSatimClient(createTestConfig());
+    const response = await client.confirm('V721uPPfNNofVQAAABL3');
+
+    expect(response.actionCode).toBe(0);
+    expect(response.svfeResponse).toBe('00');
+    expect(response.errorMessage).toBe('Success');
+    expect(response.declineReason).toBeNull();
+    expect(response.canRetryWithSameCard()).toBe(false);
+  });
+
+  it('classifies declined orders returned with ErrorCode 0', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/public/acknowledgeTransaction.do', method: 'POST' })
+      .reply(
+        200,
+        { ...MOCK_CONFIRM_DECLINED, ErrorCode: '0', actionCode: '71015', SvfeResponse: '82' },
+        { headers: { 'content-type': 'application/json' } }
+      );
+
+    const client = createSatimClient(createTestConfig());
+    const response = await client.confirm('V721uPPfNNofVQAAABL3');
+
+    expect(response.isPaid()).toBe(false);
+    expect(response.actionCode).toBe(71015);
+    expect(response.declineReason).toBe(DeclineReason.INVALID_CARD_DATA);
+    expect(response.canRetryWithSameCard()).toBe(true);
+  });
+
+  it('adds the decline reason to the SatimApiError of a declined confirmation', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/public/acknowledgeTransaction.do', method: 'POST' })
+      .reply(200, MOCK_CONFIRM_DECLINED, { headers: { 'content-type': 'application/json' } });
+
+    const client = createSatimClient(createTestConfig());
+    const error = await client.confirm('V721uPPfNNofVQAAABL3').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SatimApiError);
+    expect((error as SatimApiError).satimErrorCode).toBe(2);
+    expect((error as SatimApiError).details).toMatchObject({
+      orderStatus: 6,
+      actionCode: 116,
+      svfeResponse: '51',
+      declineReason: DeclineReason.INSUFFICIENT_FUNDS,
+      retryableWithSameCard: false,
+    });
+  });
+
+  it('uses respCode from params when SvfeResponse is missing', async () => {
+    const { SvfeResponse: _omitted, ...withoutSvfe } = MOCK_CONFIRM_DECLINED;
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/public/acknowledgeTransaction.do', method: 'POST' })
+      .reply(
+        200,
+        { ...withoutSvfe, actionCode: 99999 },
+        { headers: { 'content-type': 'application/json' } }
+      );
+
+    const client = createSatimClient(createTestConfig());
+    const error = await client.confirm('V721uPPfNNofVQAAABL3').catch((e: unknown) => e);
+
+    expect((error as SatimApiError).details).toMatchObject({
+      svfeResponse: '51',
+      declineReason: DeclineReason.INSUFFICIENT_FUNDS,
+    });
+  });
+
+  it('classifies declined orders in getOrderStatus', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/getOrderStatusExtended.do', method: 'POST' })
+      .reply(
+        200,
+        { ...MOCK_ORDER_STATUS_SUCCESS, orderStatus: 6, actionCode: 910 },
+        { headers: { 'content-type': 'application/json' } }
+      );
+
+    const client = createSatimClient(createTestConfig());
+    const status = await client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3' });
+
+    expect(status.declineReason).toBe(DeclineReason.ISSUER_UNAVAILABLE);
+    expect(status.canRetryWithSameCard()).toBe(true);
+  });
+
+  it('leaves declineReason null for orders that are not declined', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/getOrderStatusExtended.do', method: 'POST' })
+      .reply(
+        200,
+        { ...MOCK_ORDER_STATUS_SUCCESS, orderStatus: 0, actionCode: -100 },
+        { headers: { 'content-type': 'application/json' } }
+      );
+
+    const client = createSatimClient(createTestConfig());
+    const status = await client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3' });
+
+    expect(status.declineReason).toBeNull();
+  });
+});
+
+describe('decline classification against the simulator', () => {
+  let simulator: SatimSimulator;
+  let orderSeq = 0;
+
+  beforeAll(async () => {
+    simulator = await startSatimSimulator();
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  const EXPECTED: Record<string, string | null> = {
+    '6280581110007215': null,
+    '6280580610061011': null,
+    '6280581110006712': DeclineReason.CARD_BLOCKED,
+    '6280580610061110': DeclineReason.INSUFFICIENT_FUNDS,
+    '6280580610061219': DeclineReason.LIMIT_EXCEEDED,
+    '6280581110006514': DeclineReason.INVALID_CARD_DATA,
+    '6280580000000017': DeclineReason.CARD_EXPIRED,
+    '6280580000000025': DeclineReason.AUTHENTICATION_FAILED,
+    '6280580000000033': DeclineReason.ISSUER_UNAVAILABLE,
+    '6280580000000041': DeclineReason.CARD_BLOCKED,
+    '6280580000000058': DeclineReason.TIMEOUT,
+  };
+
+  it.each(SIMULATOR_TEST_CARDS.map((card) => [card.label, card.pan]))(
+    'classifies %s',
+    async (_label, pan) => {
+      const client = createSatimClient(
+        createTestConfig({ apiBaseUrl: simulator.apiBaseUrl })
+      );
+      const order = await client.register({
+        orderNumber: `DECL${++orderSeq}`,
+        amount: 5000,
+        returnUrl: 'https://merchant.com/success',
+        udf1: 'INV001',
+      });
+      simulator.pay(order.orderId!, pan);
+
+      const status = await client.getOrderStatus({ orderId: order.orderId! });
+
+      expect(status.declineReason).toBe(EXPECTED[pan]);
+    }
+  );
+});
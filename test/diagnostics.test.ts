@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import { createSatimClient } from '../src/client.js';
+import { DIAGNOSTICS_CHANNELS } from '../src/constants.js';
+import { HttpError } from '../src/errors.js';
+import type {
+  SatimRequestEndMessage,
+  SatimRequestErrorMessage,
+  SatimRequestRetryMessage,
+  SatimRequestStartMessage,
+} from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
+
+type Listener = (message: unknown, name: string | symbol) => void;
+
+const subscriptions: Array<[string, Listener]> = [];
+
+/**
+ * Subscribes to a channel and collects its messages
+ */
+function collect<T>(name: string): T[] {
+  const messages: T[] = [];
+  const listener: Listener = (message) => messages.push(message as T);
+  subscribe(name, listener);
+  subscriptions.push([name, listener]);
+  return messages;
+}
+
+describe('diagnostics channels', () => {
+  afterEach(() => {
+    for (const [name, listener] of subscriptions.splice(0)) {
+      unsubscribe(name, listener);
+    }
+  });
+
+  it('publishes start, error, retry and end events with redacted payloads', async () => {
+    const starts = collect<SatimRequestStartMessage>(DIAGNOSTICS_CHANNELS.REQUEST_START);
+    const ends = collect<SatimRequestEndMessage>(DIAGNOSTICS_CHANNELS.REQUEST_END);
+    const errors = collect<SatimRequestErrorMessage>(DIAGNOSTICS_CHANNELS.REQUEST_ERROR);
+    const retries = collect<SatimRequestRetryMessage>(DIAGNOSTICS_CHANNELS.REQUEST_RETRY);
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const client = createSatimClient(
+      createTestConfig({
+        http: { fetch, retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false } },
+        logger: { enableDevLogging: false },
+      })
+    );
+
+    await client.confirm('V721uPPfNNofVQAAABL3', {
+      context: { requestId: 'req-1', password: 'hunter2' },
+    });
+
+    expect(starts.map(({ request }) => request.attempt)).toEqual([1, 2]);
+    expect(starts[0]!.request).toEqual({
+      operation: 'confirm',
+      endpoint: '/public/acknowledgeTransaction.do',
+      method: 'POST',
+      attempt: 1,
+      params: {
+        userName: '[REDACTED]',
+        password: '[REDACTED]',
+        mdOrder: '[REDACTED]...AAABL3',
+        language: 'fr',
+      },
+      context: { requestId: 'req-1', password: '[REDACTED]' },
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.request).toBe(starts[0]!.request);
+    expect(errors[0]!.error).toBeInstanceOf(HttpError);
+    expect(retries).toEqual([
+      {
+        request: expect.objectContaining({ attempt: 1 }),
+        error: errors[0]!.error,
+        delayMs: 1,
+      },
+    ]);
+    expect(ends).toEqual([
+      {
+        request: starts[1]!.request,
+        statusCode: 200,
+        durationMs: expect.any(Number),
+        satimErrorCode: 0,
+      },
+    ]);
+  });
+
+  it('sends requests normally without subscribers', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const client = createSatimClient(
+      createTestConfig({ http: { fetch }, logger: { enableDevLogging: false } })
+    );
+
+    await expect(client.confirm('order')).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, afterAll, beforeAll, afterEach } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { HttpError, SatimApiError, TimeoutError } from '../src/errors.js';
+import type { HttpConfig } from '../src/types.js';
+import {
+  createFaultInjectingFetch,
+  startSatimSimulator,
+} from '../src/simulator/index.js';
+import type { FaultRule, SatimSimulator } from '../src/simulator/index.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+const REGISTER_PARAMS = {
+  orderNumber: 'ORD001',
+  amount: 5000,
+  returnUrl: 'https://merchant.com/success',
+  udf1: 'INV001',
+};
+
+/**
+ * Fetch stub answering every endpoint with a fixed JSON body
+ */
+function createBaseFetch() {
+  return vi.fn(async (url: string) => {
+    const body = url.includes('acknowledgeTransaction')
+      ? MOCK_CONFIRM_SUCCESS
+      : MOCK_REGISTER_SUCCESS;
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  });
+}
+
+function createFaultyClient(rules: FaultRule[], http: HttpConfig = {}) {
+  const base = createBaseFetch();
+  const client = createSatimClient(
+    createTestConfig({
+      http: {
+        timeoutMs: 1000,
+        fetch: createFaultInjectingFetch({ rules, fetch: base }),
+        ...http,
+      },
+    })
+  );
+  return { client, base };
+}
+
+describe('createFaultInjectingFetch', () => {
+  it('passes requests through when no rule fires', async () => {
+    const { client, base } = createFaultyClient([
+      { endpoint: '/refund.do', fault: { type: 'drop' } },
+    ]);
+
+    const result = await client.register(REGISTER_PARAMS);
+
+    expect(result.orderId).toBe(MOCK_REGISTER_SUCCESS.orderId);
+    expect(base).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns an HTML maintenance page with HTTP 200 into an HttpError', async () => {
+    const { client } = createFaultyClient([{ fault: { type: 'html' } }]);
+
+    const error = await client.register(REGISTER_PARAMS).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).message).toBe('Invalid JSON response from Satim API');
+    expect((error as HttpError).cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it('turns a truncated JSON body into an HttpError', async () => {
+    const { client } = createFaultyClient([{ fault: { type: 'truncatedJson' } }]);
+
+    await expect(client.register(REGISTER_PARAMS)).rejects.toThrow(
+      'Invalid JSON response from Satim API'
+    );
+  });
+
+  it('accepts a JSON body served with a wrong content type', async () => {
+    const { client } = createFaultyClient([
+      { fault: { type: 'contentType', contentType: 'text/html' } },
+    ]);
+
+    const result = await client.register(REGISTER_PARAMS);
+
+    expect(result.orderId).toBe(MOCK_REGISTER_SUCCESS.orderId);
+  });
+
+  it('surfaces 5xx errors with their status', async () => {
+    const { client } = createFaultyClient([
+      { fault: { type: 'httpError', status: 503 } },
+    ]);
+
+    const error = await client.register(REGISTER_PARAMS).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).httpStatus).toBe(503);
+  });
+
+  it('wraps dropped connections in an HttpError', async () => {
+    const { client } = createFaultyClient([{ fault: { type: 'drop' } }]);
+
+    const error = await client.register(REGISTER_PARAMS).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).message).toBe('Network error occurred');
+    expect((error as HttpError).httpStatus).toBeUndefined();
+  });
+
+  it('reaches the gateway before dropping with afterProcessing', async () => {
+    const { client, base } = createFaultyClient([
+      { fault: { type: 'drop', afterProcessing: true } },
+    ]);
+
+    await expect(client.register(REGISTER_PARAMS)).rejects.toBeInstanceOf(HttpError);
+    expect(base).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out when the injected latency exceeds timeoutMs', async () => {
+    const { client, base } = createFaultyClient(
+      [{ fault: { type: 'latency', ms: 500 } }],
+      { timeoutMs: 20 }
+    );
+
+    const error = await client.register(REGISTER_PARAMS).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(20);
+    expect(base).not.toHaveBeenCalled();
+  });
+
+  it('answers normally after latency shorter than timeoutMs', async () => {
+    const { client } = createFaultyClient([{ fault: { type: 'latency', ms: 5 } }]);
+
+    const result = await client.register(REGISTER_PARAMS);
+
+    expect(result.isSuccessful()).toBe(true);
+  });
+
+  it('replaces errorCode and ErrorCode with one of the configured codes', async () => {
+    const { client } = createFaultyClient([
+      { fault: { type: 'errorCode', codes: [5] } },
+    ]);
+
+    const registerError = await client.register(REGISTER_PARAMS).catch((e: unknown) => e);
+    const confirmError = await client.confirm('mdOrder-1').catch((e: unknown) => e);
+
+    expect(registerError).toBeInstanceOf(SatimApiError);
+    expect((registerError as SatimApiError).satimErrorCode).toBe(5);
+    expect(confirmError).toBeInstanceOf(SatimApiError);
+    expect((confirmError as SatimApiError).satimErrorCode).toBe(5);
+  });
+
+  it('matches rules by endpoint suffix or RegExp', async () => {
+    const { client } = createFaultyClient([
+      { endpoint: /acknowledge/, fault: { type: 'httpError', status: 502 } },
+      { endpoint: '/register.do', fault: { type: 'httpError', status: 504 } },
+    ]);
+
+    await expect(client.register(REGISTER_PARAMS)).rejects.toMatchObject({ httpStatus: 504 });
+    await expect(client.confirm('mdOrder-1')).rejects.toMatchObject({ httpStatus: 502 });
+  });
+
+  it('uses the random source for probabilities and honours times', async () => {
+    const draws = [0.9, 0.1, 0.1, 0.1];
+    const onFault = vi.fn();
+    const base = createBaseFetch();
+    const fetch = createFaultInjectingFetch({
+      rules: [{ probability: 0.5, times: 2, fault: { type: 'httpError', status: 500 } }],
+      fetch: base,
+      random: () => draws.shift() ?? 0,
+      onFault,
+    });
+    const url = 'https://test.satim.dz/payment/rest/register.do';
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await fetch(url, {})).status);
+    }
+
+    expect(statuses).toEqual([200, 500, 500, 200]);
+    expect(onFault).toHaveBeenCalledTimes(2);
+    expect(onFault).toHaveBeenCalledWith({
+      path: '/payment/rest/register.do',
+      fault: { type: 'httpError', status: 500 },
+    });
+  });
+
+  it('lets the retry policy recover from injected transient faults', async () => {
+    const { client, base } = createFaultyClient(
+      [{ times: 2, fault: { type: 'httpError', status: 503 } }],
+      { retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false } }
+    );
+
+    const result = await client.confirm('mdOrder-1');
+
+    expect(result.isSuccessful()).toBe(true);
+    expect(base).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('simulator faults', () => {
+  let simulator: SatimSimulator;
+
+  beforeAll(async () => {
+    simulator = await startSatimSimulator();
+  });
+
+  afterEach(() => {
+    simulator.setFaults(null);
+    simulator.reset();
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  const createClient = () =>
+    createSatimClient(
+      createTestConfig({
+        apiBaseUrl: simulator.apiBaseUrl,
+        http: { timeoutMs: 2000 },
+      })
+    );
+
+  it('serves a maintenance page without processing the request', async () => {
+    simulator.setFaults({ rules: [{ endpoint: '/register.do', fault: { type: 'html' } }] });
+
+    await expect(createClient().register(REGISTER_PARAMS)).rejects.toThrow(
+      'Invalid JSON response from Satim API'
+    );
+    expect(simulator.listOrders()).toHaveLength(0);
+  });
+
+  it('keeps the effects of a request whose connection drops after processing', async () => {
+    simulator.setFaults({
+      rules: [{ times: 1, fault: { type: 'drop', afterProcessing: true } }],
+    });
+    const client = createClient();
+
+    await expect(client.register(REGISTER_PARAMS)).rejects.toBeInstanceOf(HttpError);
+    expect(simulator.listOrders()).toHaveLength(1);
+
+    const status = await client.getOrderStatus({ orderNumber: REGISTER_PARAMS.orderNumber });
+    expect(status.orderId).toBe(simulator.listOrders()[0]!.orderId);
+  });
+
+  it('injects random error codes into real responses', async () => {
+    simulator.setFaults({
+      rules: [{ fault: { type: 'errorCode', codes: [7] } }],
+    });
+
+    const error = await createClient().register(REGISTER_PARAMS).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SatimApiError);
+    expect((error as SatimApiError).satimErrorCode).toBe(7);
+  });
+
+  it('accepts fault rules at startup', async () => {
+    const faulty = await startSatimSimulator({
+      faults: { rules: [{ fault: { type: 'httpError', status: 503 } }] },
+    });
+    try {
+      const client = createSatimClient(
+        createTestConfig({ apiBaseUrl: faulty.apiBaseUrl })
+      );
+      await expect(client.register(REGISTER_PARAMS)).rejects.toMatchObject({
+        httpStatus: 503,
+      });
+    } finally {
+      await faulty.close();
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { HttpError, SatimApiError, ValidationError } from '../src/errors.js';
+import { DeclineReason } from '../src/types.js';
+import type { SatimClient } from '../src/client.js';
+import { startSatimSimulator } from '../src/simulator/index.js';
+import type { SatimSimulator } from '../src/simulator/index.js';
+import { createTestConfig } from './helpers.js';
+
+const APPROVED_CARD = '6280581110007215';
+const INSUFFICIENT_FUNDS_CARD = '6280580610061110';
+const WRONG_CVV_CARD = '6280581110006514';
+
+describe('handleReturn', () => {
+  let simulator: SatimSimulator;
+  let client: SatimClient;
+  let orderSeq = 0;
+
+  beforeAll(async () => {
+    simulator = await startSatimSimulator();
+    client = createSatimClient(
+      createTestConfig({ apiBaseUrl: simulator.apiBaseUrl })
+    );
+  });
+
+  afterEach(() => {
+    simulator.reset();
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  async function registerOrder(preAuth = false) {
+    const params = {
+      orderNumber: `RET${++orderSeq}`,
+      amount: 5000,
+      returnUrl: 'https://merchant.com/return',
+      failUrl: 'https://merchant.com/failed',
+      udf1: 'INV001',
+    };
+    const order = preAuth
+      ? await client.registerPreAuth(params)
+      : await client.register(params);
+    return order.orderId!;
+  }
+
+  it('returns paid with a localized message', async () => {
+    const orderId = await registerOrder();
+    const { redirectUrl } = simulator.pay(orderId, APPROVED_CARD);
+
+    const result = await client.handleReturn(new URL(redirectUrl), { language: 'en' });
+
+    expect(result.status).toBe('paid');
+    expect(result.orderId).toBe(orderId);
+    expect(result.message).toBe('Your payment was accepted.');
+    if (result.status === 'paid') {
+      expect(result.confirmation.isPaid()).toBe(true);
+    }
+  });
+
+  it('accepts a Fetch API Request', async () => {
+    const orderId = await registerOrder();
+    const { redirectUrl } = simulator.pay(orderId, APPROVED_CARD);
+
+    const result = await client.handleReturn(new Request(redirectUrl));
+
+    expect(result.status).toBe('paid');
+    expect(result.message).toBe('Votre paiement a été accepté.');
+  });
+
+  it('returns declined with the reason and retry hint', async () => {
+    const orderId = await registerOrder();
+    const { redirectUrl } = simulator.pay(orderId, INSUFFICIENT_FUNDS_CARD);
+
+    const result = await client.handleReturn(new URL(redirectUrl), { language: 'ar' });
+
+    expect(result).toMatchObject({
+      status: 'declined',
+      orderId,
+      declineReason: DeclineReason.INSUFFICIENT_FUNDS,
+      canRetryWithSameCard: false,
+      message: 'رصيد بطاقتك غير كافٍ.',
+      confirmation: null,
+    });
+  });
+
+  it('tells when retrying with the same card makes sense', async () => {
+    const orderId = await registerOrder();
+    const { redirectUrl } = simulator.pay(orderId, WRONG_CVV_CARD);
+
+    const result = await client.handleReturn(new URL(redirectUrl));
+
+    expect(result).toMatchObject({
+      status: 'declined',
+      declineReason: DeclineReason.INVALID_CARD_DATA,
+      canRetryWithSameCard: true,
+    });
+  });
+
+  it('returns cancelled when the customer abandons the payment page', async () => {
+    const orderId = await registerOrder();
+    const { redirectUrl } = simulator.cancel(orderId);
+
+    const result = await client.handleReturn(new URL(redirectUrl), { language: 'en' });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.message).toBe('You cancelled the payment. Your card was not charged.');
+  });
+
+  it('returns authorized for paid pre-authorized orders', async () => {
+    const orderId = await registerOrder(true);
+    const { redirectUrl } = simulator.pay(orderId, APPROVED_CARD);
+
+    const result = await client.handleReturn(new URL(redirectUrl), { language: 'en' });
+
+    expect(result).toMatchObject({
+      status: 'authorized',
+      orderId,
+      message: 'The payment amount is on hold.',
+      confirmation: { orderStatus: 1 },
+    });
+  });
+
+  it.each([
+    ['missing', 'https://merchant.com/return'],
+    ['malformed', 'https://merchant.com/return?orderId=%3Cscript%3E'],
+  ])('returns error for a %s orderId without calling SATIM', async (_case, url) => {
+    const result = await client.handleReturn(new URL(url), { language: 'en' });
+
+    expect(result.status).toBe('error');
+    expect(result.orderId).toBeNull();
+    expect(result.message).toBe('The order identifier is missing or invalid.');
+    if (result.status === 'error') {
+      expect(result.error).toBeInstanceOf(ValidationError);
+    }
+  });
+
+  it('returns error for unknown orders', async () => {
+    const result = await client.handleReturn(
+      new URL('https://merchant.com/return?orderId=doesNotExist'),
+      { language: 'en' }
+    );
+
+    expect(result.status).toBe('error');
+    if (result.status === 'error') {
+      expect(result.error).toBeInstanceOf(SatimApiError);
+      expect(result.error.satimErrorCode).toBe(6);
+      expect(result.message).toBe('Unregistered order Id');
+    }
+  });
+
+  it('returns error when SATIM cannot be reached', async () => {
+    const offline = createSatimClient(
+      createTestConfig({
+        http: {
+          fetch: async () => {
+            throw new TypeError('fetch failed');
+          },
+        },
+      })
+    );
+
+    const result = await offline.handleReturn(
+      new URL('https://merchant.com/return?orderId=abc123'),
+      { language: 'en' }
+    );
+
+    expect(result.status).toBe('error');
+    if (result.status === 'error') {
+      expect(result.error).toBeInstanceOf(HttpError);
+      expect(result.message).toMatch(/temporarily unavailable/);
+    }
+  });
+});
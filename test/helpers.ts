@@ -1,5 +1,6 @@
 import { MockAgent, setGlobalDispatcher, getGlobalDispatcher, type Dispatcher } from 'undici';
-import type { SatimConfig } from '../src/types.js';
+import { createSatimClient } from '../src/client.js';
+import type { HttpConfig, SatimConfig } from '../src/types.js';
 
 /**
  * Test configuration factory
@@ -23,6 +24,22 @@ export function createTestConfig(overrides: Partial<SatimConfig> = {}): SatimCon
   };
 }
 
+/**
+ * Creates a client with the test configuration and the given HTTP options
+ */
+export function createClient(http: HttpConfig) {
+  return createSatimClient(createTestConfig({ http: { timeoutMs: 5000, ...http } }));
+}
+
+/**
+ * Fetch stub that never answers and rejects when its signal aborts
+ */
+export function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+  });
+}
+
 /**
  * Creates a mock agent for testing HTTP requests
  */
@@ -98,6 +115,44 @@ export const MOCK_REFUND_SUCCESS = {
   errorCode: 0,
 };
 
+/**
+ * Standard successful getOrderStatusExtended response
+ */
+export const MOCK_ORDER_STATUS_SUCCESS = {
+  errorCode: '0',
+  errorMessage: 'Success',
+  orderNumber: 'CMD0000004',
+  orderStatus: 2,
+  actionCode: 0,
+  actionCodeDescription: 'Votre paiement a été accepté',
+  amount: 100320,
+  currency: '012',
+  date: 1735689600000,
+  orderDescription: 'Test order',
+  ip: '10.12.12.14',
+  merchantOrderParams: [{ name: 'udf1', value: 'Bill00001' }],
+  attributes: [{ name: 'mdOrder', value: 'V721uPPfNNofVQAAABL3' }],
+  cardAuthInfo: {
+    expiration: '202701',
+    cardholderName: 'TEST USER',
+    approvalCode: '913180',
+    pan: '628058**7215',
+  },
+  authDateTime: 1735689660000,
+  terminalId: 'E010TEST01',
+  authRefNum: '913180',
+  paymentAmountInfo: {
+    paymentState: 'DEPOSITED',
+    approvedAmount: 100320,
+    depositedAmount: 100320,
+    refundedAmount: 0,
+  },
+  bankInfo: {
+    bankCountryCode: 'DZ',
+    bankCountryName: 'Algérie',
+  },
+};
+
 /**
  * Parse URL-encoded body from request
  */
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { createLogger, fromBunyan, fromPino, fromWinston } from '../src/logger.js';
+import { runWithContext } from '../src/context.js';
+import { fromEnv } from '../src/env.js';
+import { ConfigError } from '../src/errors.js';
+import type { PinoLikeLogger, WinstonLikeLogger } from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
+
+interface Entry {
+  method: string;
+  bindings: Record<string, unknown>;
+  obj: Record<string, unknown>;
+  msg?: string;
+}
+
+/**
+ * Records calls the way pino and bunyan loggers receive them
+ */
+function createPinoStub(
+  entries: Entry[] = [],
+  bindings: Record<string, unknown> = {},
+  methods = ['trace', 'debug', 'info', 'warn', 'error', 'fatal']
+): PinoLikeLogger {
+  const logger: Record<string, unknown> = {
+    child: (childBindings: Record<string, unknown>) =>
+      createPinoStub(entries, { ...bindings, ...childBindings }, methods),
+  };
+  for (const method of methods) {
+    logger[method] = function (this: unknown, obj: Record<string, unknown>, msg?: string) {
+      expect(this).toBe(logger);
+      entries.push({ method, bindings, obj, msg });
+    };
+  }
+  return logger as unknown as PinoLikeLogger;
+}
+
+/**
+ * Records calls the way a winston logger receives them
+ */
+function createWinstonStub(
+  entries: Entry[],
+  levels: Record<string, number>,
+  bindings: Record<string, unknown> = {}
+): WinstonLikeLogger {
+  return {
+    levels,
+    log: (level, message, meta) => {
+      entries.push({ method: level, bindings, obj: meta, msg: message });
+    },
+    child: (meta) => createWinstonStub(entries, levels, { ...bindings, ...meta }),
+  };
+}
+
+describe('logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createLogger', () => {
+    it('writes one JSON object per line in json format', () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const logger = createLogger('info', { format: 'json' }).child!({ service: 'checkout' });
+
+      logger.debug({ skipped: true }, 'Hidden');
+      logger.warn({ endpoint: '/register.do', level: 'spoofed' }, 'Slow request');
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      const line = String(consoleSpy.mock.calls[0]![0]);
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        level: 'warn',
+        time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        name: 'satim',
+        msg: 'Slow request',
+        service: 'checkout',
+        endpoint: '/register.do',
+      });
+    });
+
+    it('keeps the text format by default', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      createLogger('info').error({ code: 1 }, 'Failed');
+
+      expect(String(consoleSpy.mock.calls[0]![0])).toMatch(
+        /^\[.+\] \[satim\] \[ERROR\] Failed: \{"code":1\}$/
+      );
+    });
+
+    it('adds the request context outside of calls', () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      runWithContext({ correlationId: 'corr-1' }, () =>
+        createLogger('info', { format: 'json' }).info({}, 'Circuit closed')
+      );
+
+      expect(JSON.parse(String(consoleSpy.mock.calls[0]![0]))).toMatchObject({
+        context: { correlationId: 'corr-1' },
+      });
+    });
+
+    it('is used by clients configured with format json', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const client = createSatimClient(
+        createTestConfig({
+          http: { fetch: async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)) },
+          logger: { enableDevLogging: true, level: 'info', format: 'json' },
+        })
+      );
+
+      await client.confirm('V721uPPfNNofVQAAABL3');
+
+      const entries = consoleSpy.mock.calls.map((call) => JSON.parse(String(call[0])));
+      expect(entries).toContainEqual(
+        expect.objectContaining({ level: 'info', msg: 'Satim API request completed' })
+      );
+    });
+  });
+
+  describe('fromPino and fromBunyan', () => {
+    it('passes fields and message through, with child bindings', () => {
+      const entries: Entry[] = [];
+      const logger = fromPino(createPinoStub(entries)).child!({ orderId: 'abc' });
+
+      logger.info({ endpoint: '/confirm' }, 'Done');
+      logger.warn({ attempt: 2 });
+
+      expect(entries).toEqual([
+        { method: 'info', bindings: { orderId: 'abc' }, obj: { endpoint: '/confirm' }, msg: 'Done' },
+        { method: 'warn', bindings: { orderId: 'abc' }, obj: { attempt: 2 }, msg: undefined },
+      ]);
+    });
+
+    it('maps levels to custom methods', () => {
+      const entries: Entry[] = [];
+      const logger = fromBunyan(createPinoStub(entries), { levels: { debug: 'trace' } });
+
+      logger.debug({}, 'Verbose');
+      logger.error({}, 'Broken');
+
+      expect(entries.map(({ method }) => method)).toEqual(['trace', 'error']);
+    });
+
+    it('rejects loggers without the needed methods', () => {
+      expect(() => fromPino(createPinoStub([], {}, ['info', 'warn', 'error']))).toThrow(
+        ConfigError
+      );
+      expect(() => fromBunyan({} as PinoLikeLogger)).toThrow(ConfigError);
+    });
+  });
+
+  describe('fromWinston', () => {
+    it('logs with level, message and fields, with child bindings', () => {
+      const entries: Entry[] = [];
+      const npmLevels = { error: 0, warn: 1, info: 2, http: 3, verbose: 4, debug: 5, silly: 6 };
+      const logger = fromWinston(createWinstonStub(entries, npmLevels)).child!({ shop: 1 });
+
+      logger.warn({ attempt: 2 }, 'Retrying');
+      logger.debug({ raw: true });
+
+      expect(entries).toEqual([
+        { method: 'warn', bindings: { shop: 1 }, obj: { attempt: 2 }, msg: 'Retrying' },
+        { method: 'debug', bindings: { shop: 1 }, obj: { raw: true }, msg: '' },
+      ]);
+    });
+
+    it('maps warn to warning for syslog levels', () => {
+      const entries: Entry[] = [];
+      const syslogLevels = {
+        emerg: 0,
+        alert: 1,
+        crit: 2,
+        error: 3,
+        warning: 4,
+        notice: 5,
+        info: 6,
+        debug: 7,
+      };
+
+      fromWinston(createWinstonStub(entries, syslogLevels)).warn({}, 'Careful');
+
+      expect(entries[0]!.method).toBe('warning');
+    });
+
+    it('rejects level mappings the logger does not know', () => {
+      const logger = createWinstonStub([], { error: 0, info: 1 });
+
+      expect(() => fromWinston(logger)).toThrow(/no debug, warning level/);
+      expect(() =>
+        fromWinston(logger, { levels: { warn: 'error', debug: 'info' } })
+      ).not.toThrow();
+    });
+  });
+
+  it('reads the format from the environment', () => {
+    const env = {
+      SATIM_USERNAME: 'user',
+      SATIM_PASSWORD: 'pass',
+      SATIM_TERMINAL_ID: 'E010XXXXXX',
+      SATIM_API_URL: 'https://test2.satim.dz/payment/rest',
+      SATIM_LOG_FORMAT: 'JSON',
+    };
+
+    expect(fromEnv({ env }).logger?.format).toBe('json');
+    expect(fromEnv({ env: { ...env, SATIM_LOG_FORMAT: 'xml' } }).logger?.format).toBe('text');
+  });
+});
@@ -1,10 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
+  createRedactor,
+  maskCardData,
   redactValue,
   redactObject,
   redactUrl,
   createSafeLogData,
 } from '../src/redact.js';
+import { createSatimClient } from '../src/client.js';
+import { ConfigError, HttpError, SatimApiError, ValidationError } from '../src/errors.js';
+import { runWithContext } from '../src/context.js';
+import type { SatimLogger } from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
 
 describe('redactValue', () => {
   describe('fully redacted keys', () => {
@@ -261,3 +268,281 @@ describe('createSafeLogData', () => {
     expect(result).toEqual({});
   });
 });
+
+describe('createRedactor', () => {
+  it('should add, remove and partially mask keys', () => {
+    const redactor = createRedactor({
+      redactKeys: ['email'],
+      partialKeys: ['phone'],
+      allowKeys: ['Ip', 'orderId'],
+      partialShowChars: 4,
+    });
+
+    const result = redactor.redactObject({
+      Email: 'a@b.dz',
+      phone: '0555123456',
+      ip: '10.12.12.14',
+      orderId: 'V721uPPfNNofVQAAABL3',
+      mdOrder: 'V721uPPfNNofVQAAABL3',
+      password: 'secret',
+    });
+
+    expect(result).toEqual({
+      Email: '[REDACTED]',
+      phone: '[REDACTED]...3456',
+      ip: '10.12.12.14',
+      orderId: 'V721uPPfNNofVQAAABL3',
+      mdOrder: '[REDACTED]...ABL3',
+      password: '[REDACTED]',
+    });
+  });
+
+  it('should scan string values with the value patterns', () => {
+    const redactor = createRedactor({
+      valuePatterns: [/\b\d{13,19}\b/],
+      detectCardData: false,
+    });
+
+    const result = redactor.redactObject({
+      note: 'card 6280581110007215 and 6280581110007223',
+      nested: ['6280581110007215'],
+      amount: 500000,
+    });
+
+    expect(result).toEqual({
+      note: 'card [REDACTED] and [REDACTED]',
+      nested: ['[REDACTED]'],
+      amount: 500000,
+    });
+  });
+
+  it('should apply the partial mask to safe log data', () => {
+    const redactor = createRedactor({ partialShowChars: 0 });
+
+    expect(redactor.createSafeLogData({ orderId: 'V721uPPfNNofVQAAABL3' })).toEqual({
+      orderId: '[REDACTED]',
+    });
+  });
+
+  it('should reject invalid partialShowChars', () => {
+    expect(() => createRedactor({ partialShowChars: -1 })).toThrow(ConfigError);
+  });
+
+  it('should redact response fields by default', () => {
+    const result = redactObject({
+      cardholderName: 'TEST USER',
+      Ip: '10.12.12.14',
+      approvalCode: '913180',
+      clientId: 'client-1',
+    });
+
+    expect(result).toEqual({
+      cardholderName: '[REDACTED]',
+      Ip: '[REDACTED]',
+      approvalCode: '[REDACTED]',
+      clientId: '[REDACTED]',
+    });
+  });
+});
+
+describe('client redaction', () => {
+  const fetch = async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+
+  it('should redact the response passed to onResponse', async () => {
+    const onResponse = vi.fn();
+    const client = createSatimClient(
+      createTestConfig({ http: { fetch, onResponse }, logger: { enableDevLogging: false } })
+    );
+
+    const response = await client.confirm('V721uPPfNNofVQAAABL3');
+
+    const hookData = onResponse.mock.calls[0]![1];
+    expect(hookData).toMatchObject({
+      cardholderName: '[REDACTED]',
+      Ip: '[REDACTED]',
+      expiration: '[REDACTED]',
+      approvalCode: '[REDACTED]',
+      Pan: '[REDACTED]',
+      OrderNumber: '[REDACTED]...000004',
+      actionCode: 0,
+    });
+    // The response returned to the caller is not redacted
+    expect(response.raw.cardholderName).toBe('TEST USER');
+  });
+
+  it('should pass the raw response to onResponse when opted out', async () => {
+    const onResponse = vi.fn();
+    const client = createSatimClient({
+      ...createTestConfig({ http: { fetch, onResponse }, logger: { enableDevLogging: false } }),
+      redaction: { redactHookResponses: false },
+    });
+
+    await client.confirm('V721uPPfNNofVQAAABL3');
+
+    expect(onResponse.mock.calls[0]![1]).toEqual(MOCK_CONFIRM_SUCCESS);
+  });
+
+  it('should apply the policy to logs and error details', async () => {
+    const entries: Array<Record<string, unknown>> = [];
+    const logger: SatimLogger = {
+      debug: (obj) => entries.push(obj),
+      info: (obj) => entries.push(obj),
+      warn: (obj) => entries.push(obj),
+      error: (obj) => entries.push(obj),
+    };
+    const client = createSatimClient({
+      ...createTestConfig({
+        http: {
+          fetch: async () =>
+            new Response(JSON.stringify({ errorCode: 7, errorMessage: 'Invalid amount' })),
+        },
+        logger: { customLogger: logger },
+      }),
+      redaction: { redactKeys: ['customerEmail', 'amount'] },
+    });
+
+    const error = await client
+      .deposit('V721uPPfNNofVQAAABL3', 9000, { context: { customerEmail: 'a@b.dz' } })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SatimApiError);
+    expect((error as SatimApiError).details).toMatchObject({ amount: '[REDACTED]' });
+    expect(entries.length).toBeGreaterThan(0);
+    for (const entry of entries) {
+      expect(entry['context']).toEqual({ customerEmail: '[REDACTED]' });
+    }
+  });
+
+  it('should redact error details when the error is built', async () => {
+    const seen: Array<Record<string, unknown> | undefined> = [];
+    const client = createSatimClient({
+      ...createTestConfig({
+        http: { fetch: async () => new Response('Bad Gateway', { status: 502 }) },
+        logger: { enableDevLogging: false },
+      }),
+      redaction: { redactKeys: ['customerEmail'] },
+    });
+    client.use(async (_request, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        // Seen before the error leaves the client call
+        seen.push({ ...(error as HttpError).details });
+        throw error;
+      }
+    });
+
+    const error = await runWithContext({ customerEmail: 'a@b.dz' }, () =>
+      client.confirm('V721uPPfNNofVQAAABL3').catch((e: unknown) => e)
+    );
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(seen).toEqual([{ context: { customerEmail: '[REDACTED]' } }]);
+    expect((error as HttpError).details).toEqual(seen[0]);
+  });
+
+  it('should keep order identifiers in error details, inside a call or not', async () => {
+    const client = createSatimClient({
+      ...createTestConfig({
+        http: {
+          fetch: async () =>
+            new Response(
+              JSON.stringify({ ...MOCK_CONFIRM_SUCCESS, ErrorCode: '2', OrderStatus: 6 })
+            ),
+        },
+        logger: { enableDevLogging: false },
+      }),
+      redaction: { redactKeys: ['customerEmail'] },
+    });
+
+    const declined = await runWithContext({ customerEmail: 'a@b.dz' }, () =>
+      client.confirm('V721uPPfNNofVQAAABL3').catch((e: unknown) => e)
+    );
+    const invalid = runWithContext({ password: 'hunter2' }, () =>
+      new ValidationError('Invalid refund', 'REFUND_EXCEEDS_BALANCE', {
+        orderId: 'V721uPPfNNofVQAAABL3',
+        card: '6280581110007215',
+      })
+    );
+
+    expect((declined as SatimApiError).details).toMatchObject({
+      orderNumber: 'CMD0000004',
+      context: { customerEmail: '[REDACTED]' },
+    });
+    expect(invalid.details).toEqual({
+      orderId: 'V721uPPfNNofVQAAABL3',
+      card: '628058******7215',
+      context: { password: '[REDACTED]' },
+    });
+  });
+});
+
+describe('maskCardData', () => {
+  it('should mask Luhn-valid card numbers to first 6 and last 4 digits', () => {
+    expect(maskCardData('card 6280581110007215')).toBe('card 628058******7215');
+    expect(maskCardData('4111 1111 1111 1111')).toBe('411111******1111');
+    expect(maskCardData('4111-1111-1111-1111')).toBe('411111******1111');
+    expect(maskCardData('378282246310005')).toBe('378282*****0005');
+  });
+
+  it('should leave other digit runs alone', () => {
+    // Fails the Luhn check
+    expect(maskCardData('4111111111111112')).toBe('4111111111111112');
+    // Millisecond timestamps do not start like card numbers
+    expect(maskCardData('at 1760000000000')).toBe('at 1760000000000');
+    expect(maskCardData('2026-10-18T10:20:00.000Z')).toBe('2026-10-18T10:20:00.000Z');
+    expect(maskCardData('amount 100320')).toBe('amount 100320');
+  });
+
+  it('should mask security codes and expiry dates', () => {
+    expect(maskCardData('cvv: 123, CVC2=4567')).toBe('cvv: ***, CVC2=***');
+    expect(maskCardData('{"cvv2":"123"}')).toBe('{"cvv2":"***"}');
+    expect(maskCardData('exp 0527, expiry=05/2027')).toBe('exp **/**, expiry=**/**');
+    expect(maskCardData('valid thru 12/29')).toBe('valid thru **/**');
+    expect(maskCardData('on 18/10/2026')).toBe('on 18/10/2026');
+  });
+
+  it('should run in redactObject for strings and numbers', () => {
+    const result = redactObject({
+      description: 'Paid with 4111111111111111 exp 12/29',
+      params: { udf3: '6280581110007215' },
+      cardAsNumber: 4111111111111111,
+    });
+
+    expect(result).toEqual({
+      description: 'Paid with 411111******1111 exp **/**',
+      params: { udf3: '628058******7215' },
+      cardAsNumber: '411111******1111',
+    });
+  });
+
+  it('should be disabled by detectCardData: false', () => {
+    const redactor = createRedactor({ detectCardData: false });
+
+    expect(redactor.redactValue('description', '4111111111111111')).toBe('4111111111111111');
+  });
+
+  it('should mask card data in every log entry of the client', async () => {
+    const entries: Array<{ obj: Record<string, unknown>; msg?: string }> = [];
+    const record = (obj: Record<string, unknown>, msg?: string) => {
+      entries.push({ obj, msg });
+    };
+    const client = createSatimClient(
+      createTestConfig({
+        http: { fetch: async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)) },
+        logger: {
+          customLogger: { debug: record, info: record, warn: record, error: record },
+        },
+      })
+    );
+
+    await client.confirm('V721uPPfNNofVQAAABL3', {
+      context: { note: 'customer typed 4111 1111 1111 1111 cvv 123' },
+    });
+
+    expect(entries.length).toBeGreaterThan(0);
+    const serialized = JSON.stringify(entries);
+    expect(serialized).not.toContain('4111 1111 1111 1111');
+    expect(serialized).toContain('customer typed 411111******1111 cvv ***');
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { describe as describeSatim } from '../src/describe.js';
+import {
+  getDeclineMessage,
+  getOrderStatusMessage,
+  getSatimErrorMessage,
+  getValidationMessage,
+} from '../src/messages.js';
+import {
+  ConfigError,
+  HttpError,
+  RequestAbortedError,
+  SatimApiError,
+  TimeoutError,
+  ValidationError,
+  mapSatimErrorCode,
+} from '../src/errors.js';
+import type { SatimOperation } from '../src/errors.js';
+import { toMinorUnits } from '../src/amount.js';
+import { DeclineReason, OrderStatus } from '../src/types.js';
+import type { ConfirmOrderResponse, SatimLanguage } from '../src/types.js';
+
+const LANGUAGES: SatimLanguage[] = ['fr', 'en', 'ar'];
+const OPERATIONS: SatimOperation[] = [
+  'register',
+  'confirm',
+  'refund',
+  'getOrderStatus',
+  'registerPreAuth',
+  'deposit',
+  'reverse',
+];
+const LATIN = /[A-Za-z]/;
+const ARABIC = /[\u0600-\u06ff]/;
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected function to throw');
+}
+
+function createResponse(overrides: Partial<ConfirmOrderResponse>): ConfirmOrderResponse {
+  return {
+    orderStatus: OrderStatus.DEPOSITED,
+    declineReason: null,
+    isPaid: () => true,
+    ...overrides,
+  } as ConfirmOrderResponse;
+}
+
+describe('message catalog', () => {
+  it('keeps the English labels of mapSatimErrorCode', () => {
+    expect(mapSatimErrorCode('register', 1)).toBe(
+      'Order with given order number has already been processed'
+    );
+    expect(mapSatimErrorCode('refund', 6)).toBe('Unregistered OrderId');
+    expect(mapSatimErrorCode('confirm', 99)).toBe('Unknown error code: 99');
+  });
+
+  it('translates Satim error codes', () => {
+    expect(mapSatimErrorCode('register', 1, 'fr')).toBe(
+      'Une commande portant ce numéro a déjà été traitée'
+    );
+    expect(getSatimErrorMessage('confirm', 5, 'ar')).toBe('تم رفض الوصول');
+  });
+
+  it('isolates inserted values in Arabic messages', () => {
+    expect(getSatimErrorMessage('confirm', 99, 'ar')).toBe(
+      'رمز خطأ غير معروف: \u206899\u2069'
+    );
+    expect(getSatimErrorMessage('confirm', 99, 'fr')).toBe("Code d'erreur inconnu : 99");
+  });
+
+  it.each(OPERATIONS)('has Arabic-only text for every %s error code', (operation) => {
+    for (const code of [0, 1, 2, 3, 4, 5, 6, 7, 14]) {
+      const ar = getSatimErrorMessage(operation, code, 'ar');
+      expect(ar).toMatch(ARABIC);
+      expect(ar.replace(/\u2068[^\u2069]*\u2069/g, '')).not.toMatch(LATIN);
+    }
+  });
+
+  it('has a message in every language for every decline reason', () => {
+    for (const reason of Object.values(DeclineReason)) {
+      const messages = LANGUAGES.map((lang) => getDeclineMessage(reason, lang));
+      expect(new Set(messages).size).toBe(3);
+      expect(messages[2]).toMatch(ARABIC);
+      expect(messages[2]).not.toMatch(LATIN);
+    }
+  });
+
+  it('has a message in every language for every order status', () => {
+    for (const status of Object.values(OrderStatus)) {
+      const messages = LANGUAGES.map((lang) => getOrderStatusMessage(status, lang));
+      expect(new Set(messages).size).toBe(3);
+      expect(messages[2]).not.toMatch(LATIN);
+    }
+    expect(getOrderStatusMessage(null, 'en')).toBe('Unknown order status.');
+  });
+
+  it('fills validation messages from error details', () => {
+    expect(
+      getValidationMessage('INVALID_AMOUNT', 'fr', { minimum: 50 })
+    ).toBe("Le montant doit être d'au moins 50 DA.");
+    expect(
+      getValidationMessage('INVALID_AMOUNT', 'ar', { minimum: 50 })
+    ).toBe('يجب ألا يقل المبلغ عن \u206850\u2069 دج.');
+    expect(getValidationMessage('INVALID_UDF3', 'en')).toBe(
+      'A merchant reference field is missing or too long.'
+    );
+  });
+});
+
+describe('describe', () => {
+  it('describes declined confirmations by their decline reason', () => {
+    const error = new SatimApiError('Payment is declined', 'confirm', 2, {
+      declineReason: DeclineReason.INSUFFICIENT_FUNDS,
+    });
+
+    expect(describeSatim(error, 'en')).toBe('Your card balance is insufficient.');
+    expect(describeSatim(error, 'ar')).toBe('رصيد بطاقتك غير كافٍ.');
+  });
+
+  it('describes other API errors by endpoint and code', () => {
+    const error = new SatimApiError('Access is denied', 'refund', 5);
+
+    expect(describeSatim(error, 'fr')).toBe('Accès refusé ou montant invalide');
+  });
+
+  it('describes validation errors thrown by the SDK', () => {
+    const error = thrown(() => toMinorUnits(10));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(describeSatim(error, 'en')).toBe('The amount must be at least 50 DZD.');
+  });
+
+  it('describes transport and configuration errors', () => {
+    expect(describeSatim(new TimeoutError('timed out', 1000), 'en')).toMatch(/did not respond/);
+    expect(describeSatim(new HttpError('HTTP error: 503'), 'fr')).toMatch(/indisponible/);
+    expect(describeSatim(new ConfigError('Missing config'), 'ar')).toBe(
+      'خدمة الدفع غير مهيأة بشكل صحيح.'
+    );
+  });
+
+  it('describes aborted requests', () => {
+    const error = new RequestAbortedError('Request aborted');
+
+    expect(describeSatim(error, 'en')).toBe('The payment request was cancelled. Please try again.');
+    expect(describeSatim(error, 'fr')).toMatch(/annulée/);
+    expect(describeSatim(error, 'ar')).toMatch(ARABIC);
+  });
+
+  it('describes responses by decline reason or order status', () => {
+    expect(describeSatim(createResponse({}), 'fr')).toBe('Votre paiement a été accepté.');
+    expect(
+      describeSatim(
+        createResponse({
+          orderStatus: OrderStatus.DECLINED,
+          declineReason: DeclineReason.CARD_EXPIRED,
+        }),
+        'en'
+      )
+    ).toBe('Your card has expired.');
+  });
+
+  it('defaults to French and falls back to a generic message', () => {
+    expect(describeSatim(new Error('boom'))).toBe("Une erreur inattendue s'est produite.");
+    expect(describeSatim(undefined, 'en')).toBe('An unexpected error occurred.');
+  });
+});
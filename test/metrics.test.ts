@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { createMetricsMiddleware, createPrometheusRegistry } from '../src/metrics.js';
+import { ConfigError, HttpError, SatimApiError } from '../src/errors.js';
+import type { HttpConfig, MetricsSink } from '../src/types.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_REFUND_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+function createMeteredClient(fetch: HttpConfig['fetch'], sink: MetricsSink) {
+  const client = createSatimClient(
+    createTestConfig({ http: { fetch }, logger: { enableDevLogging: false } })
+  );
+  return client.use(createMetricsMiddleware(sink));
+}
+
+describe('metrics', () => {
+  it('counts calls, registrations, payments and refunds', async () => {
+    const responses = [MOCK_REGISTER_SUCCESS, MOCK_CONFIRM_SUCCESS, MOCK_REFUND_SUCCESS];
+    const fetch = vi.fn(
+      async () => new Response(JSON.stringify(responses.shift()))
+    );
+    const registry = createPrometheusRegistry();
+    const client = createMeteredClient(fetch, registry);
+
+    await client.register({
+      orderNumber: 'ORD0001234',
+      amount: 5000,
+      returnUrl: 'https://shop.dz/return',
+      udf1: 'INV001',
+    });
+    await client.confirm('V721uPPfNNofVQAAABL3');
+    await client.refund('V721uPPfNNofVQAAABL3', 1250.5);
+
+    const output = registry.render();
+    expect(output).toContain(
+      'satim_requests_total{operation="register",endpoint="/register.do",outcome="success"} 1'
+    );
+    expect(output).toContain('satim_orders_registered_total{operation="register"} 1');
+    expect(output).toContain('satim_orders_paid_total{order_status="2"} 1');
+    expect(output).toContain('satim_refunds_total 1');
+    expect(output).toContain('satim_refund_amount_dzd_total 1250.5');
+    expect(output).toContain('# TYPE satim_request_duration_seconds histogram');
+    expect(output).toContain(
+      'satim_request_duration_seconds_bucket{operation="confirm",endpoint="/public/acknowledgeTransaction.do",le="+Inf"} 1'
+    );
+    expect(output).toContain(
+      'satim_request_duration_seconds_count{operation="refund",endpoint="/refund.do"} 1'
+    );
+  });
+
+  it('records SATIM error codes and decline reasons', async () => {
+    const declined = {
+      ...MOCK_CONFIRM_SUCCESS,
+      ErrorCode: '2',
+      OrderStatus: 6,
+      actionCode: 116,
+      SvfeResponse: '51',
+    };
+    const fetch = vi.fn(async () => new Response(JSON.stringify(declined)));
+    const registry = createPrometheusRegistry();
+    const client = createMeteredClient(fetch, registry);
+
+    await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toBeInstanceOf(
+      SatimApiError
+    );
+
+    const output = registry.render();
+    expect(output).toContain(
+      'satim_requests_total{operation="confirm",endpoint="/public/acknowledgeTransaction.do",outcome="api_error"} 1'
+    );
+    expect(output).toContain('satim_error_codes_total{operation="confirm",error_code="2"} 1');
+    expect(output).toContain('satim_declines_total{reason="insufficient_funds"} 1');
+    expect(output).not.toContain('satim_orders_paid_total');
+  });
+
+  it('counts an order confirmed several times as paid once', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const registry = createPrometheusRegistry();
+    const client = createMeteredClient(fetch, registry);
+
+    await client.confirm('V721uPPfNNofVQAAABL3');
+    await client.confirm('V721uPPfNNofVQAAABL3');
+    await client.verifyPayment('V721uPPfNNofVQAAABL3', {
+      expectedAmount: 1003.2,
+      expectedOrderNumber: 'CMD0000004',
+    });
+    await client.confirm('W832vQQgOOpgWRBBBCM4');
+
+    const output = registry.render();
+    expect(output).toContain(
+      'satim_requests_total{operation="confirm",endpoint="/public/acknowledgeTransaction.do",outcome="success"} 4'
+    );
+    expect(output).toContain('satim_orders_paid_total{order_status="2"} 2');
+  });
+
+  it('labels failed calls by error kind', async () => {
+    const fetch = vi.fn(async () => new Response('Bad Gateway', { status: 502 }));
+    const sink = { increment: vi.fn(), observe: vi.fn() };
+    const client = createMeteredClient(fetch, sink);
+
+    await expect(client.refund('order-123456789', 100)).rejects.toBeInstanceOf(HttpError);
+
+    expect(sink.increment).toHaveBeenCalledWith('satim_requests_total', {
+      operation: 'refund',
+      endpoint: '/refund.do',
+      outcome: 'http_error',
+    });
+    expect(sink.observe).toHaveBeenCalledWith(
+      'satim_request_duration_seconds',
+      { operation: 'refund', endpoint: '/refund.do' },
+      expect.any(Number)
+    );
+    expect(sink.increment).not.toHaveBeenCalledWith(
+      'satim_refunds_total',
+      expect.anything()
+    );
+  });
+
+  it('renders cumulative histogram buckets and escapes label values', () => {
+    const registry = createPrometheusRegistry({ buckets: [0.1, 1] });
+
+    registry.observe('latency', { path: 'a"b\\c\nd' }, 0.05);
+    registry.observe('latency', { path: 'a"b\\c\nd' }, 0.5);
+    registry.observe('latency', { path: 'a"b\\c\nd' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP latency latency',
+        '# TYPE latency histogram',
+        'latency_bucket{path="a\\"b\\\\c\\nd",le="0.1"} 1',
+        'latency_bucket{path="a\\"b\\\\c\\nd",le="1"} 2',
+        'latency_bucket{path="a\\"b\\\\c\\nd",le="+Inf"} 3',
+        'latency_sum{path="a\\"b\\\\c\\nd"} 3.55',
+        'latency_count{path="a\\"b\\\\c\\nd"} 3',
+        '',
+      ].join('\n')
+    );
+
+    registry.reset();
+    expect(registry.render()).toBe('');
+  });
+
+  it('rejects invalid buckets', () => {
+    expect(() => createPrometheusRegistry({ buckets: [1, 0.5] })).toThrow(ConfigError);
+    expect(() => createPrometheusRegistry({ buckets: [] })).toThrow(ConfigError);
+  });
+});
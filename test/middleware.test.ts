@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { ConfigError, HttpError } from '../src/errors.js';
+import type { HttpConfig, SatimMiddleware } from '../src/types.js';
+import { createTestConfig, MOCK_CONFIRM_SUCCESS } from './helpers.js';
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: URLSearchParams;
+}
+
+/**
+ * Creates a fetch stub that records requests and answers with a confirm response
+ */
+function createRecordingFetch() {
+  const sent: SentRequest[] = [];
+  const fetch = vi.fn(async (url: string, init: RequestInit) => {
+    sent.push({
+      url,
+      headers: init.headers as Record<string, string>,
+      body: new URLSearchParams(String(init.body)),
+    });
+    return new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+  });
+  return { fetch, sent };
+}
+
+function createClient(fetch: HttpConfig['fetch'], http: HttpConfig = {}) {
+  return createSatimClient(
+    createTestConfig({ http: { fetch, ...http }, logger: { enableDevLogging: false } })
+  );
+}
+
+describe('client.use', () => {
+  it('lets middleware add headers and change params', async () => {
+    const { fetch, sent } = createRecordingFetch();
+    const client = createClient(fetch).use(async (request, next) => {
+      request.headers['X-Tenant'] = 'shop-1';
+      request.params['language'] = 'ar';
+      return next();
+    });
+
+    await client.confirm('order');
+
+    expect(sent[0]!.headers).toMatchObject({
+      'X-Tenant': 'shop-1',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+    expect(sent[0]!.body.get('language')).toBe('ar');
+    expect(sent[0]!.body.get('mdOrder')).toBe('order');
+  });
+
+  it('runs middleware in registration order around the call', async () => {
+    const { fetch } = createRecordingFetch();
+    const calls: string[] = [];
+    const trace =
+      (name: string): SatimMiddleware =>
+      async (request, next) => {
+        calls.push(`${name}:${request.operation}:${request.endpoint}`);
+        const data = await next();
+        calls.push(`${name}:done`);
+        return data;
+      };
+    const client = createClient(fetch).use(trace('outer')).use(trace('inner'));
+
+    await client.confirm('order');
+
+    expect(calls).toEqual([
+      'outer:confirm:/public/acknowledgeTransaction.do',
+      'inner:confirm:/public/acknowledgeTransaction.do',
+      'inner:done',
+      'outer:done',
+    ]);
+  });
+
+  it('short-circuits with a cached response', async () => {
+    const { fetch } = createRecordingFetch();
+    const cache = new Map<string, unknown>();
+    const client = createClient(fetch).use(async (request, next) => {
+      const key = `${request.endpoint}:${request.params['mdOrder']}`;
+      if (!cache.has(key)) {
+        cache.set(key, await next());
+      }
+      return cache.get(key);
+    });
+
+    const first = await client.confirm('order');
+    const second = await client.confirm('order');
+
+    expect(second.raw).toEqual(first.raw);
+    expect(second.orderStatus).toBe(2);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('transforms the parsed response', async () => {
+    const { fetch } = createRecordingFetch();
+    const client = createClient(fetch).use(async (_request, next) => {
+      const data = (await next()) as Record<string, unknown>;
+      return { ...data, OrderNumber: `shop-1/${String(data['OrderNumber'])}` };
+    });
+
+    const response = await client.confirm('order');
+
+    expect(response.orderNumber).toBe('shop-1/CMD0000004');
+  });
+
+  it('wraps all retry attempts in a single next()', async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const middleware = vi.fn<Parameters<SatimMiddleware>, ReturnType<SatimMiddleware>>(
+      (_request, next) => next()
+    );
+    const client = createClient(fetch, {
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    }).use(middleware);
+
+    await client.confirm('order');
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets middleware recover from transport errors', async () => {
+    const fetch = vi.fn(async () => new Response('Bad Gateway', { status: 502 }));
+    const client = createClient(fetch).use(async (_request, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpError);
+        return MOCK_CONFIRM_SUCCESS;
+      }
+    });
+
+    await expect(client.confirm('order')).resolves.toMatchObject({ orderStatus: 2 });
+  });
+
+  it('rejects middleware that returns no response', async () => {
+    const { fetch } = createRecordingFetch();
+    const client = createClient(fetch).use(async (_request, next) => {
+      await next();
+      return undefined;
+    });
+
+    await expect(client.confirm('order')).rejects.toThrow(
+      'Middleware did not return a response object'
+    );
+  });
+
+  it('rejects non-function middleware', () => {
+    const client = createClient(createRecordingFetch().fetch);
+
+    expect(() => client.use('cache' as unknown as SatimMiddleware)).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockAgent, type Dispatcher } from 'undici';
+import { createSatimClient } from '../src/client.js';
+import { ValidationError, SatimApiError, mapSatimErrorCode } from '../src/errors.js';
+import {
+  createTestConfig,
+  createMockAgent,
+  setupMockAgent,
+  restoreDispatcher,
+  mockPool,
+  MOCK_ORDER_STATUS_SUCCESS,
+  parseFormBody,
+} from './helpers.js';
+
+describe('getOrderStatus', () => {
+  let agent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    agent = createMockAgent();
+    originalDispatcher = setupMockAgent(agent);
+  });
+
+  afterEach(async () => {
+    restoreDispatcher(originalDispatcher);
+    await agent.close();
+  });
+
+  describe('successful lookup', () => {
+    it('should look up an order by orderId', async () => {
+      let capturedBody = '';
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/getOrderStatusExtended.do',
+          method: 'POST',
+        })
+        .reply(200, (opts) => {
+          capturedBody = opts.body as string;
+          return MOCK_ORDER_STATUS_SUCCESS;
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3' });
+
+      const params = parseFormBody(capturedBody);
+      expect(params['userName']).toBe('test_user');
+      expect(params['password']).toBe('test_password');
+      expect(params['orderId']).toBe('V721uPPfNNofVQAAABL3');
+      expect(params['language']).toBe('fr');
+      expect(params).not.toHaveProperty('orderNumber');
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(response.isPaid()).toBe(true);
+      expect(response.orderStatus).toBe(2);
+    });
+
+    it('should look up an order by orderNumber', async () => {
+      let capturedBody = '';
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/getOrderStatusExtended.do',
+          method: 'POST',
+        })
+        .reply(200, (opts) => {
+          capturedBody = opts.body as string;
+          return MOCK_ORDER_STATUS_SUCCESS;
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.getOrderStatus({ orderNumber: 'CMD0000004' }, 'en');
+
+      const params = parseFormBody(capturedBody);
+      expect(params['orderNumber']).toBe('CMD0000004');
+      expect(params['language']).toBe('en');
+      expect(params).not.toHaveProperty('orderId');
+
+      // orderId is resolved from the mdOrder attribute
+      expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+    });
+
+    it('should normalize nested response fields', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/getOrderStatusExtended.do',
+          method: 'POST',
+        })
+        .reply(200, {
+          ...MOCK_ORDER_STATUS_SUCCESS,
+          orderStatus: '4',
+          amount: '100320',
+          paymentAmountInfo: {
+            paymentState: 'REFUNDED',
+            approvedAmount: '100320',
+            depositedAmount: '100320',
+            refundedAmount: '50000',
+          },
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3' });
+
+      expect(response.errorCode).toBe(0);
+      expect(response.orderStatus).toBe(4);
+      expect(response.isPaid()).toBe(false);
+      expect(response.amount).toBe(100320);
+      expect(response.orderNumber).toBe('CMD0000004');
+      expect(response.actionCode).toBe(0);
+      expect(response.currency).toBe('012');
+      expect(response.description).toBe('Test order');
+      expect(response.pan).toBe('628058**7215');
+      expect(response.cardholderName).toBe('TEST USER');
+      expect(response.approvalCode).toBe('913180');
+      expect(response.approvedAmount).toBe(100320);
+      expect(response.depositedAmount).toBe(100320);
+      expect(response.refundedAmount).toBe(50000);
+      expect(response.paymentState).toBe('REFUNDED');
+      expect(response.merchantOrderParams).toEqual({ udf1: 'Bill00001' });
+    });
+
+    it('should handle a minimal response for an unpaid order', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/getOrderStatusExtended.do',
+          method: 'POST',
+        })
+        .reply(200, { errorCode: 0, orderNumber: 'ORD001', orderStatus: 0, amount: 500000 }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3' });
+
+      expect(response.orderStatus).toBe(0);
+      expect(response.isPaid()).toBe(false);
+      expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+      expect(response.pan).toBeNull();
+      expect(response.refundedAmount).toBeNull();
+      expect(response.merchantOrderParams).toEqual({});
+    });
+  });
+
+  describe('error handling', () => {
+    it('should throw SatimApiError for unknown order', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/getOrderStatusExtended.do',
+          method: 'POST',
+        })
+        .reply(200, { errorCode: '6', errorMessage: 'Order not found' }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+
+      try {
+        await client.getOrderStatus({ orderNumber: 'UNKNOWN' });
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SatimApiError);
+        expect((error as SatimApiError).satimErrorCode).toBe(6);
+        expect((error as SatimApiError).endpoint).toBe('getOrderStatus');
+        expect((error as SatimApiError).message).toBe('Unregistered order Id');
+      }
+    });
+
+    it('should map getOrderStatus error codes', () => {
+      expect(mapSatimErrorCode('getOrderStatus', 1)).toBe('Expected orderId or orderNumber');
+      expect(mapSatimErrorCode('getOrderStatus', 99)).toBe('Unknown error code: 99');
+    });
+  });
+
+  describe('validation', () => {
+    it('should require orderId or orderNumber', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      // @ts-expect-error Testing invalid input
+      await expect(client.getOrderStatus({})).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject both orderId and orderNumber', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      await expect(
+        // @ts-expect-error Testing invalid input
+        client.getOrderStatus({ orderId: 'V721uPPfNNofVQAAABL3', orderNumber: 'CMD0000004' })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject empty orderId', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      await expect(client.getOrderStatus({ orderId: '' })).rejects.toThrow(ValidationError);
+    });
+  });
+});
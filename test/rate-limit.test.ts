@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { createRateLimiter } from '../src/rate-limit.js';
+import { ConfigError, TimeoutError } from '../src/errors.js';
+import type {
+  HttpRateLimitConfig,
+  RequestAttemptInfo,
+  SatimLogger,
+} from '../src/types.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+/**
+ * Creates a fetch stub whose responses are released manually
+ */
+function createGatedFetch() {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const pending: Array<() => void> = [];
+  const fetch = vi.fn(async (url: string) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise<void>((resolve) => pending.push(resolve));
+    inFlight--;
+    const endpoint = new URL(url).pathname;
+    const body = endpoint.endsWith('/register.do')
+      ? MOCK_REGISTER_SUCCESS
+      : MOCK_CONFIRM_SUCCESS;
+    return new Response(JSON.stringify(body), {
+      headers: { 'content-type': 'application/json' },
+    });
+  });
+  return {
+    fetch,
+    get maxInFlight() {
+      return maxInFlight;
+    },
+    /** Resolves the oldest pending request */
+    releaseOne: () => pending.shift()?.(),
+    /** Waits until the given number of requests are pending */
+    waitForPending: (count: number) =>
+      vi.waitFor(() => expect(pending).toHaveLength(count)),
+  };
+}
+
+function createLimitedClient(
+  fetch: (url: string, init: RequestInit) => Promise<Response>,
+  rateLimit: HttpRateLimitConfig,
+  overrides: { timeoutMs?: number; logger?: SatimLogger } = {}
+) {
+  const hooks = {
+    requests: [] as RequestAttemptInfo[],
+    responses: [] as RequestAttemptInfo[],
+  };
+  const client = createSatimClient(
+    createTestConfig({
+      http: {
+        timeoutMs: overrides.timeoutMs ?? 5000,
+        fetch,
+        rateLimit,
+        onRequest: (_endpoint, _params, info) => hooks.requests.push(info),
+        onResponse: (_endpoint, _response, info) => hooks.responses.push(info),
+      },
+      logger: overrides.logger
+        ? { customLogger: overrides.logger }
+        : { enableDevLogging: false },
+    })
+  );
+  return { client, hooks };
+}
+
+describe('rate limiting', () => {
+  it('caps the number of requests in flight', async () => {
+    const gate = createGatedFetch();
+    const { client, hooks } = createLimitedClient(gate.fetch, { maxConcurrent: 2 });
+
+    const calls = Array.from({ length: 5 }, () => client.confirm('order'));
+    await gate.waitForPending(2);
+    for (let released = 0; released < 5; released++) {
+      await gate.waitForPending(Math.min(2, 5 - released));
+      gate.releaseOne();
+    }
+    await Promise.all(calls);
+
+    expect(gate.maxInFlight).toBe(2);
+    expect(hooks.requests.map((info) => info.queueDepth)).toEqual([0, 0, 0, 1, 2]);
+    expect(hooks.responses).toHaveLength(5);
+  });
+
+  it('spaces requests according to the token bucket', async () => {
+    const sentAt: number[] = [];
+    const fetch = vi.fn(async () => {
+      sentAt.push(Date.now());
+      return new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+    });
+    const { client, hooks } = createLimitedClient(fetch, {
+      requestsPerSecond: 20,
+      burst: 1,
+    });
+
+    await Promise.all([client.confirm('a'), client.confirm('b'), client.confirm('c')]);
+
+    expect(sentAt[2]! - sentAt[0]!).toBeGreaterThanOrEqual(90);
+    expect(hooks.requests[0]!.queueWaitMs).toBeLessThan(20);
+    expect(hooks.requests[2]!.queueWaitMs).toBeGreaterThanOrEqual(90);
+  });
+
+  it('counts the queue wait towards the request timeout', async () => {
+    const gate = createGatedFetch();
+    const { client } = createLimitedClient(
+      gate.fetch,
+      { maxConcurrent: 1 },
+      { timeoutMs: 50 }
+    );
+
+    // The stub ignores the abort signal, so the first call holds its slot
+    const first = client.confirm('first');
+    await gate.waitForPending(1);
+    const error = await client.confirm('queued').catch((e: unknown) => e);
+    gate.releaseOne();
+    await first;
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).message).toBe(
+      'Request timed out after 50ms waiting for the rate limiter'
+    );
+    expect((error as TimeoutError).phase).toBe('queue');
+    expect(gate.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies per-operation limits on top of the shared limit', async () => {
+    const gate = createGatedFetch();
+    const { client } = createLimitedClient(gate.fetch, {
+      maxConcurrent: 3,
+      operations: { register: { maxConcurrent: 1 } },
+    });
+    const params = {
+      orderNumber: 'ORD001',
+      amount: 5000,
+      returnUrl: 'https://shop.dz/return',
+      udf1: 'INV001',
+    };
+
+    const calls = [
+      client.register(params),
+      client.register(params),
+      client.confirm('a'),
+      client.confirm('b'),
+    ];
+    await gate.waitForPending(3);
+    const sent = gate.fetch.mock.calls.map(([url]) => new URL(url).pathname);
+    expect(sent.filter((path) => path.endsWith('/register.do'))).toHaveLength(1);
+    for (let i = 0; i < 4; i++) {
+      await gate.waitForPending(i < 3 ? 3 - i : 1);
+      gate.releaseOne();
+    }
+    await Promise.all(calls);
+
+    expect(gate.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('logs queue depth and wait time', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetch = async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+    const { client } = createLimitedClient(fetch, { maxConcurrent: 1 }, { logger });
+
+    await client.confirm('order');
+
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ queueDepth: 0, queueWaitMs: expect.any(Number) }),
+      'Satim API request completed'
+    );
+  });
+
+  it('rejects invalid limits', () => {
+    const fetch = async () => new Response('{}');
+    expect(() => createLimitedClient(fetch, { maxConcurrent: 0 })).toThrow(ConfigError);
+    expect(() => createLimitedClient(fetch, { requestsPerSecond: -1 })).toThrow(
+      ConfigError
+    );
+    expect(() =>
+      createLimitedClient(fetch, {
+        operations: { refund: { requestsPerSecond: 5, burst: 0.5 } },
+      })
+    ).toThrow(ConfigError);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('removes aborted waiters from the queue', async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const held = await limiter.acquire();
+    const aborted = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    held.release();
+    await expect(next).resolves.toMatchObject({ queueDepth: 1 });
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.acquire(AbortSignal.abort())).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    await expect(limiter.acquire()).resolves.toMatchObject({ queueDepth: 0 });
+  });
+
+  it('ignores repeated releases', async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+
+    const first = await limiter.acquire();
+    first.release();
+    first.release();
+    const second = await limiter.acquire();
+    const third = limiter.acquire();
+    const settled = vi.fn();
+    void third.then(settled);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(settled).not.toHaveBeenCalled();
+    second.release();
+    await expect(third).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MockAgent, type Dispatcher } from 'undici';
+import { createSatimClient } from '../src/client.js';
+import { fromEnv } from '../src/env.js';
+import { SatimApiError, TimeoutError } from '../src/errors.js';
+import type { RegisterOrderParams } from '../src/types.js';
+import {
+  createTestConfig,
+  createMockAgent,
+  setupMockAgent,
+  restoreDispatcher,
+  mockPool,
+  MOCK_REGISTER_SUCCESS,
+  MOCK_ORDER_STATUS_SUCCESS,
+  parseFormBody,
+} from './helpers.js';
+
+const PAYMENT_PAGE_URL =
+  'https://test.satim.dz/payment/merchants/merchant1/payment_{language}.html?mdOrder={mdOrder}';
+
+const ORDER: RegisterOrderParams = {
+  orderNumber: 'ORD001',
+  amount: 5000,
+  returnUrl: 'https://merchant.com/success',
+  udf1: 'INV001',
+  recoverExisting: true,
+};
+
+const UNPAID_STATUS = {
+  ...MOCK_ORDER_STATUS_SUCCESS,
+  orderNumber: 'ORD001',
+  orderStatus: 0,
+  amount: 500000,
+};
+
+function createRecoveryConfig() {
+  return createTestConfig({
+    paymentPageUrl: PAYMENT_PAGE_URL,
+    http: { method: 'POST', timeoutMs: 50 },
+  });
+}
+
+describe('register recovery', () => {
+  let agent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    agent = createMockAgent();
+    originalDispatcher = setupMockAgent(agent);
+  });
+
+  afterEach(async () => {
+    restoreDispatcher(originalDispatcher);
+    await agent.close();
+  });
+
+  function interceptRegisterTimeout() {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/register.do', method: 'POST' })
+      .reply(200, MOCK_REGISTER_SUCCESS, {
+        headers: { 'content-type': 'application/json' },
+      })
+      .delay(500);
+  }
+
+  function interceptStatus(body: unknown, onBody?: (body: string) => void) {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/getOrderStatusExtended.do', method: 'POST' })
+      .reply(200, (opts) => {
+        onBody?.(opts.body as string);
+        return body as Record<string, unknown>;
+      }, {
+        headers: { 'content-type': 'application/json' },
+      });
+  }
+
+  it('should recover an unpaid order after a timeout', async () => {
+    let statusBody = '';
+    interceptRegisterTimeout();
+    interceptStatus(UNPAID_STATUS, (body) => (statusBody = body));
+
+    const client = createSatimClient(createRecoveryConfig());
+    const response = await client.register(ORDER);
+
+    expect(parseFormBody(statusBody)['orderNumber']).toBe('ORD001');
+    expect(response.recovered).toBe(true);
+    expect(response.isSuccessful()).toBe(true);
+    expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+    expect(response.formUrl).toBe(
+      'https://test.satim.dz/payment/merchants/merchant1/payment_fr.html?mdOrder=V721uPPfNNofVQAAABL3'
+    );
+  });
+
+  it('should recover an unpaid order after error code 1', async () => {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/register.do', method: 'POST' })
+      .reply(200, { errorCode: 1, errorMessage: 'Order already processed' }, {
+        headers: { 'content-type': 'application/json' },
+      });
+    interceptStatus(UNPAID_STATUS);
+
+    const client = createSatimClient(createRecoveryConfig());
+    const response = await client.register({ ...ORDER, language: 'ar' });
+
+    expect(response.recovered).toBe(true);
+    expect(response.formUrl).toContain('payment_ar.html');
+  });
+
+  it('should register again when the timed-out order does not exist', async () => {
+    interceptRegisterTimeout();
+    interceptStatus({ errorCode: 6, errorMessage: 'Order not found' });
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/register.do', method: 'POST' })
+      .reply(200, MOCK_REGISTER_SUCCESS, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const client = createSatimClient(createRecoveryConfig());
+    const response = await client.register(ORDER);
+
+    expect(response.recovered).toBe(false);
+    expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+  });
+
+  it('should refuse to recover an order that is already paid', async () => {
+    interceptRegisterTimeout();
+    interceptStatus({ ...UNPAID_STATUS, orderStatus: 2 });
+
+    const client = createSatimClient(createRecoveryConfig());
+
+    try {
+      await client.register(ORDER);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SatimApiError);
+      expect((error as SatimApiError).satimErrorCode).toBe(1);
+      expect((error as SatimApiError).details).toMatchObject({
+        orderStatus: 2,
+        reason: 'NOT_PAYABLE',
+      });
+    }
+  });
+
+  it('should refuse to recover an order with a different amount', async () => {
+    interceptRegisterTimeout();
+    interceptStatus({ ...UNPAID_STATUS, amount: 100000 });
+
+    const client = createSatimClient(createRecoveryConfig());
+
+    await expect(client.register(ORDER)).rejects.toMatchObject({
+      satimErrorCode: 1,
+      details: { reason: 'AMOUNT_MISMATCH' },
+    });
+  });
+
+  it('should report an order returned without orderId', async () => {
+    interceptRegisterTimeout();
+    interceptStatus({ ...UNPAID_STATUS, attributes: [] });
+
+    const client = createSatimClient(createRecoveryConfig());
+
+    await expect(client.register(ORDER)).rejects.toMatchObject({
+      satimErrorCode: 1,
+      details: { reason: 'ORDER_ID_MISSING' },
+    });
+  });
+
+  it('should not recover when the request timed out in the rate limiter queue', async () => {
+    let release: () => void = () => undefined;
+    // The first request holds the only slot until released, ignoring its signal
+    const fetch = vi.fn(
+      () =>
+        new Promise<Response>((resolve) => {
+          release = () => resolve(new Response(JSON.stringify(MOCK_REGISTER_SUCCESS)));
+        })
+    );
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = createSatimClient(
+      createTestConfig({
+        paymentPageUrl: PAYMENT_PAGE_URL,
+        http: { timeoutMs: 50, fetch, rateLimit: { maxConcurrent: 1 } },
+        logger: { customLogger: logger },
+      })
+    );
+
+    const first = client.register({ ...ORDER, orderNumber: 'ORD000' });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    const error = await client.register(ORDER).catch((e: unknown) => e);
+    release();
+    await first.catch(() => undefined);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).phase).toBe('queue');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(logger.warn).not.toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('registration recovery')
+    );
+  });
+
+  it('should rethrow the original timeout when the lookup fails', async () => {
+    interceptRegisterTimeout();
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({ path: '/payment/rest/getOrderStatusExtended.do', method: 'POST' })
+      .reply(503, 'Service Unavailable');
+
+    const client = createSatimClient(createRecoveryConfig());
+
+    await expect(client.register(ORDER)).rejects.toThrow(TimeoutError);
+  });
+
+  it('should return the recovered order without formUrl when no template is configured', async () => {
+    interceptRegisterTimeout();
+    interceptStatus(UNPAID_STATUS);
+
+    const client = createSatimClient(
+      createTestConfig({ http: { method: 'POST', timeoutMs: 50 } })
+    );
+    const response = await client.register(ORDER);
+
+    expect(response.recovered).toBe(true);
+    expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+    expect(response.formUrl).toBeNull();
+    expect(response.isSuccessful()).toBe(false);
+  });
+
+  it('should read the payment page URL template from the environment', () => {
+    const config = fromEnv({
+      env: {
+        SATIM_USERNAME: 'user',
+        SATIM_PASSWORD: 'pass',
+        SATIM_TERMINAL_ID: 'E010TEST01',
+        SATIM_PAYMENT_PAGE_URL: PAYMENT_PAGE_URL,
+      },
+    });
+
+    expect(config.paymentPageUrl).toBe(PAYMENT_PAGE_URL);
+  });
+
+  it('should not attempt recovery unless opted in', async () => {
+    interceptRegisterTimeout();
+
+    const client = createSatimClient(createRecoveryConfig());
+
+    await expect(
+      client.register({ ...ORDER, recoverExisting: false })
+    ).rejects.toThrow(TimeoutError);
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { HttpError, SatimApiError } from '../src/errors.js';
+import type { RetryConfig } from '../src/types.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+  MOCK_REFUND_SUCCESS,
+  MOCK_ORDER_STATUS_SUCCESS,
+} from './helpers.js';
+
+type Step = { status?: number; body?: unknown } | Error;
+
+/**
+ * Creates a fetch stub that replays scripted responses per endpoint
+ */
+function createScriptedFetch(script: Record<string, Step[]>) {
+  const calls: string[] = [];
+  const fetch = vi.fn(async (url: string) => {
+    const endpoint = new URL(url).pathname.split('/').pop() ?? '';
+    calls.push(endpoint);
+    const step = script[endpoint]?.shift();
+    if (!step) {
+      throw new Error(`Unexpected call to ${endpoint}`);
+    }
+    if (step instanceof Error) {
+      throw step;
+    }
+    return new Response(JSON.stringify(step.body ?? {}), {
+      status: step.status ?? 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  });
+  return { fetch, calls };
+}
+
+function createRetryClient(
+  fetch: (url: string, init: RequestInit) => Promise<Response>,
+  retry: RetryConfig = {}
+) {
+  return createSatimClient(
+    createTestConfig({
+      http: {
+        method: 'POST',
+        timeoutMs: 5000,
+        fetch,
+        retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false, ...retry },
+      },
+    })
+  );
+}
+
+const REGISTER_PARAMS = {
+  orderNumber: 'ORD001',
+  amount: 5000,
+  returnUrl: 'https://merchant.com/success',
+  udf1: 'INV001',
+};
+
+describe('retry policy', () => {
+  describe('confirm', () => {
+    it('should retry transient HTTP errors', async () => {
+      const onRetry = vi.fn();
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [
+          { status: 503 },
+          new TypeError('fetch failed'),
+          { body: MOCK_CONFIRM_SUCCESS },
+        ],
+      });
+
+      const client = createRetryClient(fetch, { onRetry });
+      const response = await client.confirm('V721uPPfNNofVQAAABL3');
+
+      expect(response.isPaid()).toBe(true);
+      expect(calls).toHaveLength(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0]?.[0]).toMatchObject({
+        endpoint: '/public/acknowledgeTransaction.do',
+        attempt: 1,
+        delayMs: 1,
+      });
+      expect(onRetry.mock.calls[0]?.[0].error).toBeInstanceOf(HttpError);
+      expect(onRetry.mock.calls[1]?.[0]).toMatchObject({ attempt: 2, delayMs: 2 });
+    });
+
+    it('should record attempts on the thrown error when retries are exhausted', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ status: 502 }, { status: 502 }, { status: 502 }],
+      });
+
+      const client = createRetryClient(fetch);
+
+      try {
+        await client.confirm('V721uPPfNNofVQAAABL3');
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).attempts).toBe(3);
+        expect((error as HttpError).httpStatus).toBe(502);
+      }
+      expect(calls).toHaveLength(3);
+    });
+
+    it('should not retry non-transient HTTP statuses', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ status: 400 }],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toMatchObject({
+        httpStatus: 400,
+        attempts: 1,
+      });
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should not retry Satim API errors', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ body: { ErrorCode: 7 } }],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toThrow(SatimApiError);
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should record attempts on Satim API errors after retries', async () => {
+      const { fetch } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ status: 500 }, { body: { ErrorCode: 6 } }],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toMatchObject({
+        satimErrorCode: 6,
+        attempts: 2,
+      });
+    });
+
+    it('should retry timeouts', async () => {
+      let call = 0;
+      const fetch = vi.fn((_url: string, init: RequestInit) => {
+        call++;
+        if (call === 1) {
+          // Never resolves; aborted by the request timeout
+          return new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => {
+              const error = new Error('aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          });
+        }
+        return Promise.resolve(
+          new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS), { status: 200 })
+        );
+      });
+
+      const client = createSatimClient(
+        createTestConfig({
+          http: {
+            method: 'POST',
+            timeoutMs: 20,
+            fetch,
+            retry: { maxAttempts: 2, baseDelayMs: 1 },
+          },
+        })
+      );
+
+      const response = await client.confirm('V721uPPfNNofVQAAABL3');
+      expect(response.isPaid()).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honor a "never" rule override', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ status: 503 }],
+      });
+
+      const client = createRetryClient(fetch, { rules: { confirm: 'never' } });
+
+      await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toThrow(HttpError);
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should make a single attempt by default', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'acknowledgeTransaction.do': [{ status: 503 }],
+      });
+
+      const client = createSatimClient(
+        createTestConfig({ http: { method: 'POST', timeoutMs: 5000, fetch } })
+      );
+
+      await expect(client.confirm('V721uPPfNNofVQAAABL3')).rejects.toMatchObject({
+        attempts: 1,
+      });
+      expect(calls).toHaveLength(1);
+    });
+  });
+
+  describe('register', () => {
+    it('should not retry without an idempotencyKey', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'register.do': [{ status: 503 }],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.register(REGISTER_PARAMS)).rejects.toThrow(HttpError);
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should retry with an idempotencyKey', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'register.do': [{ status: 503 }, { body: MOCK_REGISTER_SUCCESS }],
+      });
+
+      const client = createRetryClient(fetch);
+      const response = await client.register({
+        ...REGISTER_PARAMS,
+        idempotencyKey: 'a3c1c0de-1111-4b5e-9a1f-000000000001',
+      });
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(calls).toEqual(['register.do', 'register.do']);
+    });
+  });
+
+  describe('refund', () => {
+    it('should retry after the status shows no refund was applied', async () => {
+      const unrefunded = {
+        ...MOCK_ORDER_STATUS_SUCCESS,
+        paymentAmountInfo: { ...MOCK_ORDER_STATUS_SUCCESS.paymentAmountInfo, refundedAmount: 0 },
+      };
+      const { fetch, calls } = createScriptedFetch({
+        'getOrderStatusExtended.do': [{ body: unrefunded }, { body: unrefunded }],
+        'refund.do': [new TypeError('fetch failed'), { body: MOCK_REFUND_SUCCESS }],
+      });
+
+      const client = createRetryClient(fetch);
+      const response = await client.refund('V721uPPfNNofVQAAABL3', 500);
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(calls).toEqual([
+        'getOrderStatusExtended.do',
+        'refund.do',
+        'getOrderStatusExtended.do',
+        'refund.do',
+      ]);
+    });
+
+    it('should not retry when the refund may have been applied', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'getOrderStatusExtended.do': [
+          { body: MOCK_ORDER_STATUS_SUCCESS },
+          {
+            body: {
+              ...MOCK_ORDER_STATUS_SUCCESS,
+              orderStatus: 4,
+              paymentAmountInfo: {
+                ...MOCK_ORDER_STATUS_SUCCESS.paymentAmountInfo,
+                refundedAmount: 50000,
+              },
+            },
+          },
+        ],
+        'refund.do': [new TypeError('fetch failed')],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.refund('V721uPPfNNofVQAAABL3', 500)).rejects.toMatchObject({
+        attempts: 1,
+      });
+      expect(calls).toHaveLength(3);
+    });
+  });
+
+  describe('deposit and reverse', () => {
+    it('should retry a deposit while the order is still only approved', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'deposit.do': [{ status: 504 }, { body: { errorCode: 0 } }],
+        'getOrderStatusExtended.do': [
+          { body: { ...MOCK_ORDER_STATUS_SUCCESS, orderStatus: 1 } },
+        ],
+      });
+
+      const client = createRetryClient(fetch);
+      const response = await client.deposit('V721uPPfNNofVQAAABL3', 1003.2);
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(calls).toEqual(['deposit.do', 'getOrderStatusExtended.do', 'deposit.do']);
+    });
+
+    it('should not retry a reverse once the order is reversed', async () => {
+      const { fetch, calls } = createScriptedFetch({
+        'reverse.do': [{ status: 504 }],
+        'getOrderStatusExtended.do': [
+          { body: { ...MOCK_ORDER_STATUS_SUCCESS, orderStatus: 3 } },
+        ],
+      });
+
+      const client = createRetryClient(fetch);
+
+      await expect(client.reverse('V721uPPfNNofVQAAABL3')).rejects.toThrow(HttpError);
+      expect(calls).toEqual(['reverse.do', 'getOrderStatusExtended.do']);
+    });
+  });
+
+  it('should retry a queue timeout without checking the order status', async () => {
+    const { fetch, calls } = createScriptedFetch({
+      'acknowledgeTransaction.do': [{ body: MOCK_CONFIRM_SUCCESS }],
+      'deposit.do': [{ body: { errorCode: 0 } }],
+    });
+    // Holds the only rate limiter slot past the deposit's first timeout
+    const slowFetch = async (url: string, init: RequestInit) => {
+      if (url.includes('acknowledgeTransaction.do')) {
+        await new Promise((resolve) => setTimeout(resolve, 80));
+      }
+      return fetch(url, init);
+    };
+    const client = createSatimClient(
+      createTestConfig({
+        http: {
+          timeoutMs: 50,
+          fetch: slowFetch,
+          rateLimit: { maxConcurrent: 1 },
+          retry: { maxAttempts: 2, baseDelayMs: 60, jitter: false },
+        },
+      })
+    );
+
+    const confirmation = client.confirm('V721uPPfNNofVQAAABL3');
+    const response = await client.deposit('V721uPPfNNofVQAAABL3', 1003.2);
+    await confirmation;
+
+    expect(response.isSuccessful()).toBe(true);
+    expect(calls).toEqual(['acknowledgeTransaction.do', 'deposit.do']);
+  });
+
+  it('should not retry when the status check itself fails', async () => {
+    const { fetch, calls } = createScriptedFetch({
+      'deposit.do': [{ status: 504 }],
+      'getOrderStatusExtended.do': [{ body: { errorCode: 7 } }],
+    });
+
+    const client = createRetryClient(fetch);
+
+    await expect(client.deposit('V721uPPfNNofVQAAABL3', 1000)).rejects.toThrow(HttpError);
+    expect(calls).toEqual(['deposit.do', 'getOrderStatusExtended.do']);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReturnStateSigner,
+  createMemoryNonceStore,
+} from '../src/return-state.js';
+import { ConfigError, ValidationError } from '../src/errors.js';
+import { describe as describeSatim } from '../src/describe.js';
+import type { ReturnStateOptions } from '../src/types.js';
+
+const KEY_2026_09 = { id: '2026-09', secret: 'a'.repeat(32) };
+const KEY_2026_10 = { id: '2026-10', secret: 'b'.repeat(32) };
+
+const ORDER = {
+  reference: 'order_42',
+  orderNumber: 'ORD042',
+  amount: '1003.2',
+};
+
+function createSigner(options: Partial<ReturnStateOptions> = {}) {
+  return createReturnStateSigner({ keys: [KEY_2026_10], ...options });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ValidationError> {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(ValidationError);
+  return error as ValidationError;
+}
+
+describe('return state', () => {
+  it('round-trips the order reference, order number and amount', async () => {
+    const signer = createSigner();
+    const url = signer.buildReturnUrl('https://shop.dz/return?lang=ar', ORDER);
+
+    // SATIM appends the orderId when redirecting
+    const returned = new URL(url);
+    returned.searchParams.set('orderId', 'V721uPPfNNofVQAAABL3');
+    const state = await signer.verify(returned);
+
+    expect(returned.searchParams.get('lang')).toBe('ar');
+    expect(state).toMatchObject({
+      reference: 'order_42',
+      orderNumber: 'ORD042',
+      amount: '1003.20',
+      amountMinor: '100320',
+      orderId: 'V721uPPfNNofVQAAABL3',
+      keyId: '2026-10',
+    });
+    expect(state.expiresAt - state.issuedAt).toBe(3600 * 1000);
+  });
+
+  it('verifies raw tokens and Fetch API requests', async () => {
+    const signer = createSigner();
+
+    await expect(signer.verify(signer.sign(ORDER))).resolves.toMatchObject({
+      orderId: null,
+    });
+    const request = new Request(
+      signer.buildReturnUrl('https://shop.dz/return', ORDER) + '&orderId=abc'
+    );
+    await expect(signer.verify(request)).resolves.toMatchObject({ orderId: 'abc' });
+  });
+
+  it('rejects tampered payloads', async () => {
+    const signer = createSigner();
+    const [payload, signature] = signer.sign(ORDER).split('.');
+    const decoded = JSON.parse(Buffer.from(payload!, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...decoded, amt: '5000' })).toString(
+      'base64url'
+    );
+
+    const error = await rejection(signer.verify(`${forged}.${signature}`));
+
+    expect(error.code).toBe('INVALID_RETURN_STATE');
+  });
+
+  it('rejects tokens signed with an unknown key', async () => {
+    const other = createReturnStateSigner({
+      keys: [{ id: KEY_2026_10.id, secret: 'c'.repeat(32) }],
+    });
+
+    const error = await rejection(createSigner().verify(other.sign(ORDER)));
+
+    expect(error.code).toBe('INVALID_RETURN_STATE');
+  });
+
+  it.each([
+    ['missing', new URL('https://shop.dz/return?orderId=abc')],
+    ['malformed', 'not-a-token'],
+    ['truncated', 'eyJ2IjoxfQ.'],
+  ])('rejects %s tokens', async (_case, input) => {
+    const error = await rejection(createSigner().verify(input));
+
+    expect(error.code).toBe('INVALID_RETURN_STATE');
+  });
+
+  it('rejects expired tokens', async () => {
+    let clock = Date.UTC(2026, 9, 18);
+    const signer = createSigner({ ttlSeconds: 60, now: () => clock });
+    const token = signer.sign(ORDER);
+
+    clock += 61_000;
+    const error = await rejection(signer.verify(token));
+
+    expect(error.code).toBe('EXPIRED_RETURN_STATE');
+  });
+
+  it('rejects replayed tokens', async () => {
+    const signer = createSigner();
+    const token = signer.sign(ORDER);
+
+    await signer.verify(token);
+    const error = await rejection(signer.verify(token));
+
+    expect(error.code).toBe('REPLAYED_RETURN_STATE');
+    expect(describeSatim(error, 'en')).toMatch(/already used/);
+  });
+
+  it('shares replay protection through a nonce store', async () => {
+    const nonceStore = createMemoryNonceStore();
+    const first = createSigner({ nonceStore });
+    const second = createSigner({ nonceStore });
+    const token = first.sign(ORDER);
+
+    await first.verify(token);
+
+    await expect(second.verify(token)).rejects.toMatchObject({
+      code: 'REPLAYED_RETURN_STATE',
+    });
+  });
+
+  it('expires nonces on the clock of the signer', async () => {
+    let clock = Date.UTC(2020, 0, 1);
+    const signer = createSigner({ ttlSeconds: 60, now: () => clock });
+    const token = signer.sign(ORDER);
+
+    await signer.verify(token);
+    // Real time has not moved: the nonce must still be known until the token expires
+    clock += 59_000;
+    await expect(signer.verify(token)).rejects.toMatchObject({
+      code: 'REPLAYED_RETURN_STATE',
+    });
+  });
+
+  it('forgets nonces once their tokens have expired, soonest first', () => {
+    let clock = 1_000;
+    const nonceStore = createMemoryNonceStore({ now: () => clock });
+
+    expect(nonceStore.consume('late', 5_000)).toBe(true);
+    expect(nonceStore.consume('early', 2_000)).toBe(true);
+    expect(nonceStore.consume('middle', 3_000)).toBe(true);
+    expect(nonceStore.consume('early', 2_000)).toBe(false);
+
+    clock = 3_500;
+    expect(nonceStore.consume('early', 2_000)).toBe(true);
+    expect(nonceStore.consume('middle', 3_000)).toBe(true);
+    expect(nonceStore.consume('late', 5_000)).toBe(false);
+  });
+
+  it('allows disabling replay protection', async () => {
+    const signer = createSigner({ nonceStore: null });
+    const token = signer.sign(ORDER);
+
+    await signer.verify(token);
+
+    await expect(signer.verify(token)).resolves.toBeDefined();
+  });
+
+  it('keeps verifying tokens signed with a rotated-out key', async () => {
+    const before = createReturnStateSigner({ keys: [KEY_2026_09] });
+    const after = createReturnStateSigner({ keys: [KEY_2026_10, KEY_2026_09] });
+    const inFlight = before.sign(ORDER);
+
+    await expect(after.verify(inFlight)).resolves.toMatchObject({ keyId: '2026-09' });
+    await expect(after.verify(after.sign(ORDER))).resolves.toMatchObject({
+      keyId: '2026-10',
+    });
+  });
+
+  it('rejects malformed order IDs without consuming the token', async () => {
+    const signer = createSigner();
+    const url = new URL(signer.buildReturnUrl('https://shop.dz/return', ORDER));
+    url.searchParams.set('orderId', '<script>');
+
+    const error = await rejection(signer.verify(url));
+
+    expect(error.code).toBe('INVALID_ORDER_ID');
+    url.searchParams.set('orderId', 'V721uPPfNNofVQAAABL3');
+    await expect(signer.verify(url)).resolves.toMatchObject({
+      orderId: 'V721uPPfNNofVQAAABL3',
+    });
+  });
+
+  it('validates keys and signed values', () => {
+    expect(() => createReturnStateSigner({ keys: [] })).toThrow(ConfigError);
+    for (const ttlSeconds of [0, -60, 1.5, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(() => createSigner({ ttlSeconds })).toThrow(ConfigError);
+    }
+    expect(() =>
+      createReturnStateSigner({ keys: [{ id: 'short', secret: 'too-short' }] })
+    ).toThrow(ConfigError);
+    expect(() => createSigner().sign({ ...ORDER, amount: 10 })).toThrow(ValidationError);
+    expect(() => createSigner().sign({ ...ORDER, orderNumber: '' })).toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createSatimClient } from '../src/client.js';
+import { SatimApiError } from '../src/errors.js';
+import { OrderStatus } from '../src/types.js';
+import type { SatimClient } from '../src/client.js';
+import { startSatimSimulator, SIMULATOR_TEST_CARDS } from '../src/simulator/index.js';
+import type { SatimSimulator } from '../src/simulator/index.js';
+import { createTestConfig } from './helpers.js';
+
+const ORDER = {
+  amount: 5000,
+  returnUrl: 'https://merchant.com/success',
+  failUrl: 'https://merchant.com/failure',
+  udf1: 'INV001',
+};
+
+describe('simulator', () => {
+  let simulator: SatimSimulator;
+  let client: SatimClient;
+  let orderSeq = 0;
+
+  const nextOrderNumber = () => `SIM${String(++orderSeq).padStart(4, '0')}`;
+
+  beforeAll(async () => {
+    simulator = await startSatimSimulator();
+    client = createSatimClient(
+      createTestConfig({
+        apiBaseUrl: simulator.apiBaseUrl,
+        paymentPageUrl: simulator.paymentPageUrl,
+      })
+    );
+  });
+
+  afterEach(() => {
+    simulator.reset();
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  /**
+   * Submits the hosted payment page like a browser would
+   */
+  async function submitPaymentPage(formUrl: string, fields: Record<string, string>) {
+    const page = await fetch(formUrl);
+    const html = await page.text();
+    const action = /<form method="post" action="([^"]+)"/.exec(html)?.[1];
+    const mdOrder = /name="mdOrder" value="([^"]+)"/.exec(html)?.[1];
+    expect(page.status).toBe(200);
+    expect(action).toBeDefined();
+
+    const response = await fetch(new URL(action!, formUrl), {
+      method: 'POST',
+      body: new URLSearchParams({ mdOrder: mdOrder!, ...fields }),
+      redirect: 'manual',
+    });
+    expect(response.status).toBe(303);
+    return new URL(response.headers.get('location')!);
+  }
+
+  describe('end-to-end checkout', () => {
+    it('should complete a paid checkout through the payment page', async () => {
+      const registered = await client.register({ ...ORDER, orderNumber: nextOrderNumber() });
+      expect(registered.formUrl).toContain(simulator.url);
+
+      const redirect = await submitPaymentPage(registered.formUrl!, {
+        pan: '6280581110007215',
+        action: 'pay',
+      });
+      expect(redirect.origin + redirect.pathname).toBe(ORDER.returnUrl);
+      expect(redirect.searchParams.get('orderId')).toBe(registered.orderId);
+
+      const confirmed = await client.confirm(redirect.searchParams.get('orderId')!);
+      expect(confirmed.isPaid()).toBe(true);
+      expect(confirmed.amount).toBe(500000);
+      expect(confirmed.depositAmount).toBe(500000);
+      expect(confirmed.pan).toBe('628058**7215');
+      expect(confirmed.params).toMatchObject({ udf1: 'INV001', respCode: '00' });
+    });
+
+    it('should redirect declined payments to failUrl', async () => {
+      const registered = await client.register({ ...ORDER, orderNumber: nextOrderNumber() });
+
+      const redirect = await submitPaymentPage(registered.formUrl!, {
+        pan: '6280 5806 1006 1110',
+        action: 'pay',
+      });
+      expect(redirect.origin + redirect.pathname).toBe(ORDER.failUrl);
+
+      await expect(client.confirm(registered.orderId!)).rejects.toMatchObject({
+        satimErrorCode: 2,
+      });
+
+      const status = await client.getOrderStatus({ orderId: registered.orderId! });
+      expect(status.orderStatus).toBe(OrderStatus.DECLINED);
+      expect(status.actionCode).toBe(116);
+    });
+
+    it('should keep cancelled orders registered', async () => {
+      const registered = await client.register({ ...ORDER, orderNumber: nextOrderNumber() });
+
+      const redirect = await submitPaymentPage(registered.formUrl!, { action: 'cancel' });
+      expect(redirect.origin + redirect.pathname).toBe(ORDER.failUrl);
+
+      const confirmed = await client.confirm(registered.orderId!);
+      expect(confirmed.orderStatus).toBe(OrderStatus.REGISTERED_NOT_PAID);
+      expect(confirmed.isPaid()).toBe(false);
+    });
+
+    it('should trigger the order status of each test card', async () => {
+      for (const card of SIMULATOR_TEST_CARDS) {
+        const registered = await client.register({ ...ORDER, orderNumber: nextOrderNumber() });
+        simulator.pay(registered.orderId!, card.pan);
+
+        const status = await client.getOrderStatus({ orderId: registered.orderId! });
+        expect(status.orderStatus).toBe(card.outcome.orderStatus);
+        expect(status.actionCode).toBe(card.outcome.actionCode);
+      }
+    });
+  });
+
+  describe('order lifecycle', () => {
+    it('should reject duplicate order numbers and support recovery', async () => {
+      const orderNumber = nextOrderNumber();
+      const first = await client.register({ ...ORDER, orderNumber });
+
+      await expect(client.register({ ...ORDER, orderNumber })).rejects.toMatchObject({
+        satimErrorCode: 1,
+      });
+
+      const recovered = await client.register({ ...ORDER, orderNumber, recoverExisting: true });
+      expect(recovered.recovered).toBe(true);
+      expect(recovered.orderId).toBe(first.orderId);
+      expect(recovered.formUrl).toBe(first.formUrl);
+    });
+
+    it('should track partial refunds', async () => {
+      const registered = await client.register({ ...ORDER, orderNumber: nextOrderNumber() });
+      simulator.pay(registered.orderId!, '6280581110007215');
+
+      await client.refund(registered.orderId!, 1000);
+      await client.refund(registered.orderId!, 1500);
+
+      const status = await client.getOrderStatus({ orderId: registered.orderId! });
+      expect(status.orderStatus).toBe(OrderStatus.REFUNDED);
+      expect(status.refundedAmount).toBe(250000);
+
+      await expect(client.refund(registered.orderId!, 3000)).rejects.toMatchObject({
+        satimErrorCode: 5,
+      });
+    });
+
+    it('should run a pre-authorization through deposit', async () => {
+      const registered = await client.registerPreAuth({ ...ORDER, orderNumber: nextOrderNumber() });
+      simulator.pay(registered.orderId!, '6280581110007215');
+
+      const approved = await client.getOrderStatus({ orderId: registered.orderId! });
+      expect(approved.orderStatus).toBe(OrderStatus.APPROVED);
+      expect(approved.approvedAmount).toBe(500000);
+
+      await expect(client.deposit(registered.orderId!, 6000)).rejects.toMatchObject({
+        satimErrorCode: 7,
+      });
+
+      await client.deposit(registered.orderId!, 4200);
+      const deposited = await client.getOrderStatus({ orderId: registered.orderId! });
+      expect(deposited.orderStatus).toBe(OrderStatus.DEPOSITED);
+      expect(deposited.depositedAmount).toBe(420000);
+    });
+
+    it('should reverse a pre-authorization', async () => {
+      const registered = await client.registerPreAuth({ ...ORDER, orderNumber: nextOrderNumber() });
+      simulator.pay(registered.orderId!, '6280581110007215');
+
+      await client.reverse(registered.orderId!);
+      expect(simulator.getOrder(registered.orderId!)?.status).toBe(OrderStatus.REVERSED);
+
+      await expect(client.reverse(registered.orderId!)).rejects.toThrow(SatimApiError);
+    });
+  });
+
+  describe('credentials', () => {
+    it('should reject unknown credentials when configured', async () => {
+      const secured = await startSatimSimulator({ userName: 'merchant', password: 'secret' });
+      try {
+        const badClient = createSatimClient(
+          createTestConfig({ apiBaseUrl: secured.apiBaseUrl })
+        );
+        await expect(
+          badClient.register({ ...ORDER, orderNumber: 'AUTH01' })
+        ).rejects.toMatchObject({ satimErrorCode: 5 });
+      } finally {
+        await secured.close();
+      }
+    });
+  });
+});
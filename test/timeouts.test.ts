@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo, Server } from 'node:net';
+import { createSatimClient } from '../src/client.js';
+import { ConfigError, TimeoutError } from '../src/errors.js';
+import { createConnectTimeoutFetch } from '../src/transport.js';
+import {
+  createClient,
+  createTestConfig,
+  hangingFetch,
+  MOCK_CONFIRM_SUCCESS,
+} from './helpers.js';
+
+/**
+ * Fetch stub that sends headers but never finishes the body
+ */
+async function stalledBodyFetch(): Promise<Response> {
+  return new Response(new ReadableStream({ start() {} }), {
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+async function timeoutOf(call: Promise<unknown>): Promise<TimeoutError> {
+  const error = await call.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(TimeoutError);
+  return error as TimeoutError;
+}
+
+describe('phase timeouts', () => {
+  it('times out waiting for the response headers', async () => {
+    const client = createClient({ fetch: hangingFetch, headersTimeoutMs: 20 });
+
+    const error = await timeoutOf(client.confirm('order'));
+
+    expect(error).toMatchObject({
+      phase: 'headers',
+      timeoutMs: 20,
+      message: 'Request timed out after 20ms waiting for the response headers',
+      details: { timeoutMs: 20, phase: 'headers' },
+    });
+  });
+
+  it('times out reading the response body', async () => {
+    const client = createClient({ fetch: stalledBodyFetch, bodyTimeoutMs: 20 });
+
+    const error = await timeoutOf(client.confirm('order'));
+
+    expect(error).toMatchObject({
+      phase: 'body',
+      timeoutMs: 20,
+      message: 'Request timed out after 20ms reading the response body',
+    });
+  });
+
+  it('applies the overall timeout to a stalled body', async () => {
+    const client = createClient({
+      fetch: stalledBodyFetch,
+      timeoutMs: 30,
+      bodyTimeoutMs: 1000,
+    });
+
+    const error = await timeoutOf(client.confirm('order'));
+
+    expect(error).toMatchObject({
+      phase: 'total',
+      timeoutMs: 30,
+      message: 'Request timed out after 30ms',
+    });
+  });
+
+  it('reports undici connect timeouts as the connect phase', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetch = vi.fn(async () => {
+      const cause = Object.assign(new Error('Connect Timeout Error'), {
+        code: 'UND_ERR_CONNECT_TIMEOUT',
+      });
+      throw new TypeError('fetch failed', { cause });
+    });
+    const client = createSatimClient(
+      createTestConfig({
+        http: {
+          fetch,
+          connectTimeoutMs: 3000,
+          retry: { maxAttempts: 2, baseDelayMs: 1 },
+        },
+        logger: { customLogger: logger },
+      })
+    );
+
+    const error = await timeoutOf(client.confirm('order'));
+
+    expect(error).toMatchObject({
+      phase: 'connect',
+      timeoutMs: 3000,
+      attempts: 2,
+      message: 'Request timed out after 3000ms connecting to the Satim API',
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: 'connect' }),
+      'Satim API request timed out connecting to the Satim API'
+    );
+  });
+
+  it('uses the global fetch for the default connect timeout', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    vi.stubGlobal('fetch', fetch);
+    try {
+      const client = createClient({ connectTimeoutMs: 10000 });
+
+      await client.confirm('order');
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('leaves fast responses alone', async () => {
+    const fetch = async () => new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS));
+    const client = createClient({ fetch, headersTimeoutMs: 20, bodyTimeoutMs: 20 });
+
+    await expect(client.confirm('order')).resolves.toBeDefined();
+  });
+});
+
+describe('createConnectTimeoutFetch', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it('sends requests through its own agent', async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        response.setHeader('content-type', 'application/json');
+        response.end(JSON.stringify({ method: request.method, body }));
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const fetch = createConnectTimeoutFetch(1000);
+
+    const response = await fetch(`http://127.0.0.1:${port}/confirmOrder.do`, {
+      method: 'POST',
+      body: 'orderId=order',
+    });
+
+    expect(await response.json()).toEqual({ method: 'POST', body: 'orderId=order' });
+  });
+
+  it('reports a missing undici package as a configuration error', async () => {
+    vi.doMock('undici', () => {
+      throw new Error("Cannot find package 'undici'");
+    });
+    try {
+      const fetch = createConnectTimeoutFetch(1000);
+
+      await expect(fetch('http://127.0.0.1/confirmOrder.do', {})).rejects.toThrow(ConfigError);
+    } finally {
+      vi.doUnmock('undici');
+    }
+  });
+});
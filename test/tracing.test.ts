@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createSatimClient } from '../src/client.js';
+import { SatimApiError } from '../src/errors.js';
+import type {
+  HttpConfig,
+  SatimSpan,
+  SatimSpanAttributes,
+  SatimSpanOptions,
+  SatimTracer,
+} from '../src/types.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_ORDER_STATUS_SUCCESS,
+  MOCK_REFUND_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  parent?: RecordedSpan;
+  attributes: SatimSpanAttributes;
+  events: Array<{ name: string; attributes?: SatimSpanAttributes }>;
+  exceptions: Error[];
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * In-memory tracer with OpenTelemetry's active span semantics
+ */
+function createMemoryTracer() {
+  const spans: RecordedSpan[] = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+
+  const start = (name: string, options: SatimSpanOptions = {}) => {
+    const recorded: RecordedSpan = {
+      name,
+      kind: options.kind,
+      parent: active.getStore(),
+      attributes: { ...options.attributes },
+      events: [],
+      exceptions: [],
+      ended: false,
+    };
+    spans.push(recorded);
+    const span: SatimSpan = {
+      setAttribute: (key, value) => (recorded.attributes[key] = value),
+      setAttributes: (attributes) => Object.assign(recorded.attributes, attributes),
+      addEvent: (eventName, attributes) =>
+        recorded.events.push({ name: eventName, attributes }),
+      recordException: (exception) => recorded.exceptions.push(exception),
+      setStatus: (status) => (recorded.status = status),
+      end: () => (recorded.ended = true),
+    };
+    return { recorded, span };
+  };
+
+  const tracer: SatimTracer = {
+    startSpan: (name, options) => start(name, options).span,
+    startActiveSpan: (name, options, fn) => {
+      const { recorded, span } = start(name, options);
+      return active.run(recorded, () => fn(span));
+    },
+  };
+  return { tracer, spans };
+}
+
+function createTracedClient(fetch: HttpConfig['fetch'], http: HttpConfig = {}) {
+  const { tracer, spans } = createMemoryTracer();
+  const client = createSatimClient({
+    ...createTestConfig({ http: { fetch, ...http }, logger: { enableDevLogging: false } }),
+    tracer,
+  });
+  return { client, spans };
+}
+
+describe('tracing', () => {
+  it('opens an operation span with a child span per HTTP attempt', async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(JSON.stringify(MOCK_CONFIRM_SUCCESS)));
+    const { client, spans } = createTracedClient(fetch, {
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    await client.confirm('V721uPPfNNofVQAAABL3');
+
+    const [operation, failed, succeeded] = spans;
+    expect(spans).toHaveLength(3);
+    expect(operation).toMatchObject({
+      name: 'satim.confirm',
+      kind: 0,
+      ended: true,
+      attributes: {
+        'satim.operation': 'confirm',
+        'satim.order_id': '[REDACTED]...AAABL3',
+        'satim.error_code': 0,
+        'satim.order_status': 2,
+        'satim.retry_count': 1,
+      },
+    });
+    expect(operation!.events).toEqual([
+      {
+        name: 'satim.retry',
+        attributes: expect.objectContaining({ 'satim.attempt': 1 }),
+      },
+    ]);
+    expect(failed).toMatchObject({
+      name: 'POST /public/acknowledgeTransaction.do',
+      kind: 2,
+      parent: operation,
+      status: { code: 2 },
+      attributes: {
+        'http.request.method': 'POST',
+        'satim.attempt': 1,
+        'error.type': 'HTTP_ERROR',
+      },
+    });
+    expect(succeeded).toMatchObject({
+      parent: operation,
+      ended: true,
+      attributes: {
+        'http.request.resend_count': 1,
+        'http.response.status_code': 200,
+        'satim.error_code': 0,
+      },
+    });
+    expect(succeeded!.status).toBeUndefined();
+  });
+
+  it('marks the operation span as failed on SATIM errors', async () => {
+    const fetch = async () =>
+      new Response(JSON.stringify({ errorCode: 5, errorMessage: 'Invalid amount' }));
+    const { client, spans } = createTracedClient(fetch);
+
+    await expect(client.refund('order-123456789', 100)).rejects.toBeInstanceOf(
+      SatimApiError
+    );
+
+    expect(spans[0]).toMatchObject({
+      name: 'satim.refund',
+      status: { code: 2 },
+      attributes: { 'satim.error_code': 5, 'error.type': 'API_ERROR' },
+    });
+    expect(spans[0]!.exceptions[0]).toBeInstanceOf(SatimApiError);
+    // The HTTP attempt itself succeeded
+    expect(spans[1]!.status).toBeUndefined();
+  });
+
+  it('redacts order numbers and the call context', async () => {
+    const fetch = async () => new Response(JSON.stringify(MOCK_REGISTER_SUCCESS));
+    const { client, spans } = createTracedClient(fetch);
+
+    await client.register(
+      {
+        orderNumber: 'ORD0001234',
+        amount: 5000,
+        returnUrl: 'https://shop.dz/return',
+        udf1: 'INV001',
+      },
+      { context: { requestId: 'req-1', password: 'hunter2', nested: { a: 1 } } }
+    );
+
+    expect(spans[0]!.attributes).toMatchObject({
+      'satim.order_number': '[REDACTED]...001234',
+      'satim.order_id': '[REDACTED]...AAABL3',
+      'satim.context.requestId': 'req-1',
+      'satim.context.password': '[REDACTED]',
+    });
+    expect(spans[0]!.attributes).not.toHaveProperty('satim.context.nested');
+    const serialized = JSON.stringify(spans.map((span) => span.attributes));
+    expect(serialized).not.toContain('test_user');
+    expect(serialized).not.toContain('test_password');
+  });
+
+  it('traces refunds', async () => {
+    const fetch = async () => new Response(JSON.stringify(MOCK_REFUND_SUCCESS));
+    const { client, spans } = createTracedClient(fetch);
+
+    await client.refund('order-123456789', 100);
+
+    expect(spans.map((span) => span.name)).toEqual(['satim.refund', 'POST /refund.do']);
+    expect(spans[0]!.attributes).toMatchObject({ 'satim.retry_count': 0 });
+  });
+
+  it('traces the status checks of a refund retry as calls of their own', async () => {
+    const fetch = vi.fn(async (url: string) => {
+      if (url.includes('refund.do') && fetch.mock.calls.length === 2) {
+        throw new TypeError('fetch failed');
+      }
+      return new Response(
+        JSON.stringify(url.includes('refund.do') ? MOCK_REFUND_SUCCESS : MOCK_ORDER_STATUS_SUCCESS)
+      );
+    });
+    const { client, spans } = createTracedClient(fetch, {
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    await client.refund('order-123456789', 100);
+
+    const refund = spans[0]!;
+    expect(refund.attributes).toMatchObject({ 'satim.retry_count': 1 });
+    expect(
+      spans.filter((span) => span.parent === refund).map((span) => span.name)
+    ).toEqual([
+      'satim.getOrderStatus',
+      'POST /refund.do',
+      'satim.getOrderStatus',
+      'POST /refund.do',
+    ]);
+    for (const span of spans.filter(({ name }) => name === 'POST /getOrderStatusExtended.do')) {
+      expect(span.parent?.name).toBe('satim.getOrderStatus');
+    }
+  });
+
+  it('does nothing without a tracer', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(MOCK_REFUND_SUCCESS)));
+    const client = createSatimClient(createTestConfig({ http: { fetch } }));
+
+    await expect(client.refund('order-123456789', 100)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,472 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { appendFile, mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSatimClient } from '../src/client.js';
+import {
+  applyTransactionEvent,
+  createJsonlTransactionStore,
+  createMemoryTransactionStore,
+  createSqliteTransactionStore,
+  withTransactionStore,
+} from '../src/transaction-store.js';
+import {
+  SatimApiError,
+  TimeoutError,
+  TransactionStoreError,
+  ValidationError,
+} from '../src/errors.js';
+import type {
+  HttpConfig,
+  SatimTransactionEvent,
+  SatimTransactionStore,
+  SqliteDatabase,
+} from '../src/types.js';
+import {
+  createTestConfig,
+  MOCK_CONFIRM_SUCCESS,
+  MOCK_ORDER_STATUS_SUCCESS,
+  MOCK_REFUND_SUCCESS,
+  MOCK_REGISTER_SUCCESS,
+} from './helpers.js';
+
+// node:sqlite ships with Node 22.5+; better-sqlite3 is not a dependency. It is
+// loaded with require() because the test runner cannot import it.
+const sqlite = (() => {
+  try {
+    return createRequire(import.meta.url)('node:sqlite') as {
+      DatabaseSync: new (path: string) => SqliteDatabase & { close(): void };
+    };
+  } catch {
+    return null;
+  }
+})();
+
+const ORDER_ID = 'V721uPPfNNofVQAAABL3';
+
+const EVENTS: SatimTransactionEvent[] = [
+  {
+    type: 'registered',
+    operation: 'register',
+    orderId: ORDER_ID,
+    orderNumber: 'CMD0000004',
+    amount: '100320',
+    currency: '012',
+    at: '2026-01-01T10:00:00.000Z',
+  },
+  {
+    type: 'status',
+    operation: 'confirm',
+    orderId: ORDER_ID,
+    orderStatus: 2,
+    at: '2026-01-01T10:05:00.000Z',
+  },
+  {
+    type: 'refunded',
+    operation: 'refund',
+    orderId: ORDER_ID,
+    amount: '20000',
+    at: '2026-01-02T09:00:00.000Z',
+  },
+];
+
+function createStoredClient(fetch: HttpConfig['fetch'], store: SatimTransactionStore) {
+  const client = createSatimClient(
+    createTestConfig({ http: { fetch }, logger: { enableDevLogging: false } })
+  );
+  return withTransactionStore(client, store);
+}
+
+/**
+ * Fetch stub answering each endpoint with the response of the first matching path
+ */
+function createRoutedFetch(routes: Record<string, (init: RequestInit) => unknown>) {
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const path = Object.keys(routes).find((route) => url.includes(route));
+    return new Response(JSON.stringify(await routes[path!]!(init)));
+  });
+}
+
+/**
+ * Number of requests a fetch stub received for an endpoint
+ */
+function callsTo(fetch: ReturnType<typeof createRoutedFetch>, endpoint: string) {
+  return fetch.mock.calls.filter(([url]) => url.includes(endpoint)).length;
+}
+
+/**
+ * getOrderStatus response for the paid order, with amounts in minor units
+ */
+function paidStatus(depositedAmount: number, refundedAmount = 0) {
+  return {
+    ...MOCK_ORDER_STATUS_SUCCESS,
+    orderStatus: refundedAmount > 0 ? 4 : 2,
+    paymentAmountInfo: {
+      ...MOCK_ORDER_STATUS_SUCCESS.paymentAmountInfo,
+      depositedAmount,
+      refundedAmount,
+    },
+  };
+}
+
+/**
+ * Checks a store against the events above
+ */
+async function expectRecordedHistory(store: SatimTransactionStore) {
+  for (const event of EVENTS) {
+    await store.record(event);
+  }
+
+  const transaction = await store.get(ORDER_ID);
+  expect(transaction).toMatchObject({
+    orderNumber: 'CMD0000004',
+    amount: '100320',
+    status: 'partially_refunded',
+    orderStatus: 2,
+    refundedAmount: '20000',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    updatedAt: '2026-01-02T09:00:00.000Z',
+  });
+  expect(transaction!.transitions.map(({ from, to }) => [from, to])).toEqual([
+    [null, 'registered'],
+    ['registered', 'paid'],
+    ['paid', 'partially_refunded'],
+  ]);
+  expect(await store.findByOrderNumber('CMD0000004')).toEqual(transaction);
+  expect(await store.list()).toEqual([transaction]);
+  expect(await store.get('unknown')).toBeUndefined();
+}
+
+describe('transaction store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('applyTransactionEvent', () => {
+    it('tracks refunds until the captured amount is refunded', () => {
+      let transaction = applyTransactionEvent(undefined, EVENTS[0]!);
+      transaction = applyTransactionEvent(transaction, EVENTS[1]!);
+      const partial = applyTransactionEvent(transaction, EVENTS[2]!);
+      const full = applyTransactionEvent(partial, { ...EVENTS[2]!, amount: '80320' });
+
+      expect(partial.status).toBe('partially_refunded');
+      expect(full.status).toBe('refunded');
+      expect(full.refundedAmount).toBe('100320');
+      expect(full.refunds).toHaveLength(2);
+      expect(partial.refunds).toHaveLength(1);
+    });
+
+    it('maps order statuses and ignores unchanged or unknown ones', () => {
+      const registered = applyTransactionEvent(undefined, EVENTS[0]!);
+      const status = (orderStatus: number) =>
+        applyTransactionEvent(registered, { ...EVENTS[1]!, orderStatus });
+
+      expect(status(1).status).toBe('approved');
+      expect(status(3).status).toBe('reversed');
+      expect(status(4).status).toBe('refunded');
+      expect(status(6).status).toBe('declined');
+      expect(status(-1).status).toBe('declined');
+      expect(status(5).status).toBe('registered');
+      expect(status(0).transitions).toHaveLength(1);
+    });
+  });
+
+  it('records history in memory', async () => {
+    await expectRecordedHistory(createMemoryTransactionStore());
+  });
+
+  describe('JSONL store', () => {
+    it('appends events and rebuilds transactions from the file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'satim-store-'));
+      try {
+        const path = join(dir, 'transactions.jsonl');
+        await expectRecordedHistory(createJsonlTransactionStore(path));
+
+        const lines = (await readFile(path, 'utf8')).trim().split('\n');
+        expect(lines.map((line) => JSON.parse(line))).toEqual(EVENTS);
+
+        // A crash can leave a partial last line behind
+        await appendFile(path, '{"type":"refu');
+        const reopened = createJsonlTransactionStore(path);
+        expect((await reopened.get(ORDER_ID))?.refundedAmount).toBe('20000');
+
+        await reopened.record({ ...EVENTS[2]!, at: '2026-01-03T09:00:00.000Z' });
+        const reloaded = createJsonlTransactionStore(path);
+        expect((await reloaded.get(ORDER_ID))?.refundedAmount).toBe('40000');
+        expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(4);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('reads the file again after a failed read', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'satim-store-'));
+      try {
+        // Reading a directory fails with EISDIR
+        const path = join(dir, 'transactions.jsonl');
+        await mkdir(path);
+        const store = createJsonlTransactionStore(path);
+        await expect(store.get(ORDER_ID)).rejects.toThrow();
+
+        await rm(path, { recursive: true });
+        await store.record(EVENTS[0]!);
+        expect((await store.get(ORDER_ID))?.status).toBe('registered');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('keeps the event order of concurrent records', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'satim-store-'));
+      try {
+        const path = join(dir, 'transactions.jsonl');
+        const store = createJsonlTransactionStore(path);
+
+        await Promise.all(EVENTS.map((event) => store.record(event)));
+
+        expect((await store.get(ORDER_ID))?.status).toBe('partially_refunded');
+        const types = (await readFile(path, 'utf8'))
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line).type);
+        expect(types).toEqual(['registered', 'status', 'refunded']);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe.skipIf(!sqlite)('SQLite store', () => {
+    it('records history in tables', async () => {
+      const db = new sqlite!.DatabaseSync(':memory:');
+      try {
+        await expectRecordedHistory(createSqliteTransactionStore(db));
+        expect(db.prepare('SELECT COUNT(*) AS count FROM satim_transaction_events').get()).toEqual(
+          { count: 3 }
+        );
+      } finally {
+        db.close();
+      }
+    });
+  });
+
+  describe('withTransactionStore', () => {
+    it('records register, confirm and refund results', async () => {
+      const responses = [
+        MOCK_REGISTER_SUCCESS,
+        MOCK_CONFIRM_SUCCESS,
+        MOCK_ORDER_STATUS_SUCCESS,
+        MOCK_REFUND_SUCCESS,
+      ];
+      const store = createMemoryTransactionStore();
+      const client = createStoredClient(
+        async () => new Response(JSON.stringify(responses.shift())),
+        store
+      );
+
+      await client.register({
+        orderNumber: 'CMD0000004',
+        amount: 1003.2,
+        returnUrl: 'https://shop.dz/return',
+        udf1: 'Bill00001',
+      });
+      await client.confirm(ORDER_ID);
+      await client.refund(ORDER_ID, 1003.2);
+
+      expect(store.get(ORDER_ID)).toMatchObject({
+        orderNumber: 'CMD0000004',
+        amount: '100320',
+        status: 'refunded',
+        refundedAmount: '100320',
+        transitions: [
+          { from: null, to: 'registered', operation: 'register' },
+          { from: 'registered', to: 'paid', operation: 'confirm' },
+          { from: 'paid', to: 'refunded', operation: 'refund' },
+        ],
+      });
+    });
+
+    it('records declined confirmations and rethrows', async () => {
+      const store = createMemoryTransactionStore();
+      const client = createStoredClient(
+        async () =>
+          new Response(
+            JSON.stringify({ ...MOCK_CONFIRM_SUCCESS, ErrorCode: '2', OrderStatus: 6, actionCode: 116 })
+          ),
+        store
+      );
+
+      await expect(client.confirm(ORDER_ID)).rejects.toThrow(SatimApiError);
+
+      expect(store.get(ORDER_ID)).toMatchObject({ status: 'declined', orderStatus: 6 });
+    });
+
+    it('throws store errors with the response unless onError handles them', async () => {
+      const memory = createMemoryTransactionStore();
+      const failing: SatimTransactionStore = {
+        ...memory,
+        record: (event) => {
+          if (event.type === 'refunded') {
+            throw new Error('disk full');
+          }
+          return memory.record(event);
+        },
+      };
+      const fetch = createRoutedFetch({
+        'getOrderStatusExtended.do': () => MOCK_ORDER_STATUS_SUCCESS,
+        'refund.do': () => MOCK_REFUND_SUCCESS,
+      });
+      const onError = vi.fn();
+      const client = createSatimClient(
+        createTestConfig({ http: { fetch }, logger: { enableDevLogging: false } })
+      );
+
+      const error = await withTransactionStore(client, failing)
+        .refund(ORDER_ID, 100)
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(TransactionStoreError);
+      expect(error).toMatchObject({
+        kind: 'STORE_ERROR',
+        code: 'TRANSACTION_NOT_RECORDED',
+        event: { type: 'refunded', operation: 'refund', orderId: ORDER_ID, amount: '10000' },
+        cause: { message: 'disk full' },
+      });
+      expect((error as TransactionStoreError).response).toMatchObject({ errorCode: 0 });
+
+      const response = await withTransactionStore(client, failing, { onError }).refund(
+        ORDER_ID,
+        100
+      );
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({ type: 'refunded', amount: '10000' })
+      );
+    });
+
+    it('keeps the wrapper when middleware is added', () => {
+      const client = createStoredClient(vi.fn(), createMemoryTransactionStore());
+
+      expect(client.use(async (_request, next) => next())).toBe(client);
+    });
+  });
+
+  describe('refund ledger', () => {
+    it('rejects refunds exceeding the remaining balance before calling SATIM', async () => {
+      const fetch = createRoutedFetch({
+        'getOrderStatusExtended.do': () => paidStatus(80000),
+        'refund.do': () => MOCK_REFUND_SUCCESS,
+      });
+      const store = createMemoryTransactionStore();
+      store.record(EVENTS[0]!);
+      store.record({ ...EVENTS[1]!, depositedAmount: '80000' });
+      const client = createStoredClient(fetch, store);
+
+      await client.refund(ORDER_ID, 500);
+      expect(await client.getRefundableAmount(ORDER_ID)).toBe(300);
+
+      const error = await client.refund(ORDER_ID, 300.01).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toMatchObject({
+        code: 'REFUND_EXCEEDS_BALANCE',
+        details: { orderId: ORDER_ID, amount: 300.01, refundable: 300 },
+      });
+      expect(callsTo(fetch, 'refund.do')).toBe(1);
+
+      await client.refund(ORDER_ID, 300);
+      expect(store.get(ORDER_ID)).toMatchObject({ status: 'refunded', refundedAmount: '80000' });
+      expect(await client.getRefundableAmount(ORDER_ID)).toBe(0);
+    });
+
+    it('looks up orders the store does not know as paid', async () => {
+      const fetch = createRoutedFetch({
+        'getOrderStatusExtended.do': () => paidStatus(100320, 60320),
+        'refund.do': () => MOCK_REFUND_SUCCESS,
+      });
+      const store = createMemoryTransactionStore();
+      const client = createStoredClient(fetch, store);
+
+      await client.refund(ORDER_ID, 400);
+
+      expect(callsTo(fetch, 'refund.do')).toBe(1);
+      expect(store.get(ORDER_ID)).toMatchObject({
+        orderNumber: 'CMD0000004',
+        depositedAmount: '100320',
+        refundedAmount: '100320',
+        status: 'refunded',
+      });
+      await expect(client.refund(ORDER_ID, 50)).rejects.toThrow(ValidationError);
+      expect(callsTo(fetch, 'refund.do')).toBe(1);
+    });
+
+    it('does not repeat a timed-out refund that SATIM applied', async () => {
+      let refunded = 0;
+      const fetch = createRoutedFetch({
+        'getOrderStatusExtended.do': () => paidStatus(100320, refunded),
+        // SATIM applies the refund but the response never arrives
+        'refund.do': (init) =>
+          new Promise((_resolve, reject) => {
+            refunded = 80000;
+            init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+          }),
+      });
+      const store = createMemoryTransactionStore();
+      store.record(EVENTS[0]!);
+      store.record(EVENTS[1]!);
+      const client = createStoredClient(fetch, store);
+
+      await expect(client.refund(ORDER_ID, 800, { timeoutMs: 20 })).rejects.toThrow(TimeoutError);
+      expect(store.get(ORDER_ID)).toMatchObject({ status: 'paid', refundedAmount: '0' });
+
+      await expect(client.refund(ORDER_ID, 800)).rejects.toMatchObject({
+        code: 'REFUND_EXCEEDS_BALANCE',
+        details: { refundable: 203.2 },
+      });
+      expect(callsTo(fetch, 'refund.do')).toBe(1);
+      expect(store.get(ORDER_ID)).toMatchObject({
+        status: 'partially_refunded',
+        refundedAmount: '80000',
+      });
+      expect(await client.getRefundableAmount(ORDER_ID)).toBe(203.2);
+    });
+
+    it('rejects refunds of unpaid orders', async () => {
+      const fetch = vi.fn(
+        async () =>
+          new Response(JSON.stringify({ ...MOCK_ORDER_STATUS_SUCCESS, orderStatus: 6 }))
+      );
+      const client = createStoredClient(fetch, createMemoryTransactionStore());
+
+      await expect(client.refund(ORDER_ID, 100)).rejects.toMatchObject({
+        code: 'REFUND_EXCEEDS_BALANCE',
+        details: { refundable: 0 },
+      });
+      expect(await client.getRefundableAmount(ORDER_ID)).toBe(0);
+    });
+
+    it('runs refunds of an order one at a time', async () => {
+      const fetch = createRoutedFetch({
+        'getOrderStatusExtended.do': () => MOCK_ORDER_STATUS_SUCCESS,
+        'refund.do': async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return MOCK_REFUND_SUCCESS;
+        },
+      });
+      const store = createMemoryTransactionStore();
+      store.record(EVENTS[0]!);
+      store.record(EVENTS[1]!);
+      const client = createStoredClient(fetch, store);
+
+      const results = await Promise.allSettled([
+        client.refund(ORDER_ID, 600),
+        client.refund(ORDER_ID, 600),
+      ]);
+
+      expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected']);
+      expect(callsTo(fetch, 'refund.do')).toBe(1);
+      expect(await client.getRefundableAmount(ORDER_ID)).toBe(403.2);
+    });
+  });
+});
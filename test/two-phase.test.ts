@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockAgent, type Dispatcher } from 'undici';
+import { createSatimClient } from '../src/client.js';
+import { ValidationError, SatimApiError, mapSatimErrorCode } from '../src/errors.js';
+import {
+  createTestConfig,
+  createMockAgent,
+  setupMockAgent,
+  restoreDispatcher,
+  mockPool,
+  MOCK_REGISTER_SUCCESS,
+  parseFormBody,
+} from './helpers.js';
+
+describe('two-phase payments', () => {
+  let agent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    agent = createMockAgent();
+    originalDispatcher = setupMockAgent(agent);
+  });
+
+  afterEach(async () => {
+    restoreDispatcher(originalDispatcher);
+    await agent.close();
+  });
+
+  describe('registerPreAuth', () => {
+    it('should register a pre-authorized order', async () => {
+      let capturedBody = '';
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/registerPreAuth.do',
+          method: 'POST',
+        })
+        .reply(200, (opts) => {
+          capturedBody = opts.body as string;
+          return MOCK_REGISTER_SUCCESS;
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.registerPreAuth({
+        orderNumber: 'ORD001',
+        amount: 5000,
+        returnUrl: 'https://merchant.com/success',
+        udf1: 'INV001',
+      });
+
+      const params = parseFormBody(capturedBody);
+      expect(params['orderNumber']).toBe('ORD001');
+      expect(params['amount']).toBe('500000');
+      expect(JSON.parse(params['jsonParams'] ?? '{}')).toMatchObject({
+        force_terminal_id: 'E010TEST01',
+        udf1: 'INV001',
+      });
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(response.orderId).toBe('V721uPPfNNofVQAAABL3');
+    });
+
+    it('should apply register validation rules', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      await expect(
+        client.registerPreAuth({
+          orderNumber: 'ORD001',
+          amount: 10,
+          returnUrl: 'https://merchant.com/success',
+          udf1: 'INV001',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should report errors against registerPreAuth', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/registerPreAuth.do',
+          method: 'POST',
+        })
+        .reply(200, { errorCode: 1, errorMessage: 'Order already processed' }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+
+      try {
+        await client.registerPreAuth({
+          orderNumber: 'ORD001',
+          amount: 5000,
+          returnUrl: 'https://merchant.com/success',
+          udf1: 'INV001',
+        });
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SatimApiError);
+        expect((error as SatimApiError).endpoint).toBe('registerPreAuth');
+        expect((error as SatimApiError).message).toBe(
+          'Order with given order number has already been processed'
+        );
+      }
+    });
+  });
+
+  describe('deposit', () => {
+    it('should capture a partial amount', async () => {
+      let capturedBody = '';
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/deposit.do',
+          method: 'POST',
+        })
+        .reply(200, (opts) => {
+          capturedBody = opts.body as string;
+          return { errorCode: '0', errorMessage: 'Success' };
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.deposit('V721uPPfNNofVQAAABL3', '2500.50');
+
+      const params = parseFormBody(capturedBody);
+      expect(params['orderId']).toBe('V721uPPfNNofVQAAABL3');
+      expect(params['amount']).toBe('250050');
+      expect(params['currency']).toBe('012');
+      expect(params['language']).toBe('fr');
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(response.errorCode).toBe(0);
+      expect(response.errorMessage).toBe('Success');
+    });
+
+    it('should surface deposits above the authorized amount', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/deposit.do',
+          method: 'POST',
+        })
+        .reply(200, { errorCode: 7, errorMessage: 'Deposit amount exceeds the approved amount' }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+
+      try {
+        await client.deposit('V721uPPfNNofVQAAABL3', 9000);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SatimApiError);
+        expect((error as SatimApiError).satimErrorCode).toBe(7);
+        expect((error as SatimApiError).endpoint).toBe('deposit');
+        expect((error as SatimApiError).details?.['amount']).toBe('900000');
+      }
+    });
+
+    it('should require an amount', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      // @ts-expect-error Testing invalid input
+      await expect(client.deposit('V721uPPfNNofVQAAABL3')).rejects.toThrow(ValidationError);
+    });
+
+    it('should require an orderId', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      await expect(client.deposit('', 5000)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('reverse', () => {
+    it('should reverse an order', async () => {
+      let capturedBody = '';
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/reverse.do',
+          method: 'POST',
+        })
+        .reply(200, (opts) => {
+          capturedBody = opts.body as string;
+          return { errorCode: 0 };
+        }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+      const response = await client.reverse('V721uPPfNNofVQAAABL3', 'ar');
+
+      const params = parseFormBody(capturedBody);
+      expect(params['orderId']).toBe('V721uPPfNNofVQAAABL3');
+      expect(params['language']).toBe('ar');
+      expect(params).not.toHaveProperty('amount');
+
+      expect(response.isSuccessful()).toBe(true);
+      expect(response.errorMessage).toBeNull();
+    });
+
+    it('should throw SatimApiError when reversal is impossible', async () => {
+      const pool = mockPool(agent, 'https://test.satim.dz');
+      pool
+        .intercept({
+          path: '/payment/rest/reverse.do',
+          method: 'POST',
+        })
+        .reply(200, { errorCode: 7, errorMessage: 'Reversal is impossible' }, {
+          headers: { 'content-type': 'application/json' },
+        });
+
+      const client = createSatimClient(createTestConfig());
+
+      await expect(client.reverse('V721uPPfNNofVQAAABL3')).rejects.toThrow(SatimApiError);
+    });
+
+    it('should require an orderId', async () => {
+      const client = createSatimClient(createTestConfig());
+
+      // @ts-expect-error Testing invalid input
+      await expect(client.reverse(undefined)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('error codes', () => {
+    it('should map endpoint-specific error codes', () => {
+      expect(mapSatimErrorCode('registerPreAuth', 14)).toBe('Paymentway is invalid');
+      expect(mapSatimErrorCode('deposit', 7)).toContain('exceeds the authorized amount');
+      expect(mapSatimErrorCode('reverse', 6)).toBe('Unregistered OrderId');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockAgent, type Dispatcher } from 'undici';
+import { createSatimClient } from '../src/client.js';
+import { SatimApiError, ValidationError } from '../src/errors.js';
+import { DeclineReason } from '../src/types.js';
+import {
+  createTestConfig,
+  createMockAgent,
+  setupMockAgent,
+  restoreDispatcher,
+  mockPool,
+  MOCK_CONFIRM_SUCCESS,
+} from './helpers.js';
+
+const EXPECTED = {
+  expectedAmount: 1003.2,
+  expectedOrderNumber: 'CMD0000004',
+};
+
+describe('verifyPayment', () => {
+  let agent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    agent = createMockAgent();
+    originalDispatcher = setupMockAgent(agent);
+  });
+
+  afterEach(async () => {
+    restoreDispatcher(originalDispatcher);
+    await agent.close();
+  });
+
+  function replyConfirm(body: Record<string, unknown>) {
+    mockPool(agent, 'https://test.satim.dz')
+      .intercept({
+        path: '/payment/rest/public/acknowledgeTransaction.do',
+        method: 'POST',
+      })
+      .reply(200, body, { headers: { 'content-type': 'application/json' } });
+  }
+
+  it('returns paid when amount, order number and currency match', async () => {
+    replyConfirm(MOCK_CONFIRM_SUCCESS);
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result.status).toBe('paid');
+    if (result.status === 'paid') {
+      expect(result.confirmation.isPaid()).toBe(true);
+    }
+  });
+
+  it.each([
+    ['number', 1003.2, 100320],
+    ['string', '1003.20', '100320'],
+    ['bigint', 1003n, 100300],
+  ])('compares a %s amount in minor units', async (_type, expectedAmount, confirmed) => {
+    replyConfirm({ ...MOCK_CONFIRM_SUCCESS, Amount: confirmed });
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', {
+      ...EXPECTED,
+      expectedAmount,
+    });
+
+    expect(result.status).toBe('paid');
+  });
+
+  it('reports every mismatching field', async () => {
+    replyConfirm({
+      ...MOCK_CONFIRM_SUCCESS,
+      Amount: 5000,
+      OrderNumber: 'CMD0000005',
+      currency: '978',
+    });
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result.status).toBe('mismatch');
+    if (result.status === 'mismatch') {
+      expect(result.mismatches).toEqual([
+        { field: 'amount', expected: '100320', actual: '5000' },
+        { field: 'orderNumber', expected: 'CMD0000004', actual: 'CMD0000005' },
+        { field: 'currency', expected: '012', actual: '978' },
+      ]);
+    }
+  });
+
+  it('treats a missing confirmed amount or currency as a mismatch', async () => {
+    const { Amount: _amount, currency: _currency, ...withoutAmount } = MOCK_CONFIRM_SUCCESS;
+    replyConfirm(withoutAmount);
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result.status).toBe('mismatch');
+    if (result.status === 'mismatch') {
+      expect(result.mismatches.map((m) => m.field)).toEqual(['amount', 'currency']);
+      expect(result.mismatches[0]!.actual).toBeNull();
+    }
+  });
+
+  it('uses expectedCurrency when given', async () => {
+    replyConfirm(MOCK_CONFIRM_SUCCESS);
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', {
+      ...EXPECTED,
+      expectedCurrency: '978',
+    });
+
+    expect(result.status).toBe('mismatch');
+  });
+
+  it('returns unpaid for orders that are not deposited', async () => {
+    replyConfirm({ ...MOCK_CONFIRM_SUCCESS, OrderStatus: 1 });
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result).toMatchObject({ status: 'unpaid', orderStatus: 1 });
+  });
+
+  it('returns declined for confirmations rejected with error code 2', async () => {
+    replyConfirm({
+      ...MOCK_CONFIRM_SUCCESS,
+      ErrorCode: '2',
+      OrderStatus: 6,
+      actionCode: 116,
+      SvfeResponse: '51',
+    });
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result).toEqual({
+      status: 'declined',
+      declineReason: DeclineReason.INSUFFICIENT_FUNDS,
+      actionCode: 116,
+      confirmation: null,
+    });
+  });
+
+  it('returns declined for declined orders confirmed without error', async () => {
+    replyConfirm({ ...MOCK_CONFIRM_SUCCESS, OrderStatus: 6, actionCode: 208 });
+
+    const client = createSatimClient(createTestConfig());
+    const result = await client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED);
+
+    expect(result).toMatchObject({
+      status: 'declined',
+      declineReason: DeclineReason.CARD_BLOCKED,
+      actionCode: 208,
+    });
+  });
+
+  it('rethrows other API errors', async () => {
+    replyConfirm({ ErrorCode: '6', ErrorMessage: 'Unregistered order Id' });
+
+    const client = createSatimClient(createTestConfig());
+
+    await expect(
+      client.verifyPayment('V721uPPfNNofVQAAABL3', EXPECTED)
+    ).rejects.toBeInstanceOf(SatimApiError);
+  });
+
+  it('validates the expected values before calling SATIM', async () => {
+    const client = createSatimClient(createTestConfig());
+
+    await expect(
+      client.verifyPayment('V721uPPfNNofVQAAABL3', { ...EXPECTED, expectedAmount: 10 })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      client.verifyPayment('V721uPPfNNofVQAAABL3', { ...EXPECTED, expectedOrderNumber: '' })
+    ).rejects.toThrow('expectedOrderNumber is required');
+  });
+});
@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    simulator: 'src/simulator/index.ts',
+    'simulator-cli': 'src/simulator/cli.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,